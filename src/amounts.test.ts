@@ -0,0 +1,60 @@
+import assert from "assert/strict";
+import { test } from "node:test";
+import { formatUnits, parseAmount, scaleUnits } from "./amounts.js";
+import { TokenConfig } from "./networks.js";
+
+const USDC: TokenConfig = { symbol: "USDC", address: "0xusdc", decimals: 6 };
+const WETH: TokenConfig = { symbol: "WETH", address: "0xweth", decimals: 18 };
+
+test("a bare integer is base units", () => {
+  assert.equal(parseAmount("50000", USDC), 50000n);
+  assert.equal(parseAmount(" 1 ", USDC), 1n);
+});
+
+test("decimals, symbols and dollars are token units", () => {
+  assert.equal(parseAmount("0.05", USDC), 50000n);
+  assert.equal(parseAmount("0.05 USDC", USDC), 50000n);
+  assert.equal(parseAmount("0.05 usdc", USDC), 50000n);
+  assert.equal(parseAmount("$0.05", USDC), 50000n);
+  assert.equal(parseAmount("$ 1", USDC), 1000000n);
+  assert.equal(parseAmount("2 USDC", USDC), 2000000n);
+  assert.equal(parseAmount("0.000001", USDC), 1n);
+  assert.equal(parseAmount("1.5 WETH", WETH), 1500000000000000000n);
+});
+
+test("amounts beyond the token's precision are refused, not rounded", () => {
+  assert.throws(() => parseAmount("0.0000001", USDC), /6 decimals, got 7 fractional digits/);
+});
+
+test("malformed and mismatched amounts are refused", () => {
+  for (const input of ["", "abc", "-1", "1e6", "0.05.1", "$-1", "1,000"]) {
+    assert.throws(() => parseAmount(input, USDC), /Invalid amount/, input);
+  }
+  assert.throws(() => parseAmount("$0.05 USDC", USDC), /either "\$" or a token symbol/);
+  assert.throws(() => parseAmount("0.05 EURC", USDC), /the asset is USDC, not EURC/);
+  assert.throws(() => parseAmount("$0.05", WETH), /WETH is not a USD token/);
+});
+
+test("amounts too large for a number stay exact", () => {
+  assert.equal(parseAmount("123456789012345678901234567890", USDC), 123456789012345678901234567890n);
+  assert.equal(parseAmount("12345678901234.123456 WETH", WETH), 12345678901234123456000000000000n);
+});
+
+test("formatUnits drops trailing zeros", () => {
+  assert.equal(formatUnits(50000n, 6), "0.05");
+  assert.equal(formatUnits(1000000n, 6), "1");
+  assert.equal(formatUnits(1n, 6), "0.000001");
+  assert.equal(formatUnits(-1500000n, 6), "-1.5");
+  assert.equal(formatUnits(42n, 0), "42");
+});
+
+test("scaleUnits rounds down when losing precision", () => {
+  assert.equal(scaleUnits(1n, 6, 18), 1000000000000n);
+  assert.equal(scaleUnits(1999999999999n, 18, 6), 1n);
+});
+
+test("zero is refused in every notation", () => {
+  for (const input of ["0", "000", "0.0", "$0", "$0.00", "0 USDC"]) {
+    assert.throws(() => parseAmount(input, USDC), /must be more than zero/, input);
+  }
+});
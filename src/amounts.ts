@@ -0,0 +1,81 @@
+import { TokenConfig } from "./networks.js";
+
+// Token amounts are bigint base units end to end; decimals only matter when
+// reading or printing human-readable amounts.
+
+// "50000" (base units), "0.05" / "0.05 USDC" (token units) or "$0.05"
+const AMOUNT_PATTERN = /^(\$)?\s*(\d+)(?:\.(\d+))?\s*([A-Za-z][A-Za-z0-9.]*)?$/;
+
+// Tokens a "$" price can be paid in
+export function isUsdToken(token: TokenConfig): boolean {
+  return token.symbol.toUpperCase().startsWith("USD");
+}
+
+// Convert a price to base units of the token. A bare integer is already in
+// base units; a decimal point, token symbol or "$" marks token units, which
+// may not have more fractional digits than the token has decimals. Zero is
+// refused: an exact payment of nothing is not a payment.
+export function parseAmount(input: string, token: TokenConfig): bigint {
+  const amount = parseBaseUnits(input, token);
+  if (amount === 0n) {
+    throw new Error(`Invalid amount "${input}": must be more than zero`);
+  }
+  return amount;
+}
+
+function parseBaseUnits(input: string, token: TokenConfig): bigint {
+  const match = AMOUNT_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid amount "${input}": use base units ("50000"), token units ("0.05 ${token.symbol}") or a dollar price ("$0.05")`
+    );
+  }
+
+  const [, dollar, whole, fraction, symbol] = match;
+  if (dollar && symbol) {
+    throw new Error(`Invalid amount "${input}": use either "$" or a token symbol, not both`);
+  }
+  if (dollar && !isUsdToken(token)) {
+    throw new Error(
+      `Invalid amount "${input}": ${token.symbol} is not a USD token, write "${whole}${fraction ? `.${fraction}` : ""} ${token.symbol}"`
+    );
+  }
+  if (symbol && symbol.toUpperCase() !== token.symbol.toUpperCase()) {
+    throw new Error(`Invalid amount "${input}": the asset is ${token.symbol}, not ${symbol}`);
+  }
+
+  if (!dollar && !symbol && fraction === undefined) {
+    return BigInt(whole);
+  }
+
+  const digits = fraction ?? "";
+  if (digits.length > token.decimals) {
+    throw new Error(
+      `Invalid amount "${input}": ${token.symbol} has ${token.decimals} decimals, got ${digits.length} fractional digits`
+    );
+  }
+  return (
+    BigInt(whole) * 10n ** BigInt(token.decimals) +
+    BigInt(digits.padEnd(token.decimals, "0") || "0")
+  );
+}
+
+// Base units as a decimal string without trailing zeros, e.g. 50000n, 6 -> "0.05"
+export function formatUnits(baseUnits: bigint, decimals: number): string {
+  const negative = baseUnits < 0n;
+  const digits = (negative ? -baseUnits : baseUnits).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+export function formatAmount(baseUnits: bigint, token: TokenConfig): string {
+  return `${formatUnits(baseUnits, token.decimals)} ${token.symbol}`;
+}
+
+// Rescale base units between decimal precisions, rounding down
+export function scaleUnits(baseUnits: bigint, fromDecimals: number, toDecimals: number): bigint {
+  return toDecimals >= fromDecimals
+    ? baseUnits * 10n ** BigInt(toDecimals - fromDecimals)
+    : baseUnits / 10n ** BigInt(fromDecimals - toDecimals);
+}
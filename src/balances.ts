@@ -0,0 +1,200 @@
+import { ethers } from "ethers";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { ACCOUNT_SIZE, getAssociatedTokenAddressSync, unpackAccount } from "@solana/spl-token";
+import { TokenConfig, findToken, getNetwork } from "./networks.js";
+import { formatAmount, formatUnits } from "./amounts.js";
+import { evmProvider, solanaConnection } from "./rpc.js";
+
+// Balances and payment preconditions read from the network's RPC, to catch
+// payments that would only fail at settlement: too little of the token, a
+// missing Solana token account or an EIP-3009 nonce already used.
+
+export interface TokenBalance {
+  symbol: string;
+  address: string;
+  amount: string;
+  formatted: string;
+  // Solana only: the owner's associated token account, and whether it exists
+  tokenAccount?: string;
+  tokenAccountExists?: boolean;
+}
+
+export interface WalletBalance {
+  network: string;
+  address: string;
+  native: { symbol: string; amount: string; formatted: string };
+  tokens: TokenBalance[];
+}
+
+export interface PreflightWarning {
+  code:
+    | "insufficient_balance"
+    | "insufficient_native_balance"
+    | "source_token_account_missing"
+    | "nonce_already_used"
+    | "authorization_state_unavailable";
+  message: string;
+}
+
+export interface PreflightResult {
+  ok: boolean;
+  warnings: PreflightWarning[];
+  balance: WalletBalance;
+}
+
+const ERC20_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+];
+
+// Base fee of the payment transaction (one signature), before priority fees
+const SOLANA_FEE_LAMPORTS = 5000n;
+
+function nativeBalance(network: string, amount: bigint) {
+  const { type, nativeSymbol } = getNetwork(network);
+  const symbol = nativeSymbol ?? (type === "svm" ? "SOL" : "ETH");
+  const decimals = type === "svm" ? 9 : 18;
+  return { symbol, amount: amount.toString(), formatted: `${formatUnits(amount, decimals)} ${symbol}` };
+}
+
+function tokenBalance(token: TokenConfig, amount: bigint): TokenBalance {
+  return {
+    symbol: token.symbol,
+    address: token.address,
+    amount: amount.toString(),
+    formatted: formatAmount(amount, token),
+  };
+}
+
+async function evmBalances(network: string, address: string, tokens: TokenConfig[]): Promise<WalletBalance> {
+  const provider = evmProvider(network);
+  try {
+    const [native, ...amounts] = await Promise.all([
+      provider.getBalance(address),
+      ...tokens.map((token) => new ethers.Contract(token.address, ERC20_ABI, provider).balanceOf(address)),
+    ]);
+    return {
+      network,
+      address,
+      native: nativeBalance(network, native),
+      tokens: tokens.map((token, i) => tokenBalance(token, amounts[i])),
+    };
+  } finally {
+    provider.destroy();
+  }
+}
+
+// The owner's associated token account for a mint, under the mint's own
+// token program (SPL Token or Token-2022)
+async function solanaTokenBalance(connection: Connection, owner: PublicKey, token: TokenConfig): Promise<TokenBalance> {
+  const mint = new PublicKey(token.address);
+  const mintAccount = await connection.getAccountInfo(mint);
+  if (!mintAccount) {
+    throw new Error(`Mint ${token.address} (${token.symbol}) does not exist on this network`);
+  }
+  const tokenAccount = getAssociatedTokenAddressSync(mint, owner, true, mintAccount.owner);
+  const account = await connection.getAccountInfo(tokenAccount);
+  const amount = account ? unpackAccount(tokenAccount, account, mintAccount.owner).amount : 0n;
+  return { ...tokenBalance(token, amount), tokenAccount: tokenAccount.toBase58(), tokenAccountExists: !!account };
+}
+
+async function solanaBalances(network: string, address: string, tokens: TokenConfig[]): Promise<WalletBalance> {
+  const connection = solanaConnection(network);
+  const owner = new PublicKey(address);
+  const [lamports, ...balances] = await Promise.all([
+    connection.getBalance(owner),
+    ...tokens.map((token) => solanaTokenBalance(connection, owner, token)),
+  ]);
+  return { network, address, native: nativeBalance(network, BigInt(lamports)), tokens: balances };
+}
+
+// Native and token balances of an address; tokens default to every token
+// registered for the network
+export async function getBalances(network: string, address: string, tokens?: TokenConfig[]): Promise<WalletBalance> {
+  const networkConfig = getNetwork(network);
+  const wanted = tokens ?? networkConfig.tokens;
+  return networkConfig.type === "svm"
+    ? solanaBalances(network, address, wanted)
+    : evmBalances(network, address, wanted);
+}
+
+function assetToken(network: string, paymentRequirements: any): TokenConfig {
+  // Unregistered assets are still checked; only the display needs a symbol and decimals
+  return findToken(network, paymentRequirements.asset) ?? {
+    symbol: paymentRequirements.asset,
+    address: paymentRequirements.asset,
+    decimals: 0,
+  };
+}
+
+// Check that paying the requirements from payer can settle. An EVM payment
+// also checks the nonce it is about to sign with.
+export async function preflightPayment(
+  network: string,
+  payer: string,
+  paymentRequirements: any,
+  nonce?: string
+): Promise<PreflightResult> {
+  const token = assetToken(network, paymentRequirements);
+  const amount = BigInt(paymentRequirements.maxAmountRequired);
+  const warnings: PreflightWarning[] = [];
+  const balance = await getBalances(network, payer, [token]);
+  const held = balance.tokens[0];
+
+  if (BigInt(held.amount) < amount) {
+    warnings.push({
+      code: "insufficient_balance",
+      message: `${payer} holds ${held.formatted}, the payment needs ${formatAmount(amount, token)}`,
+    });
+  }
+
+  if (getNetwork(network).type === "evm") {
+    if (nonce) {
+      const provider = evmProvider(network);
+      try {
+        const used = await new ethers.Contract(token.address, ERC20_ABI, provider).authorizationState(payer, nonce);
+        if (used) {
+          warnings.push({ code: "nonce_already_used", message: `Nonce ${nonce} was already used by ${payer}` });
+        }
+      } catch (error: any) {
+        warnings.push({
+          code: "authorization_state_unavailable",
+          message: `Could not read authorizationState from ${token.address}; it may not support EIP-3009 (${error.shortMessage ?? error.message})`,
+        });
+      } finally {
+        provider.destroy();
+      }
+    }
+    return { ok: warnings.length === 0, warnings, balance };
+  }
+
+  if (!held.tokenAccountExists) {
+    warnings.push({
+      code: "source_token_account_missing",
+      message: `${payer} has no ${token.symbol} token account (${held.tokenAccount})`,
+    });
+  }
+
+  // The payer funds payTo's token account when the payment has to create it,
+  // and pays the fee unless a facilitator fee payer covers it
+  const destination = (await getBalances(network, paymentRequirements.payTo, [token])).tokens[0];
+  const feePayer = paymentRequirements.extra?.feePayer;
+  const needs: string[] = [];
+  let lamports = 0n;
+  if (!feePayer || feePayer === payer) {
+    lamports += SOLANA_FEE_LAMPORTS;
+    needs.push("the transaction fee");
+  }
+  if (!destination.tokenAccountExists) {
+    // Token-2022 accounts with extensions are larger; this is the minimum
+    lamports += BigInt(await solanaConnection(network).getMinimumBalanceForRentExemption(ACCOUNT_SIZE));
+    needs.push(`creating payTo's ${token.symbol} token account ${destination.tokenAccount}`);
+  }
+  if (BigInt(balance.native.amount) < lamports) {
+    warnings.push({
+      code: "insufficient_native_balance",
+      message: `${payer} holds ${balance.native.formatted}, not enough for ${needs.join(" and ")}`,
+    });
+  }
+  return { ok: warnings.length === 0, warnings, balance };
+}
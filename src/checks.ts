@@ -0,0 +1,41 @@
+// Shared result shape for local (offline) payment verification.
+// Mirrors the facilitator's { isValid, invalidReason, payer } response and
+// adds one entry per check so every failure can be explained.
+
+export interface VerificationCheck {
+  check: string;
+  passed: boolean;
+  invalidReason?: string;
+  detail?: string;
+}
+
+export interface LocalVerifyResult {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+  checks: VerificationCheck[];
+}
+
+export function recordCheck(
+  checks: VerificationCheck[],
+  check: string,
+  passed: boolean,
+  invalidReason: string,
+  detail?: string
+) {
+  checks.push(passed ? { check, passed } : { check, passed, invalidReason, detail });
+}
+
+// invalidReason is the first failed check, as a facilitator would report it
+export function summarizeChecks(
+  checks: VerificationCheck[],
+  payer?: string
+): LocalVerifyResult {
+  const failed = checks.filter((c) => !c.passed);
+  return {
+    isValid: failed.length === 0,
+    ...(failed.length > 0 ? { invalidReason: failed[0].invalidReason } : {}),
+    ...(payer ? { payer } : {}),
+    checks,
+  };
+}
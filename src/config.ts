@@ -0,0 +1,45 @@
+import fs from "fs";
+import path from "path";
+
+// Optional JSON config file shared by every subsystem of the server.
+// Each subsystem reads its own top-level section (e.g. "facilitators").
+export const CONFIG_PATH =
+  process.env.X402_CONFIG || path.join(process.cwd(), "x402.config.json");
+
+export type X402Config = Record<string, any>;
+
+let cachedConfig: X402Config | undefined;
+
+export function loadConfig(): X402Config {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  if (!fs.existsSync(CONFIG_PATH)) {
+    if (process.env.X402_CONFIG) {
+      throw new Error(`Config file not found: ${CONFIG_PATH}`);
+    }
+    cachedConfig = {};
+    return cachedConfig;
+  }
+
+  try {
+    cachedConfig = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Invalid config file ${CONFIG_PATH}: ${error.message}`);
+  }
+  return cachedConfig!;
+}
+
+// Parse a JSON value from an environment variable, naming the variable on failure.
+export function readJsonEnv(name: string): any {
+  const raw = process.env[name];
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${name}: ${error.message}`);
+  }
+}
@@ -0,0 +1,59 @@
+import { getNetwork, resolveToken } from "./networks.js";
+import { formatAmount, formatUnits, isUsdToken, parseAmount, scaleUnits } from "./amounts.js";
+
+export interface CostEstimate {
+  network: string;
+  asset: string;
+  // Payment amount in base units and as token units
+  amount: string;
+  amountFormatted: string;
+  // Typical network fee in USD (micro-dollar precision)
+  gasFee: string;
+  // What the consumer pays in base units of the asset: the amount, plus the
+  // network fee when the consumer pays it and the asset is a USD token
+  totalCost: string;
+  totalCostFormatted: string;
+  whoPays: string;
+  settlementTime: string;
+}
+
+// Typical fees in micro-dollars
+const EVM_GAS_FEE = 1000n; // $0.001
+const AVALANCHE_GAS_FEE = 10000n; // $0.01
+const SOLANA_TX_FEE = 5n; // $0.000005
+const FEE_DECIMALS = 6;
+
+// Estimate what a payment costs the consumer. EVM gas is paid by the
+// facilitator; on Solana the consumer pays the transaction fee. The amount
+// may be base units or a human price (see parseAmount); the asset defaults
+// to the network's first token.
+export function estimateCost(network: string, amount: string, asset?: string): CostEstimate {
+  const networkConfig = getNetwork(network);
+  const token = resolveToken(network, asset);
+  const baseUnits = parseAmount(amount, token);
+
+  let gasFee, totalCost, whoPays;
+  if (networkConfig.type === "evm") {
+    gasFee = network === "avalanche" || network === "avalanche-fuji" ? AVALANCHE_GAS_FEE : EVM_GAS_FEE;
+    whoPays = "Facilitator pays gas";
+    totalCost = baseUnits;
+  } else {
+    gasFee = SOLANA_TX_FEE;
+    whoPays = "Consumer pays transaction fee";
+    totalCost = isUsdToken(token)
+      ? baseUnits + scaleUnits(gasFee, FEE_DECIMALS, token.decimals)
+      : baseUnits;
+  }
+
+  return {
+    network: networkConfig.name,
+    asset: token.symbol,
+    amount: baseUnits.toString(),
+    amountFormatted: formatAmount(baseUnits, token),
+    gasFee: formatUnits(gasFee, FEE_DECIMALS),
+    totalCost: totalCost.toString(),
+    totalCostFormatted: formatAmount(totalCost, token),
+    whoPays,
+    settlementTime: networkConfig.type === "evm" ? "~2 seconds" : "~400ms",
+  };
+}
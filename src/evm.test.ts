@@ -0,0 +1,130 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+import { ethers } from "ethers";
+
+// An empty config of our own, so a developer's x402.config.json in the
+// working directory cannot change the registry under test
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-evm-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { signEvmPayment, verifyEvmPaymentLocally } = await import("./evm.js");
+
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+function requirements(overrides: Record<string, any> = {}) {
+  return {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "10000",
+    resource: "https://api.example.com/premium",
+    payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+    asset: USDC,
+    extra: { name: "USDC", version: "2" },
+    ...overrides,
+  };
+}
+
+async function signed(overrides: Record<string, any> = {}) {
+  const signer = ethers.Wallet.createRandom();
+  const paymentRequirements = requirements(overrides);
+  const paymentPayload = await signEvmPayment(signer, "base-sepolia", paymentRequirements);
+  return { signer, paymentRequirements, paymentPayload };
+}
+
+const failed = (result: { checks: { check: string; passed: boolean }[] }) =>
+  result.checks.filter((c) => !c.passed).map((c) => c.check);
+
+test("a signed payment verifies and recovers the payer", async () => {
+  const { signer, paymentRequirements, paymentPayload } = await signed();
+  const result = verifyEvmPaymentLocally(paymentPayload, paymentRequirements);
+  assert.equal(result.isValid, true, JSON.stringify(result.checks));
+  assert.equal(result.payer, signer.address);
+});
+
+test("the registry's domain is used when extra has none", async () => {
+  const { paymentRequirements, paymentPayload } = await signed();
+  const result = verifyEvmPaymentLocally(paymentPayload, { ...paymentRequirements, extra: undefined });
+  assert.equal(result.isValid, true, JSON.stringify(result.checks));
+});
+
+test("a tampered authorization fails the signature check", async () => {
+  const { paymentRequirements, paymentPayload } = await signed();
+  paymentPayload.payload.authorization.value = "20000";
+  const result = verifyEvmPaymentLocally(paymentPayload, { ...paymentRequirements, maxAmountRequired: "20000" });
+  assert.equal(result.isValid, false);
+  assert.deepEqual(failed(result), ["signature"]);
+  assert.equal(result.invalidReason, "invalid_exact_evm_payload_signature");
+});
+
+test("a signature for another domain fails the signature check", async () => {
+  const { paymentRequirements, paymentPayload } = await signed();
+  const result = verifyEvmPaymentLocally(paymentPayload, {
+    ...paymentRequirements,
+    extra: { name: "USD Coin", version: "2" },
+  });
+  assert.deepEqual(failed(result), ["signature"]);
+});
+
+test("payment fields are checked against the requirements", async () => {
+  const { paymentRequirements, paymentPayload } = await signed();
+  const result = verifyEvmPaymentLocally(paymentPayload, {
+    ...paymentRequirements,
+    payTo: "0x0000000000000000000000000000000000000001",
+    maxAmountRequired: "10001",
+  });
+  assert.equal(result.invalidReason, "invalid_exact_evm_payload_recipient_mismatch");
+  assert.deepEqual(failed(result), ["to", "value"]);
+});
+
+test("an expired authorization is refused", async () => {
+  const { paymentRequirements, paymentPayload } = await signed();
+  const later = Number(paymentPayload.payload.authorization.validBefore);
+  const result = verifyEvmPaymentLocally(paymentPayload, paymentRequirements, later);
+  assert.deepEqual(failed(result), ["validBefore"]);
+});
+
+test("a payload for another network is refused", async () => {
+  const { paymentRequirements, paymentPayload } = await signed();
+  const result = verifyEvmPaymentLocally({ ...paymentPayload, network: "base" }, paymentRequirements);
+  assert.deepEqual(failed(result), ["network", "chainId"]);
+});
+
+test("an unknown token domain is reported as such, not as a bad signature", async () => {
+  const asset = "0x1111111111111111111111111111111111111111";
+  const { paymentPayload } = await signed();
+  const result = verifyEvmPaymentLocally(paymentPayload, requirements({ asset, extra: undefined }));
+  assert.equal(result.isValid, false);
+  assert.ok(failed(result).includes("domain"));
+  assert.ok(!failed(result).includes("signature"));
+  assert.match(result.checks.find((c) => c.check === "domain")!.detail!, /Unknown EIP-712 domain/);
+});
+
+test("a non-EVM or unknown network fails instead of throwing", async () => {
+  const { paymentPayload } = await signed();
+  for (const network of ["solana-devnet", "no-such-network"]) {
+    const result = verifyEvmPaymentLocally(paymentPayload, requirements({ network }));
+    assert.equal(result.isValid, false);
+    assert.equal(result.invalidReason, "invalid_network");
+  }
+});
+
+test("a payload without an authorization is invalid", () => {
+  const result = verifyEvmPaymentLocally({ x402Version: 1, payload: {} }, requirements());
+  assert.equal(result.invalidReason, "invalid_payload");
+});
+
+test("an unregistered token verifies with the domain from extra, as it signs", async () => {
+  const asset = "0x1111111111111111111111111111111111111111";
+  const { signer, paymentRequirements, paymentPayload } = await signed({ asset, extra: { name: "Test", version: "1" } });
+  const result = verifyEvmPaymentLocally(paymentPayload, paymentRequirements);
+  assert.equal(result.isValid, true, JSON.stringify(result.checks));
+  assert.equal(result.payer, signer.address);
+
+  const malformed = verifyEvmPaymentLocally(paymentPayload, { ...paymentRequirements, asset: "not-an-address" });
+  assert.ok(failed(malformed).includes("asset"));
+});
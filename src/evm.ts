@@ -0,0 +1,242 @@
+import { ethers } from "ethers";
+import { NETWORKS, findToken, getNetwork } from "./networks.js";
+import { LocalVerifyResult, VerificationCheck, recordCheck, summarizeChecks } from "./checks.js";
+
+// EIP-3009 TransferWithAuthorization, as signed by the payer
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+// EIP-712 domain of the asset's transferWithAuthorization. The server's
+// extra.name / extra.version take precedence over the token registry, since
+// the domain differs per token and deployment (e.g. "USDC" vs "USD Coin").
+export function resolveTransferDomain(network: string, paymentRequirements: any) {
+  const networkConfig = getNetwork(network);
+  const token = findToken(network, paymentRequirements.asset);
+  const name = paymentRequirements.extra?.name ?? token?.eip712?.name;
+  const version = paymentRequirements.extra?.version ?? token?.eip712?.version;
+  if (!name || !version) {
+    throw new Error(
+      `Unknown EIP-712 domain for asset ${paymentRequirements.asset} on ${network}: ` +
+        `set extra.name and extra.version in the requirements or register the token`
+    );
+  }
+  return {
+    name,
+    version,
+    chainId: networkConfig.chainId!,
+    verifyingContract: paymentRequirements.asset,
+  };
+}
+
+export function randomAuthorizationNonce(): string {
+  return ethers.hexlify(ethers.randomBytes(32));
+}
+
+// Sign an exact-scheme payment: an EIP-3009 transferWithAuthorization of
+// maxAmountRequired to payTo, valid for one hour
+export async function signEvmPayment(
+  signer: ethers.Wallet | ethers.HDNodeWallet,
+  network: string,
+  paymentRequirements: any,
+  nonce: string = randomAuthorizationNonce()
+) {
+  const domain = resolveTransferDomain(network, paymentRequirements);
+
+  const validAfter = 0;
+  const validBefore = Math.floor(Date.now() / 1000) + 3600;
+
+  const value = {
+    from: signer.address,
+    to: paymentRequirements.payTo,
+    value: paymentRequirements.maxAmountRequired,
+    validAfter,
+    validBefore,
+    nonce,
+  };
+
+  const signature = await signer.signTypedData(
+    domain,
+    TRANSFER_WITH_AUTHORIZATION_TYPES,
+    value
+  );
+
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: network,
+    payload: {
+      authorization: {
+        from: signer.address,
+        to: paymentRequirements.payTo,
+        value: paymentRequirements.maxAmountRequired,
+        validAfter: validAfter.toString(),
+        validBefore: validBefore.toString(),
+        nonce: nonce,
+      },
+      signature: signature,
+    },
+  };
+}
+
+function sameAddress(a: string, b: string): boolean {
+  try {
+    return ethers.getAddress(a) === ethers.getAddress(b);
+  } catch {
+    return false;
+  }
+}
+
+// Verify an exact-scheme EVM payment without contacting a facilitator.
+// Rebuilds the EIP-712 typed data from the requirements, recovers the signer,
+// and checks each authorization field. Every failed check contributes its own
+// reason code.
+export function verifyEvmPaymentLocally(
+  paymentPayload: any,
+  paymentRequirements: any,
+  now: number = Math.floor(Date.now() / 1000)
+): LocalVerifyResult {
+  const checks: VerificationCheck[] = [];
+  const record = recordCheck.bind(null, checks);
+
+  const authorization = paymentPayload?.payload?.authorization;
+  const signature = paymentPayload?.payload?.signature;
+  if (!authorization || typeof signature !== "string") {
+    record(
+      "payload",
+      false,
+      "invalid_payload",
+      "Expected payload.authorization and payload.signature"
+    );
+    return summarizeChecks(checks);
+  }
+
+  record(
+    "x402Version",
+    paymentPayload.x402Version === 1,
+    "invalid_x402_version",
+    `Unsupported x402Version ${paymentPayload.x402Version}`
+  );
+  record(
+    "scheme",
+    paymentPayload.scheme === "exact" && paymentRequirements.scheme === "exact",
+    "invalid_scheme",
+    `Payload scheme "${paymentPayload.scheme}", requirements scheme "${paymentRequirements.scheme}"`
+  );
+  record(
+    "network",
+    paymentPayload.network === paymentRequirements.network,
+    "invalid_network",
+    `Payload is for "${paymentPayload.network}", requirements are for "${paymentRequirements.network}"`
+  );
+
+  const networkConfig = NETWORKS[paymentRequirements.network];
+  if (networkConfig?.type !== "evm") {
+    record(
+      "networkType",
+      false,
+      "invalid_network",
+      `${paymentRequirements.network} is not an EVM network known here`
+    );
+    return summarizeChecks(checks, authorization.from);
+  }
+  const chainId = networkConfig.chainId!;
+  const payloadChainId = NETWORKS[paymentPayload.network]?.chainId;
+  record(
+    "chainId",
+    payloadChainId === chainId,
+    "invalid_exact_evm_payload_chain_id",
+    `Payload network has chain ID ${payloadChainId}, requirements expect ${chainId}`
+  );
+  // The token need not be registered: like signing, verification takes its
+  // EIP-712 domain from extra when given (see the domain check below)
+  const assetIsAddress =
+    typeof paymentRequirements.asset === "string" && ethers.isAddress(paymentRequirements.asset);
+  record(
+    "asset",
+    assetIsAddress &&
+      (!paymentPayload.payload.asset || sameAddress(paymentPayload.payload.asset, paymentRequirements.asset)),
+    "invalid_exact_evm_payload_asset_mismatch",
+    assetIsAddress
+      ? `Payload asset ${paymentPayload.payload.asset}, requirements asset ${paymentRequirements.asset}`
+      : `Asset ${paymentRequirements.asset} is not a token address`
+  );
+  record(
+    "to",
+    sameAddress(authorization.to, paymentRequirements.payTo),
+    "invalid_exact_evm_payload_recipient_mismatch",
+    `Authorization pays ${authorization.to}, requirements pay ${paymentRequirements.payTo}`
+  );
+
+  let valueOk = false;
+  try {
+    valueOk =
+      BigInt(authorization.value) >= BigInt(paymentRequirements.maxAmountRequired);
+  } catch {
+    valueOk = false;
+  }
+  record(
+    "value",
+    valueOk,
+    "invalid_exact_evm_payload_authorization_value",
+    `Authorization value ${authorization.value} is below maxAmountRequired ${paymentRequirements.maxAmountRequired}`
+  );
+  record(
+    "validAfter",
+    Number(authorization.validAfter) <= now,
+    "invalid_exact_evm_payload_authorization_valid_after",
+    `Authorization is not valid until ${authorization.validAfter} (now ${now})`
+  );
+  record(
+    "validBefore",
+    Number(authorization.validBefore) > now,
+    "invalid_exact_evm_payload_authorization_valid_before",
+    `Authorization expired at ${authorization.validBefore} (now ${now})`
+  );
+
+  // Without the token's EIP-712 domain the signature cannot be checked at all
+  let domain: ReturnType<typeof resolveTransferDomain> | undefined;
+  try {
+    domain = resolveTransferDomain(paymentRequirements.network, paymentRequirements);
+  } catch (error: any) {
+    record("domain", false, "invalid_exact_evm_payload_domain", error.message);
+  }
+
+  if (domain) {
+    let recovered: string | undefined;
+    try {
+      recovered = ethers.verifyTypedData(
+        domain,
+        TRANSFER_WITH_AUTHORIZATION_TYPES,
+        {
+          from: authorization.from,
+          to: authorization.to,
+          value: authorization.value,
+          validAfter: authorization.validAfter,
+          validBefore: authorization.validBefore,
+          nonce: authorization.nonce,
+        },
+        signature
+      );
+    } catch {
+      recovered = undefined;
+    }
+    record(
+      "signature",
+      recovered !== undefined && sameAddress(recovered, authorization.from),
+      "invalid_exact_evm_payload_signature",
+      recovered
+        ? `Signature recovers to ${recovered}, authorization.from is ${authorization.from}`
+        : "Signature could not be recovered"
+    );
+  }
+
+  return summarizeChecks(checks, authorization.from);
+}
@@ -0,0 +1,110 @@
+import { NETWORKS } from "./networks.js";
+import { FacilitatorResponse, requestFacilitator, unwrapFacilitatorData } from "./facilitators.js";
+import { LocalVerifyResult } from "./checks.js";
+import { verifyEvmPaymentLocally } from "./evm.js";
+import { verifySolanaPaymentLocally } from "./solana.js";
+import { ReplayCheck, checkReplay, rememberPayment, withReplayCheck } from "./replay.js";
+import { recordPaymentEvent } from "./ledger.js";
+
+// Merchant side of a payment: verify an X-PAYMENT payload against the
+// requirements, then settle it. Both record the outcome in the payment
+// ledger, and verification consults the replay registry.
+
+export interface VerifyOptions {
+  // "facilitator" (default) asks the facilitator's /verify; "local" checks
+  // signatures and payment fields offline
+  mode?: "facilitator" | "local";
+}
+
+// isValid and invalidReason are the verdict, replay included: a replayed
+// payment is invalid even when its signature and fields check out
+export type VerifyResult = {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+  // Set when this payment was already accepted here, which the facilitator
+  // cannot know before settlement
+  replay?: ReplayCheck;
+} & ({ verifiedBy: "local"; result: LocalVerifyResult } | { verifiedBy: "facilitator"; facilitator: FacilitatorResponse });
+
+export interface SettleResult {
+  success: boolean;
+  payer?: string;
+  transaction?: string;
+  facilitator: FacilitatorResponse;
+}
+
+export async function verifyPayment(
+  paymentPayload: any,
+  paymentRequirements: any,
+  options: VerifyOptions = {}
+): Promise<VerifyResult> {
+  // Looked up before verifying, remembered only once the payment is valid
+  const replay = checkReplay(paymentPayload, paymentRequirements);
+
+  if (options.mode === "local") {
+    const result = withReplayCheck(
+      NETWORKS[paymentRequirements.network]?.type === "svm"
+        ? verifySolanaPaymentLocally(paymentPayload, paymentRequirements)
+        : verifyEvmPaymentLocally(paymentPayload, paymentRequirements),
+      replay
+    );
+    if (result.isValid) {
+      rememberPayment(paymentPayload, paymentRequirements);
+    }
+    recordPaymentEvent(result.isValid ? "verified" : "verify_failed", paymentPayload, paymentRequirements, {
+      payer: result.payer,
+      facilitator: "local",
+      response: { isValid: result.isValid, invalidReason: result.invalidReason },
+    });
+    return {
+      verifiedBy: "local",
+      isValid: result.isValid,
+      ...(result.invalidReason ? { invalidReason: result.invalidReason } : {}),
+      payer: result.payer,
+      ...(replay?.invalidReason ? { replay } : {}),
+      result,
+    };
+  }
+
+  const facilitator = await requestFacilitator("post", "/verify", { paymentPayload, paymentRequirements });
+  const verification = unwrapFacilitatorData(facilitator.data);
+  const isValid = Boolean(verification?.isValid) && !replay?.invalidReason;
+  const invalidReason = replay?.invalidReason ?? (isValid ? undefined : verification?.invalidReason);
+  if (isValid) {
+    rememberPayment(paymentPayload, paymentRequirements);
+  }
+  recordPaymentEvent(isValid ? "verified" : "verify_failed", paymentPayload, paymentRequirements, {
+    payer: verification?.payer,
+    facilitator: facilitator.facilitator.id,
+    response: replay?.invalidReason ? { ...facilitator.data, replay } : facilitator.data,
+  });
+  return {
+    verifiedBy: "facilitator",
+    isValid,
+    ...(invalidReason ? { invalidReason } : {}),
+    payer: verification?.payer,
+    ...(replay?.invalidReason ? { replay } : {}),
+    facilitator,
+  };
+}
+
+// Settle with the first healthy facilitator only: a timed-out /settle may
+// still have been broadcast, so it never fails over
+export async function settlePayment(paymentPayload: any, paymentRequirements: any): Promise<SettleResult> {
+  const facilitator = await requestFacilitator(
+    "post",
+    "/settle",
+    { paymentPayload, paymentRequirements },
+    { failover: false }
+  );
+  const settlement = unwrapFacilitatorData(facilitator.data);
+  const transaction = settlement?.transaction ?? settlement?.txHash;
+  recordPaymentEvent(settlement?.success ? "settled" : "settle_failed", paymentPayload, paymentRequirements, {
+    payer: settlement?.payer,
+    transaction,
+    facilitator: facilitator.facilitator.id,
+    response: facilitator.data,
+  });
+  return { success: Boolean(settlement?.success), payer: settlement?.payer, transaction, facilitator };
+}
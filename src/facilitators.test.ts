@@ -0,0 +1,126 @@
+import assert from "assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { after, before, beforeEach, mock, test } from "node:test";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-facilitators-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+process.env.X402_PAYMENT_LEDGER = path.join(dir, "payments.jsonl");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+
+// Two facilitators behind one stub, /primary and /backup. Each answers with
+// its behaviour's status, or drops the connection for "reset".
+type Behaviour = number | "reset";
+const behaviour: Record<string, Behaviour> = {};
+const hits: string[] = [];
+
+const stub = http.createServer((request, response) => {
+  const facilitator = request.url!.split("/")[1];
+  hits.push(facilitator);
+  const answer = behaviour[facilitator];
+  if (answer === "reset") {
+    request.socket.destroy();
+    return;
+  }
+  response.writeHead(answer, { "Content-Type": "application/json" });
+  response.end(JSON.stringify({ facilitator, isValid: answer === 200, success: answer === 200 }));
+});
+
+// Cooldowns are measured with Date.now, which the tests move forward
+let now = Date.now();
+mock.method(Date, "now", () => now);
+
+before(async () => {
+  await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(stub.address() as { port: number }).port}`;
+  process.env.X402_FACILITATORS = JSON.stringify([
+    { id: "primary", url: `${base}/primary` },
+    { id: "backup", url: `${base}/backup` },
+  ]);
+});
+
+// Every test starts with both facilitators healthy and answering
+beforeEach(() => {
+  now += 60_000;
+  hits.length = 0;
+  behaviour.primary = 200;
+  behaviour.backup = 200;
+});
+
+after(async () => {
+  mock.restoreAll();
+  await new Promise((resolve) => stub.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const { requestFacilitator } = await import("./facilitators.js");
+const { settlePayment } = await import("./facilitation.js");
+
+test("5xx, 429 and network errors move on to the next facilitator", async () => {
+  for (const [failure, error] of [
+    [503, "HTTP 503"],
+    [429, "HTTP 429"],
+    ["reset", "ECONNRESET"],
+  ] as const) {
+    now += 60_000;
+    hits.length = 0;
+    behaviour.primary = failure;
+    const result = await requestFacilitator("post", "/verify", {});
+    assert.equal(result.facilitator.id, "backup");
+    assert.equal(result.data.facilitator, "backup");
+    assert.equal(result.failedAttempts.length, 1);
+    assert.equal(result.failedAttempts[0].facilitator, "primary");
+    assert.match(result.failedAttempts[0].error, new RegExp(error));
+    assert.deepEqual(hits, ["primary", "backup"]);
+  }
+});
+
+test("a 4xx validation error is the answer, not a reason to fail over", async () => {
+  behaviour.primary = 400;
+  const result = await requestFacilitator("post", "/verify", {});
+  assert.equal(result.facilitator.id, "primary");
+  assert.equal(result.data.isValid, false);
+  assert.deepEqual(result.failedAttempts, []);
+  assert.deepEqual(hits, ["primary"]);
+});
+
+test("a failed facilitator is tried last for 30 seconds", async () => {
+  behaviour.primary = 503;
+  await requestFacilitator("post", "/verify", {});
+
+  behaviour.primary = 200;
+  hits.length = 0;
+  now += 29_000;
+  assert.equal((await requestFacilitator("post", "/verify", {})).facilitator.id, "backup");
+  assert.deepEqual(hits, ["backup"]);
+
+  // Still a last resort while cooling down
+  behaviour.backup = 503;
+  hits.length = 0;
+  assert.equal((await requestFacilitator("post", "/verify", {})).facilitator.id, "primary");
+  assert.deepEqual(hits, ["backup", "primary"]);
+
+  behaviour.backup = 200;
+  await requestFacilitator("post", "/verify", {});
+  now += 30_000;
+  hits.length = 0;
+  assert.equal((await requestFacilitator("post", "/verify", {})).facilitator.id, "primary");
+  assert.deepEqual(hits, ["primary"]);
+});
+
+test("settlement never fails over", async () => {
+  behaviour.primary = 503;
+  await assert.rejects(
+    settlePayment({ x402Version: 1, network: "base-sepolia", payload: {} }, { network: "base-sepolia" }),
+    /All facilitators failed for \/settle: primary \(HTTP 503\)/
+  );
+  assert.deepEqual(hits, ["primary"]);
+
+  behaviour.primary = "reset";
+  hits.length = 0;
+  now += 60_000;
+  await assert.rejects(requestFacilitator("post", "/settle", {}, { failover: false }), /ECONNRESET/);
+  assert.deepEqual(hits, ["primary"]);
+});
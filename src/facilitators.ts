@@ -0,0 +1,173 @@
+import axios from "axios";
+import { loadConfig, readJsonEnv } from "./config.js";
+
+export interface FacilitatorConfig {
+  id: string;
+  url: string;
+  // Value sent in the auth header, e.g. "Bearer <token>"
+  authHeader?: string;
+  // Environment variable holding the auth header value (keeps secrets out of config files)
+  authHeaderEnv?: string;
+  // Header name for authHeader, defaults to "Authorization"
+  authHeaderName?: string;
+  timeoutMs?: number;
+}
+
+export interface FailedAttempt {
+  facilitator: string;
+  error: string;
+}
+
+export interface FacilitatorResponse {
+  facilitator: FacilitatorConfig;
+  data: any;
+  failedAttempts: FailedAttempt[];
+}
+
+export const DEFAULT_FACILITATOR_URL = "https://facilitator.octox402.xyz";
+const DEFAULT_TIMEOUT_MS = 10000;
+// How long a facilitator is skipped after a failed call
+const UNHEALTHY_COOLDOWN_MS = 30000;
+
+// Facilitator id -> timestamp until which it is considered unhealthy
+const unhealthyUntil = new Map<string, number>();
+
+let registry: FacilitatorConfig[] | undefined;
+
+// Load facilitators in priority order. Sources, first match wins:
+// X402_FACILITATORS (JSON array), the config file's "facilitators" section,
+// X402_FACILITATOR_URL (single facilitator), then the Octo production facilitator.
+export function getFacilitators(): FacilitatorConfig[] {
+  if (registry) {
+    return registry;
+  }
+
+  let entries = readJsonEnv("X402_FACILITATORS") ?? loadConfig().facilitators;
+  if (!entries && process.env.X402_FACILITATOR_URL) {
+    entries = [{ id: "env", url: process.env.X402_FACILITATOR_URL }];
+  }
+  if (!entries) {
+    entries = [{ id: "octo", url: DEFAULT_FACILITATOR_URL }];
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("Facilitator configuration must be a non-empty array");
+  }
+
+  registry = entries.map((entry: any, index: number) => {
+    if (!entry || typeof entry.url !== "string") {
+      throw new Error(`Facilitator #${index + 1} is missing a url`);
+    }
+    return {
+      ...entry,
+      id: entry.id || `facilitator-${index + 1}`,
+      url: entry.url.replace(/\/+$/, ""),
+    };
+  });
+  return registry!;
+}
+
+export function getPrimaryFacilitator(): FacilitatorConfig {
+  return getFacilitators()[0];
+}
+
+export function isHealthy(facilitator: FacilitatorConfig): boolean {
+  return (unhealthyUntil.get(facilitator.id) ?? 0) <= Date.now();
+}
+
+// Healthy facilitators first, in configured order; unhealthy ones are kept
+// at the end as a last resort rather than failing outright.
+function failoverOrder(): FacilitatorConfig[] {
+  const facilitators = getFacilitators();
+  return [
+    ...facilitators.filter(isHealthy),
+    ...facilitators.filter((f) => !isHealthy(f)),
+  ];
+}
+
+function buildHeaders(facilitator: FacilitatorConfig): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const auth =
+    facilitator.authHeader ??
+    (facilitator.authHeaderEnv ? process.env[facilitator.authHeaderEnv] : undefined);
+  if (auth) {
+    headers[facilitator.authHeaderName || "Authorization"] = auth;
+  }
+  return headers;
+}
+
+// Facilitators answer with the result or wrap it as { success, data }
+export function unwrapFacilitatorData(data: any): any {
+  return data?.success && data.data !== undefined ? data.data : data;
+}
+
+// HTTP statuses that point at the facilitator itself rather than the request
+const FAILOVER_STATUSES = [401, 403, 404, 408, 429];
+
+// Network errors, timeouts, 5xx and auth/availability errors move on to the
+// next facilitator. Other 4xx responses are answers (e.g. an invalid payment)
+// and are returned as-is.
+function shouldFailover(error: any): boolean {
+  if (!error.response) {
+    return true;
+  }
+  const { status } = error.response;
+  return status >= 500 || FAILOVER_STATUSES.includes(status);
+}
+
+function describeError(error: any): string {
+  if (error.response) {
+    return `HTTP ${error.response.status}`;
+  }
+  return error.code ? `${error.code}: ${error.message}` : error.message;
+}
+
+// One call to one facilitator, with its auth header and timeout
+export async function callFacilitator(
+  facilitator: FacilitatorConfig,
+  method: "get" | "post",
+  path: string,
+  body?: any
+) {
+  return axios.request({
+    method,
+    url: `${facilitator.url}${path}`,
+    data: body,
+    headers: buildHeaders(facilitator),
+    timeout: facilitator.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  });
+}
+
+// Call a facilitator endpoint. With failover enabled, failed calls move on to
+// the next facilitator; otherwise only the first healthy one is tried. Settlement
+// must not fail over, since a timed-out /settle may still have been broadcast.
+export async function requestFacilitator(
+  method: "get" | "post",
+  path: string,
+  body?: any,
+  { failover = true }: { failover?: boolean } = {}
+): Promise<FacilitatorResponse> {
+  const candidates = failover ? failoverOrder() : failoverOrder().slice(0, 1);
+  const failedAttempts: FailedAttempt[] = [];
+
+  for (const facilitator of candidates) {
+    try {
+      const response = await callFacilitator(facilitator, method, path, body);
+      unhealthyUntil.delete(facilitator.id);
+      return { facilitator, data: response.data, failedAttempts };
+    } catch (error: any) {
+      if (!shouldFailover(error)) {
+        return { facilitator, data: error.response.data, failedAttempts };
+      }
+      unhealthyUntil.set(facilitator.id, Date.now() + UNHEALTHY_COOLDOWN_MS);
+      failedAttempts.push({
+        facilitator: facilitator.id,
+        error: describeError(error),
+      });
+    }
+  }
+
+  const summary = failedAttempts
+    .map((attempt) => `${attempt.facilitator} (${attempt.error})`)
+    .join(", ");
+  throw new Error(`All facilitators failed for ${path}: ${summary}`);
+}
@@ -0,0 +1,108 @@
+import assert from "assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import { ethers } from "ethers";
+
+// A wallet and a policy of our own, with both ledgers in a scratch directory
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-fetch-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+process.env.X402_SPEND_LEDGER = path.join(dir, "spending.jsonl");
+process.env.X402_PAYMENT_LEDGER = path.join(dir, "payments.jsonl");
+process.env.X402_TEST_KEY = ethers.Wallet.createRandom().privateKey;
+fs.writeFileSync(
+  process.env.X402_CONFIG,
+  JSON.stringify({
+    wallets: [{ alias: "main", type: "evm", privateKeyEnv: "X402_TEST_KEY" }],
+    policy: { allowResources: ["http://127.0.0.1:*/paid/*"] },
+  })
+);
+
+const { fetchWithPayment } = await import("./fetch.js");
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64");
+
+// /paid/<behaviour> answers 402 until it gets an X-PAYMENT header. Each
+// behaviour is what the merchant does next; "lying" claims another resource.
+let base = "";
+const merchant = http.createServer((request, response) => {
+  const url = new URL(request.url!, base);
+  const behaviour = url.pathname.split("/").pop();
+  if (!request.headers["x-payment"] || behaviour === "rejects") {
+    const resource = behaviour === "lying" ? `${base}/paid/ok` : `${base}${url.pathname}`;
+    response.writeHead(402, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({
+        x402Version: 1,
+        accepts: [
+          {
+            scheme: "exact",
+            network: "base-sepolia",
+            maxAmountRequired: "10000",
+            resource,
+            description: "Test resource",
+            mimeType: "application/json",
+            payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+            maxTimeoutSeconds: 60,
+            asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+            extra: { name: "USDC", version: "2" },
+          },
+        ],
+      })
+    );
+    return;
+  }
+  response.writeHead(200, {
+    "Content-Type": "application/json",
+    "X-PAYMENT-RESPONSE": behaviour === "garbled" ? "not-base64-json" : encode({ success: true, transaction: "0xabc" }),
+  });
+  response.end(JSON.stringify({ content: "premium" }));
+});
+
+before(async () => {
+  await new Promise<void>((resolve) => merchant.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(merchant.address() as { port: number }).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => merchant.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("a served payment is paid", async () => {
+  const result: any = await fetchWithPayment({ url: `${base}/paid/ok` });
+  assert.equal(result.paid, true);
+  assert.equal(result.status, 200);
+  assert.deepEqual(result.paymentResponse, { success: true, transaction: "0xabc" });
+});
+
+test("a payment the merchant rejects is not reported as paid", async () => {
+  const result: any = await fetchWithPayment({ url: `${base}/paid/rejects` });
+  assert.equal(result.paid, false);
+  assert.equal(result.paymentSent, true);
+  assert.equal(result.status, 402);
+});
+
+test("a malformed X-PAYMENT-RESPONSE is returned raw", async () => {
+  const result: any = await fetchWithPayment({ url: `${base}/paid/garbled` });
+  assert.equal(result.paid, true);
+  assert.equal(result.paymentResponseHeader, "not-base64-json");
+  assert.equal(result.consumerAddress, new ethers.Wallet(process.env.X402_TEST_KEY!).address);
+});
+
+test("requirements claiming another resource are refused", async () => {
+  const result: any = await fetchWithPayment({ url: `${base}/paid/lying` });
+  assert.equal(result.refused, true);
+  assert.equal(result.rule, "resourceMismatch");
+
+  const dryRun: any = await fetchWithPayment({ url: `${base}/paid/lying`, dryRun: true });
+  assert.equal(dryRun.policy.rule, "resourceMismatch");
+});
+
+test("resource lists are checked against the requested URL", async () => {
+  const result: any = await fetchWithPayment({ url: `${base}/free/ok` });
+  assert.equal(result.refused, true);
+  assert.equal(result.rule, "allowResources");
+});
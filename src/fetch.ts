@@ -0,0 +1,176 @@
+import axios, { AxiosResponse } from "axios";
+import { getWalletAddress } from "./wallets.js";
+import { checkClaimedResource, checkSpendingPolicy } from "./policy.js";
+import { createPayment, decodePaymentHeader } from "./payments.js";
+import { parsePaymentRequired, selectPaymentRequirements } from "./requirements.js";
+import { recordPaymentEvent } from "./ledger.js";
+
+export interface FetchOptions {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | object;
+  // Wallet alias to pay with (default: first wallet that can pay on the chosen network)
+  wallet?: string;
+  // Network IDs in order of preference when the server accepts several
+  preferredNetworks?: string[];
+  // Stop after showing what would be paid
+  dryRun?: boolean;
+}
+
+// Response bodies longer than this are cut off in tool results
+const MAX_BODY_CHARS = 50000;
+
+function describeResponse(response: AxiosResponse) {
+  let body: any = response.data;
+  const contentType = String(response.headers["content-type"] || "");
+  if (contentType.includes("json")) {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Leave malformed JSON as text
+    }
+  } else if (typeof body === "string" && body.length > MAX_BODY_CHARS) {
+    body = `${body.slice(0, MAX_BODY_CHARS)}... [truncated ${body.length - MAX_BODY_CHARS} chars]`;
+  }
+
+  return {
+    status: response.status,
+    headers: response.headers,
+    body,
+  };
+}
+
+// Request a URL, paying for it if the server answers 402: select the best
+// payment option a configured wallet can pay, sign (subject to the spending
+// policy), then retry with X-PAYMENT and decode the X-PAYMENT-RESPONSE header.
+export async function fetchWithPayment(options: FetchOptions) {
+  const { url, method = "GET", body, dryRun } = options;
+  const headers: Record<string, string> = { ...options.headers };
+  if (body !== undefined && typeof body !== "string" && !headers["Content-Type"]) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  const send = (extraHeaders: Record<string, string> = {}) =>
+    axios.request({
+      url,
+      method,
+      headers: { ...headers, ...extraHeaders },
+      data: typeof body === "string" ? body : body && JSON.stringify(body),
+      responseType: "text",
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+    });
+
+  const initial = await send();
+  if (initial.status !== 402) {
+    return { paid: false, ...describeResponse(initial) };
+  }
+
+  const paymentRequired = parsePaymentRequired(initial.data);
+  const selection = selectPaymentRequirements(paymentRequired.accepts, {
+    wallet: options.wallet,
+    preferredNetworks: options.preferredNetworks,
+  });
+  if (!selection.selected) {
+    return {
+      paid: false,
+      status: initial.status,
+      reason: "None of the offered payment options can be paid",
+      paymentRequired,
+      selection: selection.options,
+    };
+  }
+
+  const paymentRequirements = selection.selected;
+  const { network } = paymentRequirements;
+  const wallet = selection.wallet!;
+
+  if (dryRun) {
+    const claimed = checkClaimedResource(url, paymentRequirements.resource);
+    return {
+      dryRun: true,
+      status: initial.status,
+      paymentRequirements,
+      selection: selection.options,
+      wouldPay: {
+        wallet,
+        payer: await getWalletAddress(wallet),
+        network,
+        payTo: paymentRequirements.payTo,
+        asset: paymentRequirements.asset,
+        amount: paymentRequirements.maxAmountRequired,
+      },
+      policy: claimed.allowed
+        ? checkSpendingPolicy({
+            wallet,
+            network,
+            asset: paymentRequirements.asset,
+            payTo: paymentRequirements.payTo,
+            resource: url,
+            amount: paymentRequirements.maxAmountRequired,
+          })
+        : claimed,
+    };
+  }
+
+  // The policy sees the URL we request, not the resource the merchant claims
+  const payment = await createPayment(network, wallet, paymentRequirements, { resource: url });
+  if (payment.refused) {
+    return {
+      paid: false,
+      refused: true,
+      rule: payment.rule,
+      reason: payment.reason,
+      paymentRequirements,
+    };
+  }
+
+  const paid = await send({ "X-PAYMENT": payment.paymentHeader });
+  const paymentResponseHeader = paid.headers["x-payment-response"];
+  let paymentResponse: any;
+  if (paymentResponseHeader) {
+    try {
+      paymentResponse = decodePaymentHeader(String(paymentResponseHeader));
+    } catch {
+      // Keep the payment's details; the raw header is returned below
+    }
+  }
+
+  // The merchant settles; its answer is all we learn about the payment
+  if (paymentResponse) {
+    recordPaymentEvent(
+      paymentResponse.success === false ? "settle_failed" : "settled",
+      payment.paymentPayload,
+      paymentRequirements,
+      {
+        transaction: paymentResponse.transaction,
+        facilitator: "merchant",
+        response: paymentResponse,
+      }
+    );
+  } else if (paid.status >= 400) {
+    recordPaymentEvent("rejected", payment.paymentPayload, paymentRequirements, {
+      facilitator: "merchant",
+      response: { status: paid.status },
+    });
+  }
+
+  // A signed payment was handed over either way, but only counts as paid if
+  // the merchant served the resource and did not report a failed settlement
+  return {
+    paid: paid.status < 400 && paymentResponse?.success !== false,
+    paymentSent: true,
+    wallet: payment.wallet,
+    consumerAddress: payment.consumerAddress,
+    paymentRequirements,
+    ...describeResponse(paid),
+    ...(paymentResponse ? { paymentResponse } : {}),
+    ...(paymentResponseHeader && !paymentResponse
+      ? {
+          paymentResponseHeader: String(paymentResponseHeader),
+          paymentResponseError: "X-PAYMENT-RESPONSE could not be decoded",
+        }
+      : {}),
+  };
+}
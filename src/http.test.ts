@@ -0,0 +1,41 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+import { resolveOutputPath } from "./http.js";
+
+const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "x402-http-test-")));
+const outputDir = path.join(dir, "exports");
+fs.mkdirSync(outputDir);
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const session = { client: "ci-agent", outputDir };
+
+test("remote clients cannot write files without an output directory", () => {
+  assert.throws(() => resolveOutputPath({ client: "ci-agent" }, path.join(outputDir, "a.csv")), /disabled for HTTP clients/);
+});
+
+test("paths inside the output directory are allowed, even if missing", () => {
+  assert.equal(resolveOutputPath(session, path.join(outputDir, "a.csv")), path.join(outputDir, "a.csv"));
+  assert.equal(resolveOutputPath(session, path.join(outputDir, "new", "project")), path.join(outputDir, "new", "project"));
+});
+
+test("paths outside the output directory are refused", () => {
+  for (const file of [
+    path.join(dir, "x402.config.json"),
+    path.join(outputDir, "..", "x402.config.json"),
+    path.join(`${outputDir}-other`, "a.csv"),
+    "/etc/passwd",
+  ]) {
+    assert.throws(() => resolveOutputPath(session, file), /outside the HTTP output directory/, file);
+  }
+});
+
+test("symlinks out of the output directory are refused", () => {
+  fs.symlinkSync(dir, path.join(outputDir, "escape"));
+  assert.throws(
+    () => resolveOutputPath(session, path.join(outputDir, "escape", "x402.config.json")),
+    /outside the HTTP output directory/
+  );
+});
@@ -0,0 +1,263 @@
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import path from "path";
+import { TLSSocket } from "tls";
+import { parseArgs } from "util";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { CONFIG_PATH, loadConfig } from "./config.js";
+
+// Shared MCP server over HTTP, so one instance with its wallets, spending
+// policy and ledger can serve several agents and IDEs. A client opens an SSE
+// stream with GET /sse and posts its messages to /messages?sessionId=...;
+// every stream is a session with its own MCP server, bound to the client
+// that opened it.
+
+export interface HttpClientConfig {
+  // Shown in logs; sessions belong to the client that opened them
+  name: string;
+  // Environment variable holding the client's bearer token
+  tokenEnv: string;
+}
+
+export interface HttpServerConfig {
+  host?: string;
+  port?: number;
+  clients?: HttpClientConfig[];
+  // Serve HTTPS. With ca, clients must present a certificate it signed
+  // (mTLS) and are named by its common name.
+  tls?: { cert: string; key: string; ca?: string };
+  // The only directory tools may write files to (exports, scaffolded
+  // projects). Without it, remote clients cannot write files at all.
+  outputDir?: string;
+}
+
+// What a session's MCP server knows about its client
+export interface HttpSessionContext {
+  client: string;
+  outputDir?: string;
+}
+
+export interface HttpServer {
+  url: string;
+  server: http.Server;
+  sessions: Map<string, HttpSession>;
+  close: () => Promise<void>;
+}
+
+export interface HttpSession {
+  client: string;
+  openedAt: string;
+  transport: SSEServerTransport;
+}
+
+const DEFAULT_PORT = 3402;
+const DEFAULT_HOST = "127.0.0.1";
+
+// Relative paths are resolved against the config file's directory
+function configPath(file: string): string {
+  return path.resolve(path.dirname(CONFIG_PATH), file);
+}
+
+function readConfigFile(file: string): Buffer {
+  return fs.readFileSync(configPath(file));
+}
+
+// Real path of a file that may not exist yet: its deepest existing ancestor
+// with symlinks resolved, followed by the rest of the path
+function realPathOf(file: string): string {
+  const missing: string[] = [];
+  let existing = path.resolve(file);
+  while (!fs.existsSync(existing)) {
+    missing.unshift(path.basename(existing));
+    existing = path.dirname(existing);
+  }
+  return path.join(fs.realpathSync(existing), ...missing);
+}
+
+// Check a path a remote client asked a tool to write to. It must resolve,
+// symlinks included, inside the session's output directory.
+export function resolveOutputPath(context: HttpSessionContext, file: string): string {
+  if (!context.outputDir) {
+    throw new Error(
+      "Writing files is disabled for HTTP clients: set http.outputDir in x402.config.json to allow it inside one directory"
+    );
+  }
+  const root = realPathOf(context.outputDir);
+  const target = realPathOf(file);
+  const relative = path.relative(root, target);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`${file} is outside the HTTP output directory ${context.outputDir}`);
+  }
+  return target;
+}
+
+// Bearer tokens by SHA-256 digest, so lookups compare fixed-length values
+function loadTokens(config: HttpServerConfig): Map<string, string> {
+  const clients = [...(config.clients ?? [])];
+  if (process.env.X402_HTTP_TOKEN) {
+    clients.push({ name: "default", tokenEnv: "X402_HTTP_TOKEN" });
+  }
+
+  const tokens = new Map<string, string>();
+  for (const [index, client] of clients.entries()) {
+    if (!client?.name || !client.tokenEnv) {
+      throw new Error(`http.clients #${index + 1} needs a name and a tokenEnv`);
+    }
+    const token = process.env[client.tokenEnv];
+    if (!token) {
+      throw new Error(`Token for HTTP client "${client.name}" is missing: set ${client.tokenEnv}`);
+    }
+    tokens.set(crypto.createHash("sha256").update(token).digest("hex"), client.name);
+  }
+  return tokens;
+}
+
+function matchToken(tokens: Map<string, string>, token: string): string | undefined {
+  const digest = crypto.createHash("sha256").update(token).digest();
+  for (const [known, client] of tokens) {
+    if (crypto.timingSafeEqual(digest, Buffer.from(known, "hex"))) {
+      return client;
+    }
+  }
+  return undefined;
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: object, headers: object = {}) {
+  response.writeHead(status, { "Content-Type": "application/json", ...headers });
+  response.end(JSON.stringify(body));
+}
+
+export async function startHttpServer(
+  createServer: (context: HttpSessionContext) => Server,
+  config: HttpServerConfig = {}
+): Promise<HttpServer> {
+  const tokens = loadTokens(config);
+  const mutualTls = Boolean(config.tls?.ca);
+  if (tokens.size === 0 && !mutualTls) {
+    throw new Error(
+      "HTTP mode needs authentication: set X402_HTTP_TOKEN, list http.clients in x402.config.json or set http.tls.ca for mTLS"
+    );
+  }
+  const sessions = new Map<string, HttpSession>();
+  const outputDir = config.outputDir ? configPath(config.outputDir) : undefined;
+
+  // The client a request comes from: a bearer token if one is sent, else the
+  // verified client certificate
+  function authenticate(request: http.IncomingMessage): string | undefined {
+    const authorization = request.headers.authorization;
+    if (authorization) {
+      const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+      return match ? matchToken(tokens, match[1]) : undefined;
+    }
+    const socket = request.socket as TLSSocket;
+    if (mutualTls && socket.authorized) {
+      const subject = socket.getPeerCertificate().subject;
+      return `cert:${subject?.CN ?? "unnamed"}`;
+    }
+    return undefined;
+  }
+
+  async function handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const route = `${request.method} ${url.pathname.replace(/\/+$/, "")}`;
+
+    if (route === "GET /health") {
+      return sendJson(response, 200, { status: "ok", sessions: sessions.size });
+    }
+    if (route !== "GET /sse" && route !== "POST /messages") {
+      return sendJson(response, 404, { error: `No route for ${request.method} ${url.pathname}` });
+    }
+
+    const client = authenticate(request);
+    if (!client) {
+      return sendJson(response, 401, { error: "Unauthorized" }, { "WWW-Authenticate": "Bearer" });
+    }
+
+    if (route === "GET /sse") {
+      const transport = new SSEServerTransport("/messages", response);
+      const server = createServer({ client, outputDir });
+      sessions.set(transport.sessionId, { client, openedAt: new Date().toISOString(), transport });
+      server.onclose = () => {
+        sessions.delete(transport.sessionId);
+        console.error(`Session ${transport.sessionId} of ${client} closed`);
+      };
+      await server.connect(transport);
+      console.error(`Session ${transport.sessionId} opened by ${client}`);
+      return;
+    }
+
+    // Another client's session looks the same as a missing one
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session || session.client !== client) {
+      return sendJson(response, 404, { error: "Unknown session" });
+    }
+    try {
+      await session.transport.handlePostMessage(request, response);
+    } catch {
+      // The transport has already answered with the error
+    }
+  }
+
+  const server = config.tls
+    ? https.createServer({
+        cert: readConfigFile(config.tls.cert),
+        key: readConfigFile(config.tls.key),
+        ...(config.tls.ca ? { ca: readConfigFile(config.tls.ca), requestCert: true, rejectUnauthorized: true } : {}),
+      })
+    : http.createServer();
+  server.on("request", (request, response) => {
+    handle(request, response).catch((error) => {
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: error.message });
+      }
+    });
+  });
+
+  const host = config.host ?? DEFAULT_HOST;
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.port ?? DEFAULT_PORT, host, () => {
+      const address = server.address() as { port: number };
+      resolve({
+        url: `${config.tls ? "https" : "http"}://${host}:${address.port}`,
+        server,
+        sessions,
+        close: async () => {
+          await Promise.all([...sessions.values()].map((session) => session.transport.close()));
+          await new Promise<void>((done) => server.close(() => done()));
+        },
+      });
+    });
+  });
+}
+
+// octo-x402-mcp --http [--host 127.0.0.1] [--port 3402]; the rest of the
+// settings come from the "http" section of x402.config.json
+export async function runHttpServer(args: string[], createServer: (context: HttpSessionContext) => Server) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      http: { type: "boolean" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+  });
+
+  const port = values.port === undefined ? undefined : Number(values.port);
+  if (port !== undefined && (!Number.isInteger(port) || port < 0)) {
+    throw new Error("--port must be a port number");
+  }
+
+  const config: HttpServerConfig = { ...loadConfig().http };
+  config.host = values.host ?? config.host;
+  config.port = port ?? config.port;
+
+  const server = await startHttpServer(createServer, config);
+  console.error(`Octo x402 MCP Server listening on ${server.url} (SSE stream at /sse, health at /health)`);
+  if (!config.tls && !["127.0.0.1", "localhost", "::1"].includes(config.host ?? DEFAULT_HOST)) {
+    console.error("Warning: bearer tokens are sent in clear text; set http.tls or put the server behind TLS");
+  }
+}
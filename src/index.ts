@@ -1,474 +1,410 @@
 #!/usr/bin/env node
 
+import fs from "fs";
+import path from "path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { z } from "zod";
-import axios from "axios";
-import { ethers } from "ethers";
 import {
-  Keypair,
-  PublicKey,
-  Connection,
-  TransactionMessage,
-  VersionedTransaction,
-} from "@solana/web3.js";
+  FacilitatorResponse,
+  getFacilitators,
+  getPrimaryFacilitator,
+  isHealthy,
+  requestFacilitator,
+} from "./facilitators.js";
 import {
-  getAssociatedTokenAddress,
-  createTransferInstruction,
-} from "@solana/spl-token";
-import bs58 from "bs58";
-
-// Network configurations
-const NETWORKS = {
-  base: {
-    type: "evm",
-    chainId: 8453,
-    usdcAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-    name: "Base Mainnet",
+  NETWORKS,
+  TokenConfig,
+  describeNetwork,
+  getDefaultToken,
+  getNetwork,
+  resolveToken,
+} from "./networks.js";
+import { formatAmount, parseAmount } from "./amounts.js";
+import { generateConsumerCode, generateMerchantMiddleware, generateRoutesMiddleware } from "./templates.js";
+import { scaffoldConsumerProject, scaffoldMerchantProject, writeProject } from "./scaffold.js";
+import { runMockFacilitator } from "./mock-facilitator.js";
+import { runMockMerchant } from "./mock-merchant.js";
+import { HttpSessionContext, resolveOutputPath, runHttpServer } from "./http.js";
+import { getSettlementStatus } from "./settlement.js";
+import { getBalances } from "./balances.js";
+import { lintPaymentRequirements } from "./lint.js";
+import { settlePayment, verifyPayment } from "./facilitation.js";
+import { buildRouteEnvelopes, loadPricingConfig, resolvePricing } from "./pricing.js";
+import { listResourceTemplates, listResources, readResource } from "./resources.js";
+import { getPrompt, listPrompts } from "./prompts.js";
+import { exportPayments, getPaymentLedgerPath, listPayments } from "./ledger.js";
+import {
+  decodeSolanaTransaction,
+  inspectSolanaTransaction,
+  verifySolanaPaymentLocally,
+} from "./solana.js";
+import {
+  assertWalletCanPay,
+  describeWallet,
+  getWallet,
+  getWalletAddress,
+  getWallets,
+} from "./wallets.js";
+import { getBudgetStatus } from "./policy.js";
+import { createPayment, decodePaymentHeader } from "./payments.js";
+import { fetchWithPayment } from "./fetch.js";
+import { estimateCost } from "./costs.js";
+import {
+  buildPaymentRequired,
+  buildPaymentRequirements,
+  parsePaymentRequired,
+  selectPaymentRequirements,
+} from "./requirements.js";
+import {
+  FieldError,
+  TOOL_SCHEMAS,
+  ToolInput,
+  ToolName,
+  isToolName,
+  parseToolArguments,
+  toJsonSchema,
+} from "./schemas.js";
+
+// Tool result for a payment the spending policy refused to sign
+function policyRefusal(rule: string | undefined, reason: string | undefined, extra: object = {}) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({ refused: true, rule, reason, ...extra }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+// Tool result for a facilitator call, noting which facilitator answered
+function facilitatorResult(result: FacilitatorResponse, extra: object = {}) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            facilitator: {
+              id: result.facilitator.id,
+              url: result.facilitator.url,
+            },
+            ...(result.failedAttempts.length > 0
+              ? { failedOver: result.failedAttempts }
+              : {}),
+            ...extra,
+            response: result.data,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+// Tool result for arguments that failed schema validation, one entry per field
+function invalidArguments(tool: string, errors: FieldError[]) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          { error: `Invalid arguments for ${tool}`, invalidArguments: errors },
+          null,
+          2
+        ),
+      },
+    ],
+    isError: true,
+  };
+}
+
+// Parse a tool's amount argument, reporting a bad amount against the field
+function parseAmountArgument(
+  tool: string,
+  amount: string,
+  token: TokenConfig
+): { baseUnits: bigint } | { error: ReturnType<typeof invalidArguments> } {
+  try {
+    return { baseUnits: parseAmount(amount, token) };
+  } catch (error: any) {
+    return { error: invalidArguments(tool, [{ field: "amount", message: error.message }]) };
+  }
+}
+
+// Tool descriptions; input schemas come from TOOL_SCHEMAS
+const TOOLS: { name: ToolName; description: string }[] = [
+  {
+    name: "x402_get_health",
+    description:
+      "Check the health and status of the Octo x402 facilitator service",
+  },
+  {
+    name: "x402_get_supported_networks",
+    description:
+      "Get list of all supported payment networks and their configurations",
   },
-  "base-sepolia": {
-    type: "evm",
-    chainId: 84532,
-    usdcAddress: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-    name: "Base Sepolia Testnet",
+  {
+    name: "x402_get_stats",
+    description:
+      "Get facilitator statistics including uptime, memory usage, and capabilities",
   },
-  polygon: {
-    type: "evm",
-    chainId: 137,
-    usdcAddress: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
-    name: "Polygon Mainnet",
+  {
+    name: "x402_create_payment_requirements",
+    description:
+      "Create payment requirements object for a merchant endpoint (returns HTTP 402 payload)",
   },
-  "polygon-amoy": {
-    type: "evm",
-    chainId: 80002,
-    usdcAddress: "0x41e94eb019c0762f9bfcf9fb1e58725bfb0e7582",
-    name: "Polygon Amoy Testnet",
+  {
+    name: "x402_create_route_requirements",
+    description:
+      "Build the 402 envelope of every route in a pricing config (per-route prices, one accepts entry per network), or of given request paths. Routes with * or :name in their path only get an envelope for a concrete path. Uses the pricing section of x402.config.json unless a config is passed",
   },
-  avalanche: {
-    type: "evm",
-    chainId: 43114,
-    usdcAddress: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E",
-    name: "Avalanche C-Chain",
+  {
+    name: "x402_lint_requirements",
+    description:
+      "Check payment requirements or a full 402 envelope for conformance before serving them: payTo and asset against the network, resource URL, scheme, amount, maxTimeoutSeconds and extra fields. Each finding has a severity and a suggested fix",
   },
-  "avalanche-fuji": {
-    type: "evm",
-    chainId: 43113,
-    usdcAddress: "0x5425890298aed601595a70AB815c96711a31Bc65",
-    name: "Avalanche Fuji Testnet",
+  {
+    name: "x402_list_wallets",
+    description:
+      "List configured payer wallets (alias, type, key source, allowed networks and address). Never returns key material",
   },
-  solana: {
-    type: "svm",
-    usdcAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
-    rpcUrl: "https://api.mainnet-beta.solana.com",
-    name: "Solana Mainnet",
+  {
+    name: "x402_get_wallet_address",
+    description:
+      "Get the address that will pay when a wallet alias is used, optionally checking it can pay on a network",
   },
-  "solana-devnet": {
-    type: "svm",
-    usdcAddress: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
-    rpcUrl: "https://api.devnet.solana.com",
-    name: "Solana Devnet",
+  {
+    name: "x402_get_budget_status",
+    description:
+      "Report spending so far and remaining budget under the spending policy, per wallet, network and asset (rolling daily and 30-day windows)",
   },
-};
-
-const FACILITATOR_URL = "https://facilitator.octox402.xyz";
-
-// Create MCP Server
-const server = new Server(
   {
-    name: "octo-x402-mcp",
-    version: "1.0.0",
+    name: "x402_get_balance",
+    description:
+      "Read a wallet's or address's native gas balance and token balances (ERC-20 balanceOf, or the SPL associated token account and whether it exists) on any registered network, through the network's RPC",
   },
   {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+    name: "x402_create_evm_payment",
+    description:
+      "Create an EVM payment authorization (EIP-712 signature) for networks like Base, Polygon, Avalanche. Refused if it breaks the spending policy, or with preflight, if the payer's balance or the nonce would make settlement fail",
+  },
+  {
+    name: "x402_create_solana_payment",
+    description:
+      "Create a Solana payment transaction (signed versioned transaction) for Solana networks. Refused if it breaks the spending policy, or with preflight, if a balance or token account is missing",
+  },
+  {
+    name: "x402_select_payment_requirements",
+    description:
+      "Choose which payment option of a 402 response to pay: ranks the accepts entries by the networks and assets our wallets can pay with, network preference and total cost, and explains why each was chosen or rejected",
+  },
+  {
+    name: "x402_fetch",
+    description:
+      "Request a URL and, if it answers HTTP 402, pay with a configured wallet and retry with X-PAYMENT. Returns the final status, headers, body and decoded X-PAYMENT-RESPONSE",
+  },
+  {
+    name: "x402_verify_payment",
+    description:
+      "Verify a payment signature without settling on blockchain (merchant-side)",
+  },
+  {
+    name: "x402_settle_payment",
+    description:
+      "Verify and settle payment on blockchain (merchant-side). Facilitator pays gas on EVM, consumer pays on Solana",
+  },
+  {
+    name: "x402_get_settlement_status",
+    description:
+      "Check a settlement transaction on chain through the network's RPC: confirmed, finalized, reverted or not found, with confirmations or commitment, block time and the token transfers that happened. With payment requirements, checks the transfer matches them. Can wait until finalized",
+  },
+  {
+    name: "x402_decode_payment_header",
+    description:
+      "Decode a base64-encoded X-PAYMENT header to inspect its contents",
+  },
+  {
+    name: "x402_inspect_solana_payment",
+    description:
+      "Decode a Solana payment transaction and list its instructions, signers, fee payer and blockhash. With payment requirements, checks the SPL transfer's mint, destination token account, amount and signatures",
+  },
+  {
+    name: "x402_generate_merchant_middleware",
+    description:
+      "Generate merchant middleware that answers 402 and verifies then settles payments, for Express, Fastify, Hono, Koa or Next.js route handlers (Node.js and edge runtimes), FastAPI (Python) or net/http (Go). Routes mode prices every route from a pricing config, on several networks",
+  },
+  {
+    name: "x402_generate_consumer_code",
+    description:
+      "Generate consumer code for making x402 payments (consumer implementation) in TypeScript, JavaScript, Python (eth-account, solders/solana-py) or Go (go-ethereum, solana-go)",
+  },
+  {
+    name: "x402_scaffold_project",
+    description:
+      "Generate a complete, runnable TypeScript merchant server (Express, Fastify, Hono or Koa) or consumer client for the selected networks: code, package.json with pinned dependencies, tsconfig, .env.example, README and a smoke test. Returns the files, or writes them to an empty directory",
+  },
+  {
+    name: "x402_calculate_total_cost",
+    description:
+      "Calculate total cost including network fees for a payment",
+  },
+  {
+    name: "x402_get_network_info",
+    description:
+      "Get detailed information about a specific network including USDC address, chain ID, and fee structure",
+  },
+  {
+    name: "x402_list_payments",
+    description:
+      "List payments from the local ledger (created, verified, settled or failed), filtered by date, network, wallet and status. Each payment links its nonce or Solana signature to the facilitator responses and settlement transaction",
+  },
+  {
+    name: "x402_export_payments",
+    description:
+      "Export payments from the local ledger as CSV or JSON for reconciliation, with the same filters as x402_list_payments",
+  },
+];
 
-// Tool: Get Facilitator Health
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function listTools() {
   return {
-    tools: [
-      {
-        name: "x402_get_health",
-        description:
-          "Check the health and status of the Octo x402 facilitator service",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-      {
-        name: "x402_get_supported_networks",
-        description:
-          "Get list of all supported payment networks and their configurations",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-      {
-        name: "x402_get_stats",
-        description:
-          "Get facilitator statistics including uptime, memory usage, and capabilities",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-      {
-        name: "x402_create_payment_requirements",
-        description:
-          "Create payment requirements object for a merchant endpoint (returns HTTP 402 payload)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            network: {
-              type: "string",
-              description:
-                "Network ID (base, polygon, avalanche, solana, etc.)",
-              enum: Object.keys(NETWORKS),
-            },
-            amount: {
-              type: "string",
-              description: "Payment amount in USDC (6 decimals, e.g., '10000' for $0.01)",
-            },
-            merchantWallet: {
-              type: "string",
-              description: "Merchant's receiving wallet address",
-            },
-            resource: {
-              type: "string",
-              description: "Full URL of the protected resource",
-            },
-            description: {
-              type: "string",
-              description: "Description of what the payment is for",
-            },
-            mimeType: {
-              type: "string",
-              description: "Content type being sold",
-              default: "application/json",
-            },
-          },
-          required: ["network", "amount", "merchantWallet", "resource", "description"],
-        },
-      },
-      {
-        name: "x402_create_evm_payment",
-        description:
-          "Create an EVM payment authorization (EIP-712 signature) for networks like Base, Polygon, Avalanche",
-        inputSchema: {
-          type: "object",
-          properties: {
-            network: {
-              type: "string",
-              description: "Network ID (base, polygon, avalanche, etc.)",
-              enum: Object.keys(NETWORKS).filter(
-                (k) => NETWORKS[k].type === "evm"
-              ),
-            },
-            privateKey: {
-              type: "string",
-              description: "Consumer's EVM private key (0x...)",
-            },
-            paymentRequirements: {
-              type: "object",
-              description: "Payment requirements object from merchant (HTTP 402 response)",
-            },
-          },
-          required: ["network", "privateKey", "paymentRequirements"],
-        },
-      },
-      {
-        name: "x402_create_solana_payment",
-        description:
-          "Create a Solana payment transaction (signed versioned transaction) for Solana networks",
-        inputSchema: {
-          type: "object",
-          properties: {
-            network: {
-              type: "string",
-              description: "Network ID (solana or solana-devnet)",
-              enum: ["solana", "solana-devnet"],
-            },
-            privateKey: {
-              type: "string",
-              description: "Consumer's Solana private key (base58 encoded)",
-            },
-            paymentRequirements: {
-              type: "object",
-              description: "Payment requirements object from merchant (HTTP 402 response)",
-            },
-          },
-          required: ["network", "privateKey", "paymentRequirements"],
-        },
-      },
-      {
-        name: "x402_verify_payment",
-        description:
-          "Verify a payment signature without settling on blockchain (merchant-side)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            paymentPayload: {
-              type: "object",
-              description: "Decoded payment payload from X-PAYMENT header",
-            },
-            paymentRequirements: {
-              type: "object",
-              description: "Payment requirements that were sent to consumer",
-            },
-          },
-          required: ["paymentPayload", "paymentRequirements"],
-        },
-      },
-      {
-        name: "x402_settle_payment",
-        description:
-          "Verify and settle payment on blockchain (merchant-side). Facilitator pays gas on EVM, consumer pays on Solana",
-        inputSchema: {
-          type: "object",
-          properties: {
-            paymentPayload: {
-              type: "object",
-              description: "Decoded payment payload from X-PAYMENT header",
-            },
-            paymentRequirements: {
-              type: "object",
-              description: "Payment requirements that were sent to consumer",
-            },
-          },
-          required: ["paymentPayload", "paymentRequirements"],
-        },
-      },
-      {
-        name: "x402_decode_payment_header",
-        description:
-          "Decode a base64-encoded X-PAYMENT header to inspect its contents",
-        inputSchema: {
-          type: "object",
-          properties: {
-            paymentHeader: {
-              type: "string",
-              description: "Base64-encoded X-PAYMENT header value",
-            },
-          },
-          required: ["paymentHeader"],
-        },
-      },
-      {
-        name: "x402_generate_merchant_middleware",
-        description:
-          "Generate Express.js middleware code for payment verification (merchant implementation)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            network: {
-              type: "string",
-              description: "Network ID to generate middleware for",
-              enum: Object.keys(NETWORKS),
-            },
-            language: {
-              type: "string",
-              description: "Programming language",
-              enum: ["typescript", "javascript"],
-              default: "typescript",
-            },
-          },
-          required: ["network"],
-        },
-      },
-      {
-        name: "x402_generate_consumer_code",
-        description:
-          "Generate consumer code for making x402 payments (consumer implementation)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            network: {
-              type: "string",
-              description: "Network ID to generate code for",
-              enum: Object.keys(NETWORKS),
-            },
-            language: {
-              type: "string",
-              description: "Programming language",
-              enum: ["typescript", "javascript"],
-              default: "typescript",
-            },
-          },
-          required: ["network"],
-        },
-      },
-      {
-        name: "x402_calculate_total_cost",
-        description:
-          "Calculate total cost including network fees for a payment",
-        inputSchema: {
-          type: "object",
-          properties: {
-            network: {
-              type: "string",
-              description: "Network ID",
-              enum: Object.keys(NETWORKS),
-            },
-            amount: {
-              type: "string",
-              description: "Payment amount in USDC (6 decimals)",
-            },
-          },
-          required: ["network", "amount"],
-        },
-      },
-      {
-        name: "x402_get_network_info",
-        description:
-          "Get detailed information about a specific network including USDC address, chain ID, and fee structure",
-        inputSchema: {
-          type: "object",
-          properties: {
-            network: {
-              type: "string",
-              description: "Network ID",
-              enum: Object.keys(NETWORKS),
-            },
-          },
-          required: ["network"],
-        },
-      },
-    ],
+    tools: TOOLS.map((tool) => ({
+      ...tool,
+      inputSchema: toJsonSchema(TOOL_SCHEMAS[tool.name]),
+    })),
   };
-});
+}
 
-// Tool implementations
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+// Tool implementations. HTTP sessions pass their context, which confines
+// the files tools write; the stdio client may write anywhere.
+async function callTool(request: CallToolRequest, context?: HttpSessionContext) {
   const { name, arguments: args } = request.params;
 
+  let input: any = args;
+  if (isToolName(name)) {
+    const parsed = parseToolArguments(name, args);
+    if (!parsed.success) {
+      return invalidArguments(name, parsed.errors);
+    }
+    input = parsed.data;
+  }
+
   try {
     switch (name) {
       case "x402_get_health": {
-        const response = await axios.get(`${FACILITATOR_URL}/health`);
+        const result = await requestFacilitator("get", "/health");
+        return facilitatorResult(result, {
+          registry: getFacilitators().map((f) => ({
+            id: f.id,
+            url: f.url,
+            healthy: isHealthy(f),
+          })),
+        });
+      }
+
+      case "x402_get_supported_networks": {
+        const result = await requestFacilitator("get", "/supported");
+        return facilitatorResult(result);
+      }
+
+      case "x402_get_stats": {
+        const result = await requestFacilitator("get", "/stats");
+        return facilitatorResult(result);
+      }
+
+      case "x402_create_payment_requirements": {
+        const { network, amount, asset, merchantWallet, resource, description, mimeType, envelope } =
+          input as ToolInput<"x402_create_payment_requirements">;
+        const token = resolveToken(network, asset);
+        const price = parseAmountArgument(name, amount, token);
+        if ("error" in price) {
+          return price.error;
+        }
+
+        const requirements = buildPaymentRequirements({
+          network,
+          token,
+          amount: price.baseUnits,
+          payTo: merchantWallet,
+          resource,
+          description,
+          mimeType,
+        });
+
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(response.data, null, 2),
+              text: JSON.stringify(
+                envelope ? buildPaymentRequired([requirements]) : requirements,
+                null,
+                2
+              ),
+            },
+            {
+              type: "text",
+              text: `Price: ${formatAmount(price.baseUnits, token)} (${price.baseUnits} base units)`,
             },
           ],
         };
       }
 
-      case "x402_get_supported_networks": {
-        const response = await axios.get(`${FACILITATOR_URL}/supported`);
+      case "x402_create_route_requirements": {
+        const { pricing, paths } = input as ToolInput<"x402_create_route_requirements">;
+        const routes = buildRouteEnvelopes(pricing ?? loadPricingConfig(), paths);
+
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(response.data, null, 2),
+              text: JSON.stringify({ routes }, null, 2),
             },
           ],
         };
       }
 
-      case "x402_get_stats": {
-        const response = await axios.get(`${FACILITATOR_URL}/stats`);
+      case "x402_lint_requirements": {
+        const { paymentRequired } = input as ToolInput<"x402_lint_requirements">;
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(response.data, null, 2),
+              text: JSON.stringify(lintPaymentRequirements(paymentRequired), null, 2),
             },
           ],
         };
       }
 
-      case "x402_create_payment_requirements": {
-        const { network, amount, merchantWallet, resource, description, mimeType } = args;
-        const networkConfig = NETWORKS[network];
-
-        const requirements = {
-          scheme: "exact",
-          network: network,
-          maxAmountRequired: amount,
-          payTo: merchantWallet,
-          asset: networkConfig.usdcAddress,
-          resource: resource,
-          description: description,
-          mimeType: mimeType || "application/json",
-          maxTimeoutSeconds: 300,
-        };
-
+      case "x402_list_wallets": {
+        const wallets = await Promise.all(getWallets().map(describeWallet));
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(requirements, null, 2),
+              text: JSON.stringify({ wallets }, null, 2),
             },
           ],
         };
       }
 
-      case "x402_create_evm_payment": {
-        const { network, privateKey, paymentRequirements } = args;
-        const networkConfig = NETWORKS[network];
-        const wallet = new ethers.Wallet(privateKey);
-
-        const domain = {
-          name: "USD Coin",
-          version: "2",
-          chainId: networkConfig.chainId,
-          verifyingContract: paymentRequirements.asset,
-        };
-
-        const types = {
-          TransferWithAuthorization: [
-            { name: "from", type: "address" },
-            { name: "to", type: "address" },
-            { name: "value", type: "uint256" },
-            { name: "validAfter", type: "uint256" },
-            { name: "validBefore", type: "uint256" },
-            { name: "nonce", type: "bytes32" },
-          ],
-        };
-
-        const validAfter = 0;
-        const validBefore = Math.floor(Date.now() / 1000) + 3600;
-        const nonce = ethers.hexlify(ethers.randomBytes(32));
-
-        const value = {
-          from: wallet.address,
-          to: paymentRequirements.payTo,
-          value: paymentRequirements.maxAmountRequired,
-          validAfter,
-          validBefore,
-          nonce,
-        };
-
-        const signature = await wallet.signTypedData(domain, types, value);
-
-        const paymentPayload = {
-          x402Version: 1,
-          scheme: "exact",
-          network: network,
-          payload: {
-            authorization: {
-              from: wallet.address,
-              to: paymentRequirements.payTo,
-              value: paymentRequirements.maxAmountRequired,
-              validAfter: validAfter.toString(),
-              validBefore: validBefore.toString(),
-              nonce: nonce,
-            },
-            signature: signature,
-          },
-        };
-
-        const base64Payment = Buffer.from(JSON.stringify(paymentPayload)).toString("base64");
+      case "x402_get_wallet_address": {
+        const { wallet: walletAlias, network } = input as ToolInput<"x402_get_wallet_address">;
+        const wallet = getWallet(walletAlias);
+        if (network) {
+          assertWalletCanPay(wallet, network, NETWORKS[network].type);
+        }
 
         return {
           content: [
@@ -476,9 +412,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: "text",
               text: JSON.stringify(
                 {
-                  paymentHeader: base64Payment,
-                  decodedPayload: paymentPayload,
-                  consumerAddress: wallet.address,
+                  wallet: wallet.alias,
+                  type: wallet.type,
+                  address: await getWalletAddress(walletAlias),
+                  ...(network ? { network } : {}),
                 },
                 null,
                 2
@@ -488,57 +425,55 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "x402_create_solana_payment": {
-        const { network, privateKey, paymentRequirements } = args;
-        const networkConfig = NETWORKS[network];
-        const keypair = Keypair.fromSecretKey(bs58.decode(privateKey));
-        const connection = new Connection(networkConfig.rpcUrl, "confirmed");
-
-        const fromPubkey = keypair.publicKey;
-        const toPubkey = new PublicKey(paymentRequirements.payTo);
-        const mintPubkey = new PublicKey(paymentRequirements.asset);
-        const amount = BigInt(paymentRequirements.maxAmountRequired);
-
-        const fromTokenAccount = await getAssociatedTokenAddress(
-          mintPubkey,
-          fromPubkey
-        );
-        const toTokenAccount = await getAssociatedTokenAddress(
-          mintPubkey,
-          toPubkey
-        );
+      case "x402_get_budget_status": {
+        const { wallet: walletAlias, network } = input as ToolInput<"x402_get_budget_status">;
+        const wallets = walletAlias ? [getWallet(walletAlias)] : getWallets();
 
-        const transferInstruction = createTransferInstruction(
-          fromTokenAccount,
-          toTokenAccount,
-          fromPubkey,
-          amount
+        const budgets = wallets.flatMap((wallet) =>
+          Object.keys(NETWORKS)
+            .filter((id) => (network ? id === network : true))
+            .filter((id) => NETWORKS[id].type === wallet.type)
+            .filter((id) => !wallet.networks || wallet.networks.includes(id))
+            .flatMap((id) => NETWORKS[id].tokens.map((token) => getBudgetStatus(wallet.alias, id, token.address)))
         );
 
-        const { blockhash } = await connection.getLatestBlockhash("finalized");
-
-        const messageV0 = new TransactionMessage({
-          payerKey: fromPubkey,
-          recentBlockhash: blockhash,
-          instructions: [transferInstruction],
-        }).compileToV0Message();
-
-        const transaction = new VersionedTransaction(messageV0);
-        transaction.sign([keypair]);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ budgets }, null, 2),
+            },
+          ],
+        };
+      }
 
-        const serializedTx = transaction.serialize();
-        const base64Tx = Buffer.from(serializedTx).toString("base64");
+      case "x402_get_balance": {
+        const { network, wallet: walletAlias, address, asset } = input as ToolInput<"x402_get_balance">;
+        const wallet = walletAlias ? getWallet(walletAlias) : undefined;
+        if (wallet && wallet.type !== getNetwork(network).type) {
+          throw new Error(`Wallet "${wallet.alias}" is an ${wallet.type} wallet and has no address on ${network}`);
+        }
+        const owner = address ?? (await getWalletAddress(walletAlias!));
+        const balance = await getBalances(network, owner, asset ? [resolveToken(network, asset)] : undefined);
 
-        const paymentPayload = {
-          x402Version: 1,
-          scheme: "exact",
-          network: network,
-          payload: {
-            transaction: base64Tx,
-          },
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ ...(walletAlias ? { wallet: walletAlias } : {}), ...balance }, null, 2),
+            },
+          ],
         };
+      }
 
-        const base64Payment = Buffer.from(JSON.stringify(paymentPayload)).toString("base64");
+      case "x402_create_evm_payment":
+      case "x402_create_solana_payment": {
+        const { network, wallet, paymentRequirements, preflight } =
+          input as ToolInput<"x402_create_evm_payment">;
+        const result = await createPayment(network, wallet, paymentRequirements, { preflight });
+        if (result.refused) {
+          return policyRefusal(result.rule, result.reason, result.preflight ? { preflight: result.preflight } : {});
+        }
 
         return {
           content: [
@@ -546,9 +481,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: "text",
               text: JSON.stringify(
                 {
-                  paymentHeader: base64Payment,
-                  decodedPayload: paymentPayload,
-                  consumerAddress: fromPubkey.toString(),
+                  paymentHeader: result.paymentHeader,
+                  decodedPayload: result.paymentPayload,
+                  wallet: result.wallet,
+                  consumerAddress: result.consumerAddress,
+                  ...(result.preflight ? { preflight: result.preflight } : {}),
                 },
                 null,
                 2
@@ -558,48 +495,103 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "x402_verify_payment": {
-        const { paymentPayload, paymentRequirements } = args;
+      case "x402_select_payment_requirements": {
+        const { paymentRequired, preferredNetworks, wallet } =
+          input as ToolInput<"x402_select_payment_requirements">;
+        const { accepts } = parsePaymentRequired(paymentRequired);
+        const selection = selectPaymentRequirements(accepts, { preferredNetworks, wallet });
 
-        const response = await axios.post(
-          `${FACILITATOR_URL}/verify`,
-          { paymentPayload, paymentRequirements },
-          { headers: { "Content-Type": "application/json" } }
-        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(selection, null, 2),
+            },
+          ],
+        };
+      }
 
+      case "x402_fetch": {
+        const { url, method, headers, body, wallet, preferredNetworks, dryRun } =
+          input as ToolInput<"x402_fetch">;
+        const result = await fetchWithPayment({
+          url,
+          method,
+          headers,
+          body,
+          wallet,
+          preferredNetworks,
+          dryRun,
+        });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(response.data, null, 2),
+              text: JSON.stringify(result, null, 2),
             },
           ],
+          // Not served, refused by the spending policy, or paid for without
+          // getting the resource
+          ...(result.paid === false && (result.status === 402 || "paymentSent" in result || "refused" in result)
+            ? { isError: true }
+            : {}),
+        };
+      }
+
+      case "x402_verify_payment": {
+        const { paymentPayload, paymentRequirements, mode } =
+          input as ToolInput<"x402_verify_payment">;
+        const verification = await verifyPayment(paymentPayload, paymentRequirements, { mode });
+        // A replayed payment must never read as valid, whatever the checks say
+        const replayed = verification.replay ? { isError: true } : {};
+
+        if (verification.verifiedBy === "local") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ verifiedBy: "local", response: verification.result }, null, 2),
+              },
+            ],
+            ...replayed,
+          };
+        }
+        // The facilitator only knows about settled payments; its response can
+        // say isValid for a payment already used here, so lead with the verdict
+        const { isValid, invalidReason, replay } = verification;
+        return {
+          ...facilitatorResult(verification.facilitator, {
+            isValid,
+            ...(invalidReason ? { invalidReason } : {}),
+            ...(replay ? { replay } : {}),
+          }),
+          ...replayed,
         };
       }
 
       case "x402_settle_payment": {
-        const { paymentPayload, paymentRequirements } = args;
+        const { paymentPayload, paymentRequirements } = input as ToolInput<"x402_settle_payment">;
+        const settlement = await settlePayment(paymentPayload, paymentRequirements);
+        return facilitatorResult(settlement.facilitator);
+      }
 
-        const response = await axios.post(
-          `${FACILITATOR_URL}/settle`,
-          { paymentPayload, paymentRequirements },
-          { headers: { "Content-Type": "application/json" } }
-        );
+      case "x402_get_settlement_status": {
+        const { network, transaction, ...options } = input as ToolInput<"x402_get_settlement_status">;
+        const status = await getSettlementStatus(network, transaction, options);
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(response.data, null, 2),
+              text: JSON.stringify(status, null, 2),
             },
           ],
         };
       }
 
       case "x402_decode_payment_header": {
-        const { paymentHeader } = args;
-        const decoded = Buffer.from(paymentHeader, "base64").toString("utf-8");
-        const paymentPayload = JSON.parse(decoded);
+        const { paymentHeader } = input as ToolInput<"x402_decode_payment_header">;
+        const paymentPayload = decodePaymentHeader(paymentHeader);
 
         return {
           content: [
@@ -611,297 +603,172 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "x402_generate_merchant_middleware": {
-        const { network, language } = args;
-        const networkConfig = NETWORKS[network];
-        const isTypescript = language === "typescript" || !language;
-
-        const code = `${isTypescript ? "import" : "const"} express ${isTypescript ? "from" : "= require"} ${isTypescript ? "'express';" : "('express');"}
-${isTypescript ? "import" : "const"} axios ${isTypescript ? "from" : "= require"} ${isTypescript ? "'axios';" : "('axios');"}
-
-const FACILITATOR_URL = '${FACILITATOR_URL}';
-const MERCHANT_WALLET = process.env.MERCHANT_WALLET_ADDRESS;
-const NETWORK = '${network}';
-const USDC_ADDRESS = '${networkConfig.usdcAddress}';
-
-async function checkPayment(req${isTypescript ? ": any" : ""}, res${isTypescript ? ": any" : ""}, next${isTypescript ? ": any" : ""}) {
-  const paymentHeader = req.headers['x-payment'];
-  
-  const paymentRequirements = {
-    scheme: 'exact',
-    network: NETWORK,
-    maxAmountRequired: '10000', // $0.01 USDC (6 decimals)
-    payTo: MERCHANT_WALLET,
-    asset: USDC_ADDRESS,
-    resource: \`\${req.protocol}://\${req.get('host')}\${req.originalUrl}\`,
-    description: 'Premium content access',
-    mimeType: 'application/json',
-    maxTimeoutSeconds: 300
-  };
-  
-  if (!paymentHeader) {
-    return res.status(402).json(paymentRequirements);
-  }
-  
-  try {
-    const decoded = Buffer.from(paymentHeader, 'base64').toString('utf-8');
-    const paymentPayload = JSON.parse(decoded);
-    
-    // Step 1: Verify
-    const verifyResponse = await axios.post(
-      \`\${FACILITATOR_URL}/verify\`,
-      { paymentPayload, paymentRequirements },
-      { headers: { 'Content-Type': 'application/json' } }
-    );
-    
-    const verifyData = verifyResponse.data.success 
-      ? verifyResponse.data.data 
-      : verifyResponse.data;
-    
-    if (!verifyData.isValid) {
-      return res.status(402).json({
-        error: 'Payment verification failed',
-        reason: verifyData.invalidReason
-      });
-    }
-    
-    // Step 2: Settle
-    const settleResponse = await axios.post(
-      \`\${FACILITATOR_URL}/settle\`,
-      { paymentPayload, paymentRequirements },
-      { headers: { 'Content-Type': 'application/json' } }
-    );
-    
-    const settleData = settleResponse.data.success
-      ? settleResponse.data.data
-      : settleResponse.data;
-    
-    if (!settleData.success) {
-      return res.status(402).json({
-        error: 'Payment settlement failed'
-      });
-    }
-    
-    console.log('✅ Payment settled:', settleData.transaction || settleData.signature);
-    next();
-    
-  } catch (error${isTypescript ? ": any" : ""}) {
-    return res.status(500).json({
-      error: 'Payment processing failed',
-      message: error.message
-    });
-  }
-}
+      case "x402_inspect_solana_payment": {
+        const { paymentHeader, paymentPayload, paymentRequirements } =
+          input as ToolInput<"x402_inspect_solana_payment">;
+        const payload = paymentHeader ? decodePaymentHeader(paymentHeader) : paymentPayload;
 
-${isTypescript ? "export" : "module.exports ="} { checkPayment };`;
+        if (!payload?.payload?.transaction) {
+          throw new Error("Payment payload does not contain a Solana transaction");
+        }
+
+        const result = paymentRequirements
+          ? verifySolanaPaymentLocally(payload, paymentRequirements)
+          : {
+              transaction: inspectSolanaTransaction(
+                decodeSolanaTransaction(payload.payload.transaction)
+              ),
+            };
 
         return {
           content: [
             {
               type: "text",
-              text: code,
+              text: JSON.stringify(result, null, 2),
             },
           ],
         };
       }
 
-      case "x402_generate_consumer_code": {
-        const { network, language } = args;
-        const networkConfig = NETWORKS[network];
-        const isTypescript = language === "typescript" || !language;
-        const isEVM = networkConfig.type === "evm";
-
-        let code;
-        if (isEVM) {
-          code = `${isTypescript ? "import" : "const"} axios ${isTypescript ? "from" : "= require"} ${isTypescript ? "'axios';" : "('axios');"}
-${isTypescript ? "import" : "const { ethers } = require"} ${isTypescript ? "{ ethers } from 'ethers';" : "('ethers');"}
-
-const CONSUMER_PRIVATE_KEY = process.env.CONSUMER_PRIVATE_KEY;
-const MERCHANT_URL = process.env.MERCHANT_URL;
-const NETWORK = '${network}';
-const CHAIN_ID = ${networkConfig.chainId};
-
-const wallet = new ethers.Wallet(CONSUMER_PRIVATE_KEY);
-
-async function createPayment(requirements${isTypescript ? ": any" : ""})${isTypescript ? ": Promise<string>" : ""} {
-  const domain = {
-    name: 'USD Coin',
-    version: '2',
-    chainId: CHAIN_ID,
-    verifyingContract: requirements.asset,
-  };
-
-  const types = {
-    TransferWithAuthorization: [
-      { name: 'from', type: 'address' },
-      { name: 'to', type: 'address' },
-      { name: 'value', type: 'uint256' },
-      { name: 'validAfter', type: 'uint256' },
-      { name: 'validBefore', type: 'uint256' },
-      { name: 'nonce', type: 'bytes32' },
-    ],
-  };
-
-  const validAfter = 0;
-  const validBefore = Math.floor(Date.now() / 1000) + 3600;
-  const nonce = ethers.hexlify(ethers.randomBytes(32));
-
-  const value = {
-    from: wallet.address,
-    to: requirements.payTo,
-    value: requirements.maxAmountRequired,
-    validAfter,
-    validBefore,
-    nonce,
-  };
+      case "x402_generate_merchant_middleware": {
+        const { mode, network, pricing, language, framework, asset, price, description, mimeType } =
+          input as ToolInput<"x402_generate_merchant_middleware">;
+        if (mode === "routes") {
+          const code = generateRoutesMiddleware({
+            language,
+            framework,
+            routes: resolvePricing(pricing ?? loadPricingConfig()),
+            facilitatorUrl: getPrimaryFacilitator().url,
+          });
+          return {
+            content: [
+              {
+                type: "text",
+                text: code,
+              },
+            ],
+          };
+        }
 
-  const signature = await wallet.signTypedData(domain, types, value);
-
-  const paymentPayload = {
-    x402Version: 1,
-    scheme: 'exact',
-    network: NETWORK,
-    payload: {
-      authorization: {
-        from: wallet.address,
-        to: requirements.payTo,
-        value: requirements.maxAmountRequired,
-        validAfter: validAfter.toString(),
-        validBefore: validBefore.toString(),
-        nonce: nonce,
-      },
-      signature: signature
-    }
-  };
+        if (!network) {
+          throw new Error("network is required in single mode");
+        }
+        const token = resolveToken(network, asset);
+        const parsedPrice = parseAmountArgument(name, price, token);
+        if ("error" in parsedPrice) {
+          return parsedPrice.error;
+        }
 
-  return Buffer.from(JSON.stringify(paymentPayload)).toString('base64');
-}
+        const code = generateMerchantMiddleware({
+          network,
+          networkConfig: getNetwork(network),
+          token,
+          framework,
+          language,
+          price: parsedPrice.baseUnits,
+          description,
+          mimeType,
+          facilitatorUrl: getPrimaryFacilitator().url,
+        });
 
-async function fetchWithPayment(url${isTypescript ? ": string" : ""}) {
-  let response = await axios.get(url, {
-    validateStatus: () => true
-  });
+        return {
+          content: [
+            {
+              type: "text",
+              text: code,
+            },
+          ],
+        };
+      }
 
-  if (response.status === 402) {
-    const requirements = response.data;
-    const paymentHeader = await createPayment(requirements);
-    
-    response = await axios.get(url, {
-      headers: { 'X-PAYMENT': paymentHeader },
-      validateStatus: () => true
-    });
-  }
+      case "x402_generate_consumer_code": {
+        const { network, language } = input as ToolInput<"x402_generate_consumer_code">;
+        const code = generateConsumerCode({
+          network,
+          networkConfig: getNetwork(network),
+          token: getDefaultToken(network),
+          language,
+        });
 
-  return response.data;
-}
+        return {
+          content: [
+            {
+              type: "text",
+              text: code,
+            },
+          ],
+        };
+      }
 
-${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
+      case "x402_scaffold_project": {
+        const { kind, networks, name: projectName, framework, asset, price, description, mimeType, outputDir } =
+          input as ToolInput<"x402_scaffold_project">;
+
+        let files;
+        if (kind === "merchant") {
+          const targets = [];
+          for (const network of networks) {
+            const token = resolveToken(network, asset);
+            const parsedPrice = parseAmountArgument(name, price, token);
+            if ("error" in parsedPrice) {
+              return parsedPrice.error;
+            }
+            targets.push({
+              network,
+              networkConfig: getNetwork(network),
+              token,
+              language: "typescript" as const,
+              price: parsedPrice.baseUnits,
+              description,
+              mimeType,
+              facilitatorUrl: getPrimaryFacilitator().url,
+            });
+          }
+          files = scaffoldMerchantProject(projectName ?? "x402-merchant", framework, targets);
         } else {
-          code = `${isTypescript ? "import" : "const"} axios ${isTypescript ? "from" : "= require"} ${isTypescript ? "'axios';" : "('axios');"}
-${isTypescript ? "import { Keypair, PublicKey, Connection, TransactionMessage, VersionedTransaction } from '@solana/web3.js';" : "const { Keypair, PublicKey, Connection, TransactionMessage, VersionedTransaction } = require('@solana/web3.js');"}
-${isTypescript ? "import { getAssociatedTokenAddress, createTransferInstruction } from '@solana/spl-token';" : "const { getAssociatedTokenAddress, createTransferInstruction } = require('@solana/spl-token');"}
-${isTypescript ? "import bs58 from 'bs58';" : "const bs58 = require('bs58');"}
-
-const CONSUMER_PRIVATE_KEY_BS58 = process.env.CONSUMER_PRIVATE_KEY_BS58;
-const MERCHANT_URL = process.env.MERCHANT_URL;
-const NETWORK = '${network}';
-const RPC_URL = '${networkConfig.rpcUrl}';
-
-const keypair = Keypair.fromSecretKey(bs58.decode(CONSUMER_PRIVATE_KEY_BS58));
-const connection = new Connection(RPC_URL, 'confirmed');
-
-async function createPayment(requirements${isTypescript ? ": any" : ""})${isTypescript ? ": Promise<string>" : ""} {
-  const fromPubkey = keypair.publicKey;
-  const toPubkey = new PublicKey(requirements.payTo);
-  const mintPubkey = new PublicKey(requirements.asset);
-  const amount = BigInt(requirements.maxAmountRequired);
-  
-  const fromTokenAccount = await getAssociatedTokenAddress(mintPubkey, fromPubkey);
-  const toTokenAccount = await getAssociatedTokenAddress(mintPubkey, toPubkey);
-  
-  const transferInstruction = createTransferInstruction(
-    fromTokenAccount,
-    toTokenAccount,
-    fromPubkey,
-    amount
-  );
-  
-  const { blockhash } = await connection.getLatestBlockhash('finalized');
-  
-  const messageV0 = new TransactionMessage({
-    payerKey: fromPubkey,
-    recentBlockhash: blockhash,
-    instructions: [transferInstruction],
-  }).compileToV0Message();
-  
-  const transaction = new VersionedTransaction(messageV0);
-  transaction.sign([keypair]);
-  
-  const serializedTx = transaction.serialize();
-  const base64Tx = Buffer.from(serializedTx).toString('base64');
-  
-  const paymentPayload = {
-    x402Version: 1,
-    scheme: 'exact',
-    network: NETWORK,
-    payload: {
-      transaction: base64Tx
-    }
-  };
-  
-  return Buffer.from(JSON.stringify(paymentPayload)).toString('base64');
-}
-
-async function fetchWithPayment(url${isTypescript ? ": string" : ""}) {
-  let response = await axios.get(url, {
-    validateStatus: () => true
-  });
-  
-  if (response.status === 402) {
-    const requirements = response.data;
-    const paymentHeader = await createPayment(requirements);
-    
-    response = await axios.get(url, {
-      headers: { 'X-PAYMENT': paymentHeader },
-      validateStatus: () => true
-    });
-  }
-  
-  return response.data;
-}
-
-${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
+          files = scaffoldConsumerProject(
+            projectName ?? "x402-consumer",
+            networks.map((network) => ({
+              network,
+              networkConfig: getNetwork(network),
+              token: getDefaultToken(network),
+              language: "typescript" as const,
+            }))
+          );
         }
 
+        const nextSteps = [
+          "npm install",
+          "cp .env.example .env and fill it in",
+          kind === "merchant" ? "npm start" : "npm start -- <url>",
+          "npm test",
+        ];
+        const result = outputDir
+          ? {
+              outputDir,
+              files: writeProject(context ? resolveOutputPath(context, outputDir) : outputDir, files),
+              nextSteps,
+            }
+          : { files, nextSteps };
+
         return {
           content: [
             {
               type: "text",
-              text: code,
+              text: JSON.stringify(result, null, 2),
             },
           ],
         };
       }
 
       case "x402_calculate_total_cost": {
-        const { network, amount } = args;
-        const networkConfig = NETWORKS[network];
-        const amountUSDC = parseFloat(amount) / 1000000;
-
-        let gasFee, totalCost, whoPays;
-        if (networkConfig.type === "evm") {
-          if (network === "avalanche" || network === "avalanche-fuji") {
-            gasFee = 0.01;
-          } else {
-            gasFee = 0.001;
-          }
-          whoPays = "Facilitator pays gas";
-          totalCost = amountUSDC;
-        } else {
-          gasFee = 0.000005;
-          whoPays = "Consumer pays transaction fee";
-          totalCost = amountUSDC + gasFee;
+        const { network, amount, asset } = input as ToolInput<"x402_calculate_total_cost">;
+        const token = resolveToken(network, asset);
+        const price = parseAmountArgument(name, amount, token);
+        if ("error" in price) {
+          return price.error;
         }
+        const cost = estimateCost(network, price.baseUnits.toString(), token.address);
 
         return {
           content: [
@@ -909,13 +776,15 @@ ${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
               type: "text",
               text: JSON.stringify(
                 {
-                  network: networkConfig.name,
-                  paymentAmount: `$${amountUSDC.toFixed(6)} USDC`,
-                  networkFee: `$${gasFee.toFixed(6)}`,
-                  totalCostToConsumer: `$${totalCost.toFixed(6)}`,
-                  whoPays: whoPays,
-                  settlementTime:
-                    networkConfig.type === "evm" ? "~2 seconds" : "~400ms",
+                  network: cost.network,
+                  asset: cost.asset,
+                  paymentAmount: cost.amountFormatted,
+                  paymentAmountBaseUnits: cost.amount,
+                  networkFee: `$${cost.gasFee}`,
+                  totalCostToConsumer: cost.totalCostFormatted,
+                  totalCostBaseUnits: cost.totalCost,
+                  whoPays: cost.whoPays,
+                  settlementTime: cost.settlementTime,
                 },
                 null,
                 2
@@ -926,23 +795,8 @@ ${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
       }
 
       case "x402_get_network_info": {
-        const { network } = args;
-        const networkConfig = NETWORKS[network];
-
-        const info = {
-          network: network,
-          name: networkConfig.name,
-          type: networkConfig.type === "evm" ? "EVM" : "SVM",
-          usdcAddress: networkConfig.usdcAddress,
-          chainId: networkConfig.chainId || "N/A",
-          rpcUrl: networkConfig.rpcUrl || "Default provider",
-          feeStructure:
-            networkConfig.type === "evm"
-              ? "Facilitator pays gas (~$0.001-0.01)"
-              : "Consumer pays transaction fee (~$0.000005)",
-          settlementTime:
-            networkConfig.type === "evm" ? "~2 seconds" : "~400ms",
-        };
+        const { network } = input as ToolInput<"x402_get_network_info">;
+        const info = describeNetwork(network);
 
         return {
           content: [
@@ -954,10 +808,55 @@ ${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
         };
       }
 
+      case "x402_list_payments": {
+        const { limit, ...filter } = input as ToolInput<"x402_list_payments">;
+        const payments = listPayments(filter);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  ledger: getPaymentLedgerPath(),
+                  total: payments.length,
+                  payments: payments.slice(-limit).reverse(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "x402_export_payments": {
+        const { format, outputFile, ...filter } = input as ToolInput<"x402_export_payments">;
+        const payments = listPayments(filter);
+        const exported = exportPayments(payments, format);
+
+        if (outputFile) {
+          const file = context ? resolveOutputPath(context, outputFile) : outputFile;
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, exported + "\n");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: outputFile
+                ? JSON.stringify({ outputFile, format, count: payments.length }, null, 2)
+                : exported,
+            },
+          ],
+        };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
-  } catch (error) {
+  } catch (error: any) {
     return {
       content: [
         {
@@ -975,12 +874,68 @@ ${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
       isError: true,
     };
   }
-});
+}
 
-// Start server
+// One MCP server per client: the stdio client, or each HTTP session. Wallets,
+// spending policy and the ledger are shared by all of them.
+function createServer(context?: HttpSessionContext): Server {
+  const server = new Server(
+    {
+      name: "octo-x402-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, (request) => callTool(request, context));
+
+  // Networks, facilitator support, the ledger and templates as attachable context
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources() };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: listResourceTemplates() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [await readResource(request.params.uri)] };
+  });
+
+  // Guided merchant, consumer and debugging workflows
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
+
+// Start server, or a local mock with: octo-x402-mcp facilitator|merchant [options]
+// Shared HTTP server: octo-x402-mcp --http [--host 127.0.0.1] [--port 3402]
 async function main() {
+  switch (process.argv[2]) {
+    case "facilitator":
+      return runMockFacilitator(process.argv.slice(3));
+    case "merchant":
+      return runMockMerchant(process.argv.slice(3));
+  }
+  if (process.argv.includes("--http")) {
+    return runHttpServer(process.argv.slice(2), createServer);
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Octo x402 MCP Server running on stdio");
 }
 
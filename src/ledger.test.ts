@@ -0,0 +1,41 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-ledger-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+process.env.X402_PAYMENT_LEDGER = path.join(dir, "payments.jsonl");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { listPayments } = await import("./ledger.js");
+
+// One created payment per timestamp, around the end of January
+const timestamps = ["2025-01-30T23:59:59.999Z", "2025-01-31T00:00:00.000Z", "2025-01-31T23:59:59.999Z", "2025-02-01T00:00:00.000Z"];
+fs.writeFileSync(
+  process.env.X402_PAYMENT_LEDGER,
+  timestamps
+    .map((timestamp, i) => JSON.stringify({ timestamp, stage: "created", paymentId: `0x${i}`, network: "base-sepolia" }))
+    .join("\n") + "\n"
+);
+
+const ids = (filter: Parameters<typeof listPayments>[0]) => listPayments(filter).map((p) => p.paymentId);
+
+test("a date-only until includes that whole day", () => {
+  assert.deepEqual(ids({ until: "2025-01-31" }), ["0x0", "0x1", "0x2"]);
+});
+
+test("a date-only since starts at midnight", () => {
+  assert.deepEqual(ids({ since: "2025-01-31" }), ["0x1", "0x2", "0x3"]);
+  assert.deepEqual(ids({ since: "2025-01-31", until: "2025-01-31" }), ["0x1", "0x2"]);
+});
+
+test("timestamps are compared as given", () => {
+  assert.deepEqual(ids({ until: "2025-01-31T00:00:00Z" }), ["0x0", "0x1"]);
+});
+
+test("an invalid date is refused", () => {
+  assert.throws(() => listPayments({ until: "end of month" }), /Invalid until date/);
+});
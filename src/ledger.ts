@@ -0,0 +1,284 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadConfig } from "./config.js";
+import { NETWORKS, findToken } from "./networks.js";
+import { formatAmount } from "./amounts.js";
+import { decodeSolanaTransaction, findPayerSignature } from "./solana.js";
+
+// Append-only JSON Lines record of every payment this server creates,
+// verifies or settles. Each line is one event; a payment's record is folded
+// from its events, linked by the EIP-3009 nonce (EVM) or the payer's
+// transaction signature (Solana).
+
+export const PAYMENT_STAGES = [
+  "created",
+  "verified",
+  "verify_failed",
+  "settled",
+  "settle_failed",
+  // The merchant refused a signed payment without a settlement response
+  "rejected",
+] as const;
+export type PaymentStage = (typeof PAYMENT_STAGES)[number];
+
+export interface LedgerEvent {
+  timestamp: string;
+  stage: PaymentStage;
+  paymentId: string;
+  network: string;
+  wallet?: string;
+  payer?: string;
+  payTo?: string;
+  asset?: string;
+  amount?: string;
+  resource?: string;
+  nonce?: string;
+  signature?: string;
+  transaction?: string;
+  // Facilitator id, "local" for offline verification or "merchant" for x402_fetch
+  facilitator?: string;
+  response?: any;
+}
+
+export interface PaymentRecord {
+  paymentId: string;
+  // Stage of the latest event; once settled, a payment stays settled
+  status: PaymentStage;
+  network: string;
+  wallet?: string;
+  payer?: string;
+  payTo?: string;
+  asset?: string;
+  amount?: string;
+  amountFormatted?: string;
+  resource?: string;
+  nonce?: string;
+  signature?: string;
+  transaction?: string;
+  createdAt?: string;
+  verifiedAt?: string;
+  settledAt?: string;
+  updatedAt: string;
+  events: Pick<LedgerEvent, "stage" | "timestamp" | "facilitator" | "response" | "transaction">[];
+}
+
+export interface PaymentFilter {
+  // ISO dates or timestamps, compared with the payment's first event. Both
+  // are inclusive; a date-only until (2025-01-31) covers that whole UTC day.
+  since?: string;
+  until?: string;
+  network?: string;
+  // Wallet alias or payer address
+  wallet?: string;
+  status?: PaymentStage;
+}
+
+export interface PaymentEventDetails {
+  wallet?: string;
+  payer?: string;
+  transaction?: string;
+  facilitator?: string;
+  response?: any;
+}
+
+export function getPaymentLedgerPath(): string {
+  return (
+    process.env.X402_PAYMENT_LEDGER ||
+    loadConfig().ledger?.file ||
+    path.join(os.homedir(), ".octo-x402", "payments.jsonl")
+  );
+}
+
+// Who pays, and the id linking the payment's events, from the payload itself
+function identifyPayment(paymentPayload: any, network: string) {
+  const authorization = paymentPayload?.payload?.authorization;
+  if (authorization?.nonce) {
+    const nonce = String(authorization.nonce).toLowerCase();
+    return { paymentId: nonce, nonce, payer: authorization.from };
+  }
+
+  const base64Tx = paymentPayload?.payload?.transaction;
+  if (typeof base64Tx === "string" && NETWORKS[network]?.type === "svm") {
+    try {
+      const found = findPayerSignature(decodeSolanaTransaction(base64Tx));
+      if (found) {
+        return { paymentId: found.signature, signature: found.signature, payer: found.signer };
+      }
+    } catch {
+      // Undecodable transactions are still recorded, under a content id
+    }
+  }
+  return { paymentId: `unidentified:${String(base64Tx ?? JSON.stringify(paymentPayload)).slice(0, 64)}` };
+}
+
+// Record one stage of a payment. A ledger that cannot be written must not
+// fail the payment itself, so errors are only logged.
+export function recordPaymentEvent(
+  stage: PaymentStage,
+  paymentPayload: any,
+  paymentRequirements: any,
+  details: PaymentEventDetails = {}
+) {
+  try {
+    const network = paymentRequirements?.network ?? paymentPayload?.network;
+    const { payer, ...identity } = identifyPayment(paymentPayload, network);
+    const event: LedgerEvent = {
+      timestamp: new Date().toISOString(),
+      stage,
+      ...identity,
+      network,
+      ...(details.wallet ? { wallet: details.wallet } : {}),
+      payer: details.payer ?? payer,
+      payTo: paymentRequirements?.payTo,
+      asset: paymentRequirements?.asset,
+      amount: paymentRequirements?.maxAmountRequired,
+      resource: paymentRequirements?.resource,
+      ...(details.transaction ? { transaction: details.transaction } : {}),
+      ...(details.facilitator ? { facilitator: details.facilitator } : {}),
+      ...(details.response !== undefined ? { response: details.response } : {}),
+    };
+
+    const file = getPaymentLedgerPath();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, JSON.stringify(event) + "\n");
+  } catch (error: any) {
+    console.error(`Could not record ${stage} payment in the ledger: ${error.message}`);
+  }
+}
+
+function readEvents(): LedgerEvent[] {
+  const file = getPaymentLedgerPath();
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+const STAGE_TIMESTAMPS: Partial<Record<PaymentStage, "createdAt" | "verifiedAt" | "settledAt">> = {
+  created: "createdAt",
+  verified: "verifiedAt",
+  settled: "settledAt",
+};
+
+// Payment record fields in output order, also the CSV columns
+const RECORD_FIELDS = [
+  "paymentId",
+  "status",
+  "network",
+  "wallet",
+  "payer",
+  "payTo",
+  "asset",
+  "amount",
+  "amountFormatted",
+  "resource",
+  "nonce",
+  "signature",
+  "transaction",
+  "createdAt",
+  "verifiedAt",
+  "settledAt",
+  "updatedAt",
+] as const;
+
+function foldEvents(events: LedgerEvent[]): PaymentRecord[] {
+  const records = new Map<string, PaymentRecord>();
+
+  for (const event of events) {
+    const key = `${event.network}:${event.paymentId}`;
+    const record =
+      records.get(key) ??
+      ({ paymentId: event.paymentId, network: event.network, events: [] } as unknown as PaymentRecord);
+    records.set(key, record);
+
+    // Later events fill in what earlier ones did not know
+    for (const field of ["wallet", "payer", "payTo", "asset", "amount", "resource", "nonce", "signature", "transaction"] as const) {
+      if (event[field]) {
+        record[field] = event[field];
+      }
+    }
+    const stamp = STAGE_TIMESTAMPS[event.stage];
+    if (stamp && !record[stamp]) {
+      record[stamp] = event.timestamp;
+    }
+    // A replayed settlement failing later does not undo the first one
+    if (record.status !== "settled") {
+      record.status = event.stage;
+    }
+    record.updatedAt = event.timestamp;
+    record.events.push({
+      stage: event.stage,
+      timestamp: event.timestamp,
+      ...(event.facilitator ? { facilitator: event.facilitator } : {}),
+      ...(event.transaction ? { transaction: event.transaction } : {}),
+      ...(event.response !== undefined ? { response: event.response } : {}),
+    });
+  }
+
+  return [...records.values()].map((record) => {
+    const token = record.asset ? findToken(record.network, record.asset) : undefined;
+    if (token && record.amount) {
+      record.amountFormatted = formatAmount(BigInt(record.amount), token);
+    }
+    // Same field order as the CSV export, then the history
+    const fields = RECORD_FIELDS.filter((field) => record[field] !== undefined);
+    return {
+      ...Object.fromEntries(fields.map((field) => [field, record[field]])),
+      events: record.events,
+    } as PaymentRecord;
+  });
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string, name: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return time;
+}
+
+// Payments matching the filter, oldest first
+export function listPayments(filter: PaymentFilter = {}): PaymentRecord[] {
+  const since = filter.since ? parseDate(filter.since, "since") : -Infinity;
+  const until = filter.until
+    ? parseDate(filter.until, "until") + (DATE_ONLY.test(filter.until.trim()) ? DAY_MS - 1 : 0)
+    : Infinity;
+  const wallet = filter.wallet?.toLowerCase();
+
+  return foldEvents(readEvents()).filter((record) => {
+    const started = Date.parse(record.events[0].timestamp);
+    return (
+      started >= since &&
+      started <= until &&
+      (!filter.network || record.network === filter.network) &&
+      (!filter.status || record.status === filter.status) &&
+      (!wallet || record.wallet?.toLowerCase() === wallet || record.payer?.toLowerCase() === wallet)
+    );
+  });
+}
+
+function csvField(value: string | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// CSV has one row per payment without the event history; JSON keeps it
+export function exportPayments(records: PaymentRecord[], format: "csv" | "json"): string {
+  if (format === "json") {
+    return JSON.stringify(records, null, 2);
+  }
+  return [
+    RECORD_FIELDS.join(","),
+    ...records.map((record) => RECORD_FIELDS.map((column) => csvField(record[column])).join(",")),
+  ].join("\n");
+}
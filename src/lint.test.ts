@@ -0,0 +1,227 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-lint-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { lintPaymentRequirements } = await import("./lint.js");
+
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAY_TO = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+const SOLANA_USDC = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+const SOLANA_PAY_TO = "2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4";
+
+const evm = (overrides: Record<string, unknown> = {}) => ({
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "10000",
+  resource: "https://api.example.com/premium",
+  description: "Premium data",
+  mimeType: "application/json",
+  payTo: PAY_TO,
+  maxTimeoutSeconds: 300,
+  asset: USDC,
+  extra: { name: "USDC", version: "2" },
+  ...overrides,
+});
+
+const svm = (overrides: Record<string, unknown> = {}) =>
+  evm({ network: "solana-devnet", payTo: SOLANA_PAY_TO, asset: SOLANA_USDC, extra: undefined, ...overrides });
+
+test("conforming requirements have no findings", () => {
+  for (const body of [evm(), svm(), { x402Version: 1, error: "X-PAYMENT header is required", accepts: [evm(), svm()] }]) {
+    assert.deepEqual(lintPaymentRequirements(body), { valid: true, errors: 0, warnings: 0, findings: [] });
+  }
+});
+
+// One input per finding code, with the only finding it should produce
+const cases: [string, unknown, { severity: string; code: string; field: string; fix: string | RegExp }][] = [
+  [
+    "not an object",
+    "requirements",
+    {
+      severity: "error",
+      code: "invalid_requirements",
+      field: "(requirements)",
+      fix: "Send an object with scheme, network, maxAmountRequired, payTo, asset and resource",
+    },
+  ],
+  [
+    "another scheme",
+    evm({ scheme: "upto" }),
+    { severity: "error", code: "unsupported_scheme", field: "scheme", fix: 'Set scheme to "exact"' },
+  ],
+  [
+    "a decimal amount",
+    evm({ maxAmountRequired: "0.01" }),
+    {
+      severity: "error",
+      code: "invalid_amount",
+      field: "maxAmountRequired",
+      fix: 'Give the price as a string of token base units, e.g. "10000" for 0.01 USDC',
+    },
+  ],
+  [
+    "a zero amount",
+    evm({ maxAmountRequired: "0" }),
+    { severity: "error", code: "non_positive_amount", field: "maxAmountRequired", fix: "Charge a positive amount of base units" },
+  ],
+  [
+    "no timeout",
+    evm({ maxTimeoutSeconds: undefined }),
+    { severity: "warning", code: "missing_timeout", field: "maxTimeoutSeconds", fix: "Set maxTimeoutSeconds, e.g. 300" },
+  ],
+  [
+    "a fractional timeout",
+    evm({ maxTimeoutSeconds: 1.5 }),
+    {
+      severity: "error",
+      code: "invalid_timeout",
+      field: "maxTimeoutSeconds",
+      fix: "Set maxTimeoutSeconds to a whole number of seconds, e.g. 300",
+    },
+  ],
+  [
+    "a timeout over an hour",
+    evm({ maxTimeoutSeconds: 86400 }),
+    { severity: "warning", code: "timeout_out_of_range", field: "maxTimeoutSeconds", fix: "Use at most 3600 seconds" },
+  ],
+  [
+    "no resource",
+    evm({ resource: "" }),
+    {
+      severity: "error",
+      code: "missing_resource",
+      field: "resource",
+      fix: "Set resource to the absolute URL of the paid endpoint",
+    },
+  ],
+  [
+    "a relative resource",
+    evm({ resource: "/premium" }),
+    {
+      severity: "error",
+      code: "invalid_resource",
+      field: "resource",
+      fix: "Use the absolute URL, e.g. https://api.example.com/premium",
+    },
+  ],
+  [
+    "an unknown network",
+    evm({ network: "base-goerli" }),
+    { severity: "error", code: "unknown_network", field: "network", fix: /^Use one of base, .*base-sepolia.*, or register the network in x402\.config\.json$/ },
+  ],
+  [
+    "no payTo",
+    evm({ payTo: undefined }),
+    { severity: "error", code: "missing_pay_to", field: "payTo", fix: "Set payTo to the merchant's receiving address" },
+  ],
+  [
+    "a Solana payTo on an EVM network",
+    evm({ payTo: SOLANA_PAY_TO }),
+    { severity: "error", code: "invalid_address", field: "payTo", fix: "Use a 0x address of 40 hex characters" },
+  ],
+  [
+    "an EVM payTo on Solana",
+    svm({ payTo: PAY_TO }),
+    { severity: "error", code: "invalid_address", field: "payTo", fix: "Use the base58 public key of the receiving wallet" },
+  ],
+  [
+    "a payTo with a broken checksum",
+    evm({ payTo: PAY_TO.replace("Bc6", "bc6") }),
+    {
+      severity: "error",
+      code: "invalid_address_checksum",
+      field: "payTo",
+      fix: `Copy the address again; if only the casing is wrong it is ${PAY_TO}`,
+    },
+  ],
+  [
+    "a lowercase payTo",
+    evm({ payTo: PAY_TO.toLowerCase() }),
+    { severity: "warning", code: "address_not_checksummed", field: "payTo", fix: `Use the checksummed form ${PAY_TO}` },
+  ],
+  [
+    "a token symbol for asset",
+    evm({ asset: "USDC" }),
+    {
+      severity: "error",
+      code: "unknown_asset",
+      field: "asset",
+      fix: `asset takes the token address, not its symbol: use ${USDC}`,
+    },
+  ],
+  [
+    "no extra on a token with a registered domain",
+    evm({ extra: undefined }),
+    { severity: "warning", code: "missing_eip712_domain", field: "extra", fix: 'Set extra to {"name":"USDC","version":"2"}' },
+  ],
+  [
+    "extra that is not an object",
+    evm({ extra: "USDC" }),
+    { severity: "error", code: "invalid_extra", field: "extra", fix: "Make extra an object, or leave it out" },
+  ],
+  [
+    "an extra field facilitators ignore",
+    svm({ extra: { name: "USDC" } }),
+    { severity: "warning", code: "unknown_extra_field", field: "extra.name", fix: "Remove it; the known extra fields are feePayer" },
+  ],
+  [
+    "another EIP-712 domain name",
+    evm({ extra: { name: "USD Coin", version: "2" } }),
+    {
+      severity: "warning",
+      code: "eip712_domain_mismatch",
+      field: "extra.name",
+      fix: 'Set extra.name to "USDC" unless the token contract says otherwise',
+    },
+  ],
+  [
+    "a fee payer that is not a Solana address",
+    svm({ extra: { feePayer: PAY_TO } }),
+    {
+      severity: "error",
+      code: "invalid_address",
+      field: "extra.feePayer",
+      fix: "Use the facilitator's fee payer public key, or leave it out",
+    },
+  ],
+  [
+    "an envelope of another x402 version",
+    { x402Version: 2, accepts: [evm()] },
+    { severity: "error", code: "invalid_x402_version", field: "x402Version", fix: "Set x402Version to 1" },
+  ],
+  [
+    "an envelope without options",
+    { x402Version: 1, accepts: [] },
+    { severity: "error", code: "empty_accepts", field: "accepts", fix: "Put one requirements object per network in accepts" },
+  ],
+  [
+    "a bad option inside an envelope",
+    { x402Version: 1, accepts: [evm(), svm({ maxAmountRequired: "-5" })] },
+    { severity: "error", code: "non_positive_amount", field: "accepts.1.maxAmountRequired", fix: "Charge a positive amount of base units" },
+  ],
+];
+
+for (const [name, body, expected] of cases) {
+  test(`${expected.code}: ${name}`, () => {
+    const result = lintPaymentRequirements(body);
+    assert.equal(result.findings.length, 1, JSON.stringify(result.findings));
+    const [finding] = result.findings;
+    assert.equal(finding.code, expected.code);
+    assert.equal(finding.severity, expected.severity);
+    assert.equal(finding.field, expected.field);
+    if (typeof expected.fix === "string") {
+      assert.equal(finding.fix, expected.fix);
+    } else {
+      assert.match(finding.fix, expected.fix);
+    }
+    assert.equal(result.valid, expected.severity !== "error");
+    assert.equal(result.errors + result.warnings, 1);
+  });
+}
@@ -0,0 +1,309 @@
+import { ethers } from "ethers";
+import { NETWORKS, TokenConfig, getNetwork } from "./networks.js";
+import { isEvmAddress, isSolanaAddress } from "./schemas.js";
+
+// Conformance checks for the payment requirements a merchant sends in its
+// 402 response. Everything is checked offline against the network and token
+// registry, so mistakes surface here instead of as a facilitator rejection.
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintFinding {
+  severity: LintSeverity;
+  code: string;
+  // Dotted path of the field, e.g. "accepts.0.payTo"
+  field: string;
+  message: string;
+  fix: string;
+}
+
+export interface LintResult {
+  // No errors; warnings alone do not make requirements invalid
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  findings: LintFinding[];
+}
+
+// extra fields a facilitator reads, per network type
+const KNOWN_EXTRA_FIELDS = {
+  evm: ["name", "version"],
+  svm: ["feePayer"],
+};
+
+const MAX_TIMEOUT_SECONDS = 3600;
+
+type Report = (severity: LintSeverity, code: string, field: string, message: string, fix: string) => void;
+
+function lintAddress(report: Report, field: string, network: string, value: string) {
+  if (getNetwork(network).type === "svm") {
+    if (!isSolanaAddress(value)) {
+      report(
+        "error",
+        "invalid_address",
+        field,
+        `"${value}" is not a Solana address`,
+        "Use the base58 public key of the receiving wallet"
+      );
+    }
+    return;
+  }
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    report(
+      "error",
+      "invalid_address",
+      field,
+      `"${value}" is not an EVM address`,
+      "Use a 0x address of 40 hex characters"
+    );
+  } else if (!isEvmAddress(value)) {
+    report(
+      "error",
+      "invalid_address_checksum",
+      field,
+      `${value} fails its EIP-55 checksum, so it may contain a typo`,
+      `Copy the address again; if only the casing is wrong it is ${ethers.getAddress(value.toLowerCase())}`
+    );
+  } else if (value !== ethers.getAddress(value)) {
+    report(
+      "warning",
+      "address_not_checksummed",
+      field,
+      `${value} has no EIP-55 checksum`,
+      `Use the checksummed form ${ethers.getAddress(value)}`
+    );
+  }
+}
+
+function lintAmount(report: Report, field: string, amount: any) {
+  if (typeof amount !== "string" || !/^-?\d+$/.test(amount)) {
+    report(
+      "error",
+      "invalid_amount",
+      field,
+      amount === undefined
+        ? "maxAmountRequired is missing"
+        : `maxAmountRequired ${JSON.stringify(amount)} is not an integer string`,
+      'Give the price as a string of token base units, e.g. "10000" for 0.01 USDC'
+    );
+  } else if (BigInt(amount) <= 0n) {
+    report(
+      "error",
+      "non_positive_amount",
+      field,
+      `maxAmountRequired is ${amount}`,
+      "Charge a positive amount of base units"
+    );
+  }
+}
+
+function lintTimeout(report: Report, field: string, timeout: any) {
+  if (timeout === undefined) {
+    report("warning", "missing_timeout", field, "maxTimeoutSeconds is missing", "Set maxTimeoutSeconds, e.g. 300");
+  } else if (!Number.isInteger(timeout) || timeout <= 0) {
+    report(
+      "error",
+      "invalid_timeout",
+      field,
+      `maxTimeoutSeconds ${JSON.stringify(timeout)} is not a positive integer`,
+      "Set maxTimeoutSeconds to a whole number of seconds, e.g. 300"
+    );
+  } else if (timeout > MAX_TIMEOUT_SECONDS) {
+    report(
+      "warning",
+      "timeout_out_of_range",
+      field,
+      `maxTimeoutSeconds ${timeout} is over ${MAX_TIMEOUT_SECONDS}, so signed payments stay valid that long`,
+      `Use at most ${MAX_TIMEOUT_SECONDS} seconds`
+    );
+  }
+}
+
+function lintResource(report: Report, field: string, resource: any) {
+  if (typeof resource !== "string" || resource === "") {
+    report(
+      "error",
+      "missing_resource",
+      field,
+      "resource is missing",
+      "Set resource to the absolute URL of the paid endpoint"
+    );
+  } else if (!/^https?:\/\/[^\s/?#]+[^\s]*$/i.test(resource)) {
+    report(
+      "error",
+      "invalid_resource",
+      field,
+      /^[a-z][a-z0-9+.-]*:/i.test(resource)
+        ? `resource ${resource} is not an http(s) URL`
+        : `resource ${resource} is a relative URL`,
+      resource.startsWith("/")
+        ? `Use the absolute URL, e.g. https://api.example.com${resource}`
+        : "Use the absolute http(s) URL of the paid endpoint"
+    );
+  }
+}
+
+function lintExtra(report: Report, at: (field: string) => string, network: string, extra: any, token?: TokenConfig) {
+  const { type } = getNetwork(network);
+  if (extra === undefined || extra === null) {
+    if (type === "evm" && token?.eip712) {
+      report(
+        "warning",
+        "missing_eip712_domain",
+        at("extra"),
+        `extra has no EIP-712 domain for ${token.symbol}, so payers must look it up`,
+        `Set extra to ${JSON.stringify(token.eip712)}`
+      );
+    }
+    return;
+  }
+  if (typeof extra !== "object" || Array.isArray(extra)) {
+    report("error", "invalid_extra", at("extra"), "extra must be an object", "Make extra an object, or leave it out");
+    return;
+  }
+
+  const known = KNOWN_EXTRA_FIELDS[type];
+  for (const key of Object.keys(extra).filter((k) => !known.includes(k))) {
+    report(
+      "warning",
+      "unknown_extra_field",
+      at(`extra.${key}`),
+      `extra.${key} is not read by facilitators on ${type === "evm" ? "EVM" : "Solana"} networks`,
+      `Remove it; the known extra fields are ${known.join(", ")}`
+    );
+  }
+
+  if (type === "evm" && token?.eip712) {
+    for (const key of ["name", "version"] as const) {
+      if (extra[key] !== undefined && extra[key] !== token.eip712[key]) {
+        report(
+          "warning",
+          "eip712_domain_mismatch",
+          at(`extra.${key}`),
+          `extra.${key} is "${extra[key]}" but ${token.symbol} is registered with "${token.eip712[key]}"; signatures over the wrong domain fail verification`,
+          `Set extra.${key} to "${token.eip712[key]}" unless the token contract says otherwise`
+        );
+      }
+    }
+  }
+  if (type === "svm" && extra.feePayer !== undefined && !isSolanaAddress(String(extra.feePayer))) {
+    report(
+      "error",
+      "invalid_address",
+      at("extra.feePayer"),
+      `extra.feePayer ${JSON.stringify(extra.feePayer)} is not a Solana address`,
+      "Use the facilitator's fee payer public key, or leave it out"
+    );
+  }
+}
+
+function lintRequirements(report: Report, prefix: string, requirements: any) {
+  const at = (field: string) => (prefix ? `${prefix}.${field}` : field);
+
+  if (typeof requirements !== "object" || requirements === null || Array.isArray(requirements)) {
+    report(
+      "error",
+      "invalid_requirements",
+      prefix || "(requirements)",
+      "Payment requirements must be an object",
+      "Send an object with scheme, network, maxAmountRequired, payTo, asset and resource"
+    );
+    return;
+  }
+
+  if (requirements.scheme !== "exact") {
+    report(
+      "error",
+      "unsupported_scheme",
+      at("scheme"),
+      requirements.scheme === undefined ? "scheme is missing" : `Unsupported scheme "${requirements.scheme}"`,
+      'Set scheme to "exact"'
+    );
+  }
+  lintAmount(report, at("maxAmountRequired"), requirements.maxAmountRequired);
+  lintTimeout(report, at("maxTimeoutSeconds"), requirements.maxTimeoutSeconds);
+  lintResource(report, at("resource"), requirements.resource);
+
+  const { network, payTo, asset } = requirements;
+  if (!NETWORKS[network]) {
+    report(
+      "error",
+      "unknown_network",
+      at("network"),
+      network === undefined ? "network is missing" : `Unknown network "${network}"`,
+      `Use one of ${Object.keys(NETWORKS).join(", ")}, or register the network in x402.config.json`
+    );
+    // payTo, asset and extra are checked against the network
+    return;
+  }
+  const networkConfig = getNetwork(network);
+
+  if (typeof payTo !== "string") {
+    report("error", "missing_pay_to", at("payTo"), "payTo is missing", "Set payTo to the merchant's receiving address");
+  } else {
+    lintAddress(report, at("payTo"), network, payTo);
+  }
+
+  // Matched by address only: requirements carry the token address, never its symbol
+  const evm = networkConfig.type === "evm";
+  const token =
+    typeof asset === "string"
+      ? networkConfig.tokens.find((t) => (evm ? t.address.toLowerCase() === asset.toLowerCase() : t.address === asset))
+      : undefined;
+  if (!token) {
+    const bySymbol =
+      typeof asset === "string"
+        ? networkConfig.tokens.find((t) => t.symbol.toLowerCase() === asset.toLowerCase())
+        : undefined;
+    report(
+      "error",
+      "unknown_asset",
+      at("asset"),
+      asset === undefined ? "asset is missing" : `${asset} is not a known token on ${network}`,
+      bySymbol
+        ? `asset takes the token address, not its symbol: use ${bySymbol.address}`
+        : `Use a token registered for ${network}: ${networkConfig.tokens.map((t) => `${t.symbol} ${t.address}`).join(", ")}`
+    );
+  } else if (evm && asset !== token.address) {
+    report("warning", "address_not_checksummed", at("asset"), `${asset} has no EIP-55 checksum`, `Use ${token.address}`);
+  }
+
+  lintExtra(report, at, network, requirements.extra, token);
+}
+
+// Lint a bare requirements object or a full 402 envelope
+// ({ x402Version, error, accepts: [...] }). Every problem is reported, not
+// just the first.
+export function lintPaymentRequirements(body: any): LintResult {
+  const findings: LintFinding[] = [];
+  const report: Report = (severity, code, field, message, fix) =>
+    findings.push({ severity, code, field, message, fix });
+
+  if (body && typeof body === "object" && "accepts" in body) {
+    if (body.x402Version !== 1) {
+      report(
+        "error",
+        "invalid_x402_version",
+        "x402Version",
+        `Unsupported x402Version ${JSON.stringify(body.x402Version)}`,
+        "Set x402Version to 1"
+      );
+    }
+    if (!Array.isArray(body.accepts) || body.accepts.length === 0) {
+      report(
+        "error",
+        "empty_accepts",
+        "accepts",
+        "accepts must list at least one payment option",
+        "Put one requirements object per network in accepts"
+      );
+    } else {
+      body.accepts.forEach((requirements: any, i: number) => lintRequirements(report, `accepts.${i}`, requirements));
+    }
+  } else {
+    lintRequirements(report, "", body);
+  }
+
+  const errors = findings.filter((f) => f.severity === "error").length;
+  return { valid: errors === 0, errors, warnings: findings.length - errors, findings };
+}
@@ -0,0 +1,79 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import { ethers } from "ethers";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-mock-facilitator-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+
+const { startMockFacilitator } = await import("./mock-facilitator.js");
+const { signEvmPayment } = await import("./evm.js");
+
+let facilitator: Awaited<ReturnType<typeof startMockFacilitator>>;
+before(async () => {
+  facilitator = await startMockFacilitator({ port: 0 });
+});
+after(async () => {
+  await facilitator.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const requirements = (resource = "https://api.example.com/premium") => ({
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "10000",
+  resource,
+  payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: { name: "USDC", version: "2" },
+});
+
+async function post(endpoint: string, paymentPayload: any, paymentRequirements: any) {
+  const response = await fetch(`${facilitator.url}${endpoint}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ paymentPayload, paymentRequirements }),
+  });
+  return response.json();
+}
+
+test("a payment verifies and settles once", async () => {
+  const signer = ethers.Wallet.createRandom();
+  const paymentPayload = await signEvmPayment(signer, "base-sepolia", requirements());
+
+  assert.deepEqual(await post("/verify", paymentPayload, requirements()), { isValid: true, payer: signer.address });
+  const settled = await post("/settle", paymentPayload, requirements());
+  assert.equal(settled.success, true);
+  assert.match(settled.transaction, /^0x[0-9a-f]{64}$/);
+  assert.equal(facilitator.settlements.at(-1)!.transaction, settled.transaction);
+
+  const again = await post("/settle", paymentPayload, requirements());
+  assert.equal(again.success, false);
+  assert.equal(again.errorReason, "payment_already_settled");
+});
+
+test("a nonce already settled is refused when signed again for another resource", async () => {
+  const signer = ethers.Wallet.createRandom();
+  const nonce = ethers.hexlify(ethers.randomBytes(32));
+  const first = await signEvmPayment(signer, "base-sepolia", requirements(), nonce);
+  assert.equal((await post("/settle", first, requirements())).success, true);
+
+  const other = requirements("https://api.example.com/other");
+  const replayed = await signEvmPayment(signer, "base-sepolia", other, nonce);
+  assert.equal((await post("/verify", replayed, other)).isValid, true);
+  assert.equal((await post("/settle", replayed, other)).errorReason, "payment_already_settled");
+
+  // The same nonce from another payer is another payment
+  const stranger = await signEvmPayment(ethers.Wallet.createRandom(), "base-sepolia", other, nonce);
+  assert.equal((await post("/settle", stranger, other)).success, true);
+});
+
+test("an invalid payment is neither verified nor settled", async () => {
+  const paymentPayload = await signEvmPayment(ethers.Wallet.createRandom(), "base-sepolia", requirements());
+  const underpaid = { ...requirements(), maxAmountRequired: "20000" };
+  assert.equal((await post("/verify", paymentPayload, underpaid)).invalidReason, "invalid_exact_evm_payload_authorization_value");
+  assert.equal((await post("/settle", paymentPayload, underpaid)).success, false);
+});
@@ -0,0 +1,251 @@
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import { parseArgs } from "util";
+import bs58 from "bs58";
+import { NETWORKS } from "./networks.js";
+import { LocalVerifyResult } from "./checks.js";
+import { verifyEvmPaymentLocally } from "./evm.js";
+import { verifySolanaPaymentLocally } from "./solana.js";
+import { replayKey } from "./replay.js";
+
+// Local stand-in for the facilitator: /verify checks payments with the same
+// offline checks as x402_verify_payment's local mode, and /settle returns a
+// fake transaction instead of broadcasting. Nothing leaves the machine.
+
+export interface MockFacilitatorOptions {
+  port?: number;
+  host?: string;
+  // Reject every /verify and /settle with this invalidReason
+  failVerify?: string;
+  // Fail every /settle with this errorReason
+  failSettle?: string;
+  // Chance (0-1) that a settlement fails with "unexpected_settle_error"
+  failureRate?: number;
+  // Delay before every response
+  latencyMs?: number;
+  // Append each settlement to this file as a JSON line
+  recordFile?: string;
+}
+
+export interface SettlementRecord {
+  transaction: string;
+  network: string;
+  payer?: string;
+  payTo: string;
+  asset: string;
+  amount: string;
+  resource?: string;
+  settledAt: string;
+}
+
+export interface MockFacilitator {
+  url: string;
+  server: http.Server;
+  settlements: SettlementRecord[];
+  close(): Promise<void>;
+}
+
+const DEFAULT_PORT = 4020;
+const DEFAULT_HOST = "127.0.0.1";
+
+function verifyLocally(paymentPayload: any, paymentRequirements: any): LocalVerifyResult {
+  const network = NETWORKS[paymentRequirements?.network];
+  if (!network) {
+    return { isValid: false, invalidReason: "invalid_network", checks: [] };
+  }
+  return network.type === "svm"
+    ? verifySolanaPaymentLocally(paymentPayload, paymentRequirements)
+    : verifyEvmPaymentLocally(paymentPayload, paymentRequirements);
+}
+
+function fakeTransaction(network: string): string {
+  return NETWORKS[network].type === "svm"
+    ? bs58.encode(crypto.randomBytes(64))
+    : `0x${crypto.randomBytes(32).toString("hex")}`;
+}
+
+function readBody(request: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    request.on("data", (chunk) => (raw += chunk));
+    request.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error: any) {
+        reject(new Error(`Invalid JSON body: ${error.message}`));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+export function startMockFacilitator(options: MockFacilitatorOptions = {}): Promise<MockFacilitator> {
+  const settlements: SettlementRecord[] = [];
+  const settledKeys = new Set<string>();
+  const stats = { verified: 0, verifyFailed: 0, settled: 0, settleFailed: 0 };
+  const startedAt = Date.now();
+
+  // The facilitator's /verify response: { isValid, invalidReason?, payer? }
+  function check(paymentPayload: any, paymentRequirements: any) {
+    const { isValid, invalidReason, payer }: Omit<LocalVerifyResult, "checks"> = options.failVerify
+      ? { isValid: false, invalidReason: options.failVerify }
+      : verifyLocally(paymentPayload, paymentRequirements);
+    return { isValid, ...(invalidReason ? { invalidReason } : {}), ...(payer ? { payer } : {}) };
+  }
+
+  function verify(paymentPayload: any, paymentRequirements: any) {
+    const result = check(paymentPayload, paymentRequirements);
+    if (result.isValid) {
+      stats.verified++;
+    } else {
+      stats.verifyFailed++;
+    }
+    return result;
+  }
+
+  function settle(paymentPayload: any, paymentRequirements: any) {
+    const network = paymentRequirements.network;
+    const verification = check(paymentPayload, paymentRequirements);
+    // The same notion of "the same payment" as the replay registry
+    const key = replayKey(paymentPayload, paymentRequirements)?.key;
+
+    let errorReason = verification.invalidReason;
+    if (!errorReason && key && settledKeys.has(key)) {
+      errorReason = "payment_already_settled";
+    } else if (!errorReason && options.failSettle) {
+      errorReason = options.failSettle;
+    } else if (!errorReason && Math.random() < (options.failureRate ?? 0)) {
+      errorReason = "unexpected_settle_error";
+    }
+    if (errorReason) {
+      stats.settleFailed++;
+      return { success: false, errorReason, transaction: "", network, payer: verification.payer };
+    }
+
+    const record: SettlementRecord = {
+      transaction: fakeTransaction(network),
+      network,
+      payer: verification.payer,
+      payTo: paymentRequirements.payTo,
+      asset: paymentRequirements.asset,
+      amount: String(paymentRequirements.maxAmountRequired),
+      resource: paymentRequirements.resource,
+      settledAt: new Date().toISOString(),
+    };
+    if (key) {
+      settledKeys.add(key);
+    }
+    settlements.push(record);
+    stats.settled++;
+    if (options.recordFile) {
+      fs.appendFileSync(options.recordFile, `${JSON.stringify(record)}\n`);
+    }
+    return { success: true, transaction: record.transaction, network, payer: record.payer };
+  }
+
+  async function route(method: string, path: string, body: any): Promise<[number, any]> {
+    switch (`${method} ${path}`) {
+      case "GET /health":
+        return [200, { status: "ok", mock: true, uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000) }];
+      case "GET /supported":
+        return [
+          200,
+          { kinds: Object.keys(NETWORKS).map((network) => ({ x402Version: 1, scheme: "exact", network })) },
+        ];
+      case "GET /stats":
+        return [200, { ...stats, mock: true }];
+      case "GET /settlements":
+        return [200, { settlements }];
+      case "POST /verify":
+      case "POST /settle": {
+        const { paymentPayload, paymentRequirements } = body;
+        if (!paymentPayload || !paymentRequirements) {
+          return [400, { error: "Body must contain paymentPayload and paymentRequirements" }];
+        }
+        return [
+          200,
+          path === "/verify"
+            ? verify(paymentPayload, paymentRequirements)
+            : settle(paymentPayload, paymentRequirements),
+        ];
+      }
+      default:
+        return [404, { error: `No route for ${method} ${path}` }];
+    }
+  }
+
+  const server = http.createServer(async (request, response) => {
+    let status, body;
+    try {
+      const path = new URL(request.url ?? "/", "http://localhost").pathname.replace(/\/+$/, "");
+      [status, body] = await route(request.method ?? "GET", path, await readBody(request));
+    } catch (error: any) {
+      [status, body] = [400, { error: error.message }];
+    }
+    if (options.latencyMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.latencyMs));
+    }
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_PORT, options.host ?? DEFAULT_HOST, () => {
+      const address = server.address() as { address: string; port: number };
+      resolve({
+        url: `http://${options.host ?? DEFAULT_HOST}:${address.port}`,
+        server,
+        settlements,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// octo-x402-mcp facilitator [--port 4020] [--host 127.0.0.1] [--fail-verify reason]
+//   [--fail-settle reason] [--failure-rate 0.1] [--latency 200] [--record settlements.jsonl]
+export async function runMockFacilitator(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: "string" },
+      host: { type: "string" },
+      "fail-verify": { type: "string" },
+      "fail-settle": { type: "string" },
+      "failure-rate": { type: "string" },
+      latency: { type: "string" },
+      record: { type: "string" },
+    },
+  });
+
+  const number = (flag: string, value: string | undefined) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`--${flag} must be a non-negative number`);
+    }
+    return parsed;
+  };
+  const failureRate = number("failure-rate", values["failure-rate"]);
+  if (failureRate !== undefined && failureRate > 1) {
+    throw new Error("--failure-rate must be between 0 and 1");
+  }
+
+  const facilitator = await startMockFacilitator({
+    port: number("port", values.port),
+    host: values.host,
+    failVerify: values["fail-verify"],
+    failSettle: values["fail-settle"],
+    failureRate,
+    latencyMs: number("latency", values.latency),
+    recordFile: values.record,
+  });
+
+  console.error(`Mock x402 facilitator listening on ${facilitator.url}`);
+  console.error(`Point the MCP server at it with X402_FACILITATOR_URL=${facilitator.url}`);
+  console.error(`and generated middleware with FACILITATOR_URL=${facilitator.url}`);
+}
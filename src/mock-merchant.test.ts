@@ -0,0 +1,85 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import { ethers } from "ethers";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-mock-merchant-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+
+const { startMockFacilitator } = await import("./mock-facilitator.js");
+const { startMockMerchant } = await import("./mock-merchant.js");
+const { signEvmPayment } = await import("./evm.js");
+const { decodePaymentHeader, encodePaymentHeader } = await import("./payments.js");
+
+// The merchant settles through a mock facilitator, so nothing leaves the machine
+let facilitator: Awaited<ReturnType<typeof startMockFacilitator>>;
+let merchant: Awaited<ReturnType<typeof startMockMerchant>>;
+before(async () => {
+  facilitator = await startMockFacilitator({ port: 0 });
+  merchant = await startMockMerchant(
+    {
+      facilitatorUrl: facilitator.url,
+      routes: [
+        {
+          path: "/weather",
+          price: "$0.01",
+          networks: ["base-sepolia"],
+          payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+          body: { forecast: "sunny" },
+        },
+      ],
+    },
+    { port: 0 }
+  );
+});
+after(async () => {
+  await merchant.close();
+  await facilitator.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("an unpaid request gets a 402, a paid one the content", async () => {
+  const unpaid = await fetch(`${merchant.url}/weather`);
+  assert.equal(unpaid.status, 402);
+  const { accepts } = await unpaid.json();
+  assert.equal(accepts.length, 1);
+  assert.equal(accepts[0].maxAmountRequired, "10000");
+  assert.equal(accepts[0].resource, `${merchant.url}/weather`);
+
+  const signer = ethers.Wallet.createRandom();
+  const header = encodePaymentHeader(await signEvmPayment(signer, "base-sepolia", accepts[0]));
+  const paid = await fetch(`${merchant.url}/weather`, { headers: { "X-PAYMENT": header } });
+  assert.equal(paid.status, 200);
+  assert.deepEqual(await paid.json(), { forecast: "sunny" });
+  const paymentResponse = decodePaymentHeader(paid.headers.get("x-payment-response")!);
+  assert.equal(paymentResponse.success, true);
+  assert.equal(paymentResponse.payer, signer.address);
+  assert.equal(paymentResponse.transaction, facilitator.settlements.at(-1)!.transaction);
+
+  // The same header cannot pay twice
+  const replayed = await fetch(`${merchant.url}/weather`, { headers: { "X-PAYMENT": header } });
+  assert.equal(replayed.status, 402);
+  assert.match((await replayed.json()).error, /payment_already_settled/);
+
+  assert.deepEqual(
+    merchant.requests.map((r) => r.outcome),
+    ["unpaid", "paid", "rejected"]
+  );
+});
+
+test("payments that do not verify are rejected", async () => {
+  const { accepts } = await (await fetch(`${merchant.url}/weather`)).json();
+  const underpaid = await signEvmPayment(ethers.Wallet.createRandom(), "base-sepolia", {
+    ...accepts[0],
+    maxAmountRequired: "1",
+  });
+  const response = await fetch(`${merchant.url}/weather`, { headers: { "X-PAYMENT": encodePaymentHeader(underpaid) } });
+  assert.equal(response.status, 402);
+  assert.match((await response.json()).error, /invalid_exact_evm_payload_authorization_value/);
+
+  assert.equal((await fetch(`${merchant.url}/weather`, { headers: { "X-PAYMENT": "garbage" } })).status, 402);
+  assert.equal((await fetch(`${merchant.url}/other`)).status, 404);
+});
@@ -0,0 +1,319 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { parseArgs } from "util";
+import { NETWORKS, TokenConfig, resolveToken } from "./networks.js";
+import { formatAmount, parseAmount } from "./amounts.js";
+import {
+  FacilitatorConfig,
+  callFacilitator,
+  getPrimaryFacilitator,
+  unwrapFacilitatorData,
+} from "./facilitators.js";
+import { buildPaymentRequired, buildPaymentRequirements } from "./requirements.js";
+import { decodePaymentHeader, encodePaymentHeader } from "./payments.js";
+import { isAddressForNetwork } from "./schemas.js";
+
+// Local paid endpoint for exercising consumers: routes from a config file
+// answer 402 until they get an X-PAYMENT header, which is verified and
+// settled through a facilitator before the route's body is returned.
+
+// One route of the config file, e.g.
+// { "path": "/weather", "price": "$0.01", "networks": ["base-sepolia"],
+//   "payTo": "0x...", "body": { "forecast": "sunny" } }
+export interface MockRouteConfig {
+  path: string;
+  method?: string;
+  // Base units, token units or a dollar price (see parseAmount)
+  price: string;
+  // Token symbol or address, the same on every network (default: each network's first token)
+  asset?: string;
+  networks: string[];
+  // One address for every network, or one per network
+  payTo: string | Record<string, string>;
+  description?: string;
+  mimeType?: string;
+  body?: any;
+}
+
+export interface MockMerchantConfig {
+  // Default: the primary configured facilitator
+  facilitatorUrl?: string;
+  routes: MockRouteConfig[];
+}
+
+export interface MockMerchantOptions {
+  port?: number;
+  host?: string;
+}
+
+export interface RequestLogEntry {
+  time: string;
+  method: string;
+  path: string;
+  status: number;
+  // unpaid (answered 402), paid, rejected (bad or failed payment) or not_found
+  outcome: "unpaid" | "paid" | "rejected" | "not_found";
+  network?: string;
+  payer?: string;
+  transaction?: string;
+  reason?: string;
+}
+
+export interface MockMerchant {
+  url: string;
+  facilitatorUrl: string;
+  server: http.Server;
+  requests: RequestLogEntry[];
+  close(): Promise<void>;
+}
+
+interface PreparedRoute {
+  config: MockRouteConfig;
+  method: string;
+  // Requirements per network, without the resource
+  accepts: { network: string; token: TokenConfig; amount: bigint; payTo: string }[];
+}
+
+const DEFAULT_PORT = 4021;
+const DEFAULT_HOST = "127.0.0.1";
+export const DEFAULT_MERCHANT_CONFIG = "x402.merchant.json";
+
+// Resolve every route's token, price and payTo up front so a bad config
+// fails at startup rather than on the first request
+function prepareRoutes(config: MockMerchantConfig): PreparedRoute[] {
+  if (!Array.isArray(config?.routes) || config.routes.length === 0) {
+    throw new Error('Merchant config needs a non-empty "routes" array');
+  }
+
+  return config.routes.map((route, index) => {
+    const where = `Route #${index + 1}${route?.path ? ` (${route.path})` : ""}`;
+    if (typeof route?.path !== "string" || !route.path.startsWith("/")) {
+      throw new Error(`${where}: "path" must start with "/"`);
+    }
+    if (typeof route.price !== "string") {
+      throw new Error(`${where}: "price" must be a string such as "$0.01" or "10000"`);
+    }
+    if (!Array.isArray(route.networks) || route.networks.length === 0) {
+      throw new Error(`${where}: "networks" must list at least one network`);
+    }
+
+    const accepts = route.networks.map((network) => {
+      if (!NETWORKS[network]) {
+        throw new Error(`${where}: unknown network ${network}`);
+      }
+      const payTo = typeof route.payTo === "string" ? route.payTo : route.payTo?.[network];
+      if (!payTo || !isAddressForNetwork(network, payTo)) {
+        throw new Error(`${where}: "payTo" has no valid ${network} address`);
+      }
+      const token = resolveToken(network, route.asset);
+      let amount;
+      try {
+        amount = parseAmount(route.price, token);
+      } catch (error: any) {
+        throw new Error(`${where}: ${error.message}`);
+      }
+      return { network, token, amount, payTo };
+    });
+
+    return { config: route, method: (route.method ?? "GET").toUpperCase(), accepts };
+  });
+}
+
+export function loadMerchantConfig(file: string): MockMerchantConfig {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Merchant config not found: ${file}`);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Invalid merchant config ${file}: ${error.message}`);
+  }
+}
+
+// 4xx answers (e.g. an invalid payment) are results too
+async function askFacilitator(facilitator: FacilitatorConfig, endpoint: string, body: any) {
+  let data;
+  try {
+    data = (await callFacilitator(facilitator, "post", endpoint, body)).data;
+  } catch (error: any) {
+    if (!error.response || error.response.status >= 500) {
+      throw new Error(`Facilitator ${endpoint} failed: ${error.message}`);
+    }
+    data = error.response.data;
+  }
+  return unwrapFacilitatorData(data);
+}
+
+export function startMockMerchant(
+  config: MockMerchantConfig,
+  options: MockMerchantOptions = {}
+): Promise<MockMerchant> {
+  const routes = prepareRoutes(config);
+  const facilitator: FacilitatorConfig = config.facilitatorUrl
+    ? { id: "merchant", url: config.facilitatorUrl.replace(/\/+$/, "") }
+    : getPrimaryFacilitator();
+  const requests: RequestLogEntry[] = [];
+
+  async function handle(request: http.IncomingMessage): Promise<{
+    status: number;
+    body: any;
+    headers?: Record<string, string>;
+    log: Omit<RequestLogEntry, "time" | "method" | "path" | "status">;
+  }> {
+    const url = new URL(request.url ?? "/", `http://${request.headers.host ?? "localhost"}`);
+    const route = routes.find((r) => r.config.path === url.pathname && r.method === request.method);
+    if (!route) {
+      return {
+        status: 404,
+        body: { error: `No route for ${request.method} ${url.pathname}` },
+        log: { outcome: "not_found" },
+      };
+    }
+
+    const resource = `${url.origin}${url.pathname}`;
+    const accepts = route.accepts.map((accept) =>
+      buildPaymentRequirements({
+        ...accept,
+        resource,
+        description: route.config.description ?? `Mock paid content at ${route.config.path}`,
+        mimeType: route.config.mimeType,
+      })
+    );
+
+    const paymentHeader = request.headers["x-payment"];
+    if (typeof paymentHeader !== "string" || !paymentHeader) {
+      return { status: 402, body: buildPaymentRequired(accepts), log: { outcome: "unpaid" } };
+    }
+
+    const reject = (reason: string, log: Partial<RequestLogEntry> = {}) => ({
+      status: 402,
+      body: buildPaymentRequired(accepts, reason),
+      log: { outcome: "rejected" as const, reason, ...log },
+    });
+
+    let paymentPayload;
+    try {
+      paymentPayload = decodePaymentHeader(paymentHeader);
+    } catch {
+      return reject("X-PAYMENT header is not base64-encoded JSON");
+    }
+    const network = paymentPayload?.network;
+    const paymentRequirements = accepts.find((accept) => accept.network === network);
+    if (!paymentRequirements) {
+      return reject(`Payment is for ${network}; this route accepts ${route.config.networks.join(", ")}`, {
+        network,
+      });
+    }
+
+    const body = { paymentPayload, paymentRequirements };
+    const verification = await askFacilitator(facilitator, "/verify", body);
+    if (!verification?.isValid) {
+      return reject(`Payment verification failed: ${verification?.invalidReason ?? "unknown reason"}`, {
+        network,
+        payer: verification?.payer,
+      });
+    }
+
+    const settlement = await askFacilitator(facilitator, "/settle", body);
+    if (!settlement?.success) {
+      return reject(`Payment settlement failed: ${settlement?.errorReason ?? "unknown reason"}`, {
+        network,
+        payer: verification.payer,
+      });
+    }
+
+    const transaction = settlement.transaction ?? settlement.txHash ?? settlement.signature;
+    const content = route.config.body ?? { data: `Paid content for ${route.config.path}` };
+    return {
+      status: 200,
+      body: content,
+      headers: {
+        ...(typeof content === "string" ? { "Content-Type": route.config.mimeType ?? "text/plain" } : {}),
+        "X-PAYMENT-RESPONSE": encodePaymentHeader({
+          success: true,
+          transaction,
+          network,
+          payer: settlement.payer ?? verification.payer,
+        }),
+      },
+      log: { outcome: "paid", network, payer: settlement.payer ?? verification.payer, transaction },
+    };
+  }
+
+  const server = http.createServer(async (request, response) => {
+    let result;
+    try {
+      result = await handle(request);
+    } catch (error: any) {
+      result = { status: 502, body: { error: error.message }, log: { outcome: "rejected" as const, reason: error.message } };
+    }
+
+    const entry: RequestLogEntry = {
+      time: new Date().toISOString(),
+      method: request.method ?? "GET",
+      path: request.url ?? "/",
+      status: result.status,
+      ...result.log,
+    };
+    requests.push(entry);
+    console.error(
+      [entry.time, entry.method, entry.path, entry.status, entry.outcome, entry.network, entry.transaction ?? entry.reason]
+        .filter(Boolean)
+        .join(" ")
+    );
+
+    const json = typeof result.body !== "string";
+    response.writeHead(result.status, {
+      "Content-Type": json ? "application/json" : "text/plain",
+      ...result.headers,
+    });
+    response.end(json ? JSON.stringify(result.body) : result.body);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_PORT, options.host ?? DEFAULT_HOST, () => {
+      const address = server.address() as { port: number };
+      resolve({
+        url: `http://${options.host ?? DEFAULT_HOST}:${address.port}`,
+        facilitatorUrl: facilitator.url,
+        server,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// octo-x402-mcp merchant [--config x402.merchant.json] [--port 4021] [--host 127.0.0.1]
+//   [--facilitator http://127.0.0.1:4020]
+export async function runMockMerchant(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: "string" },
+      port: { type: "string" },
+      host: { type: "string" },
+      facilitator: { type: "string" },
+    },
+  });
+
+  const port = values.port === undefined ? undefined : Number(values.port);
+  if (port !== undefined && (!Number.isInteger(port) || port < 0)) {
+    throw new Error("--port must be a port number");
+  }
+
+  const configFile = path.resolve(values.config ?? DEFAULT_MERCHANT_CONFIG);
+  const config = loadMerchantConfig(configFile);
+  if (values.facilitator) {
+    config.facilitatorUrl = values.facilitator;
+  }
+
+  const merchant = await startMockMerchant(config, { port, host: values.host });
+  console.error(`Mock x402 merchant listening on ${merchant.url}, settling through ${merchant.facilitatorUrl}`);
+  for (const route of prepareRoutes(config)) {
+    const prices = route.accepts.map((a) => `${formatAmount(a.amount, a.token)} on ${a.network}`);
+    console.error(`  ${route.method} ${route.config.path}: ${prices.join(", ")}`);
+  }
+}
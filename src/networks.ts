@@ -0,0 +1,230 @@
+import { loadConfig, readJsonEnv } from "./config.js";
+
+export interface TokenConfig {
+  symbol: string;
+  address: string;
+  decimals: number;
+  // EIP-712 domain of the token's EIP-3009 transferWithAuthorization (EVM only)
+  eip712?: { name: string; version: string };
+}
+
+export interface NetworkConfig {
+  type: "evm" | "svm";
+  chainId?: number;
+  // JSON-RPC endpoint, e.g. http://127.0.0.1:8545 for a local anvil
+  rpcUrl?: string;
+  // Gas token, for balance reports (default: SOL on Solana, ETH elsewhere)
+  nativeSymbol?: string;
+  name: string;
+  // Payable tokens; the first one is the network's default asset
+  tokens: TokenConfig[];
+}
+
+const usdc = (address: string, eip712Name?: string): TokenConfig => ({
+  symbol: "USDC",
+  address,
+  decimals: 6,
+  ...(eip712Name ? { eip712: { name: eip712Name, version: "2" } } : {}),
+});
+
+// Network configurations
+const BUILTIN_NETWORKS: Record<string, NetworkConfig> = {
+  base: {
+    type: "evm",
+    chainId: 8453,
+    rpcUrl: "https://mainnet.base.org",
+    tokens: [usdc("0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "USD Coin")],
+    name: "Base Mainnet",
+    nativeSymbol: "ETH",
+  },
+  "base-sepolia": {
+    type: "evm",
+    chainId: 84532,
+    rpcUrl: "https://sepolia.base.org",
+    tokens: [usdc("0x036CbD53842c5426634e7929541eC2318f3dCF7e", "USDC")],
+    name: "Base Sepolia Testnet",
+    nativeSymbol: "ETH",
+  },
+  polygon: {
+    type: "evm",
+    chainId: 137,
+    rpcUrl: "https://polygon-rpc.com",
+    tokens: [usdc("0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", "USD Coin")],
+    name: "Polygon Mainnet",
+    nativeSymbol: "POL",
+  },
+  "polygon-amoy": {
+    type: "evm",
+    chainId: 80002,
+    rpcUrl: "https://rpc-amoy.polygon.technology",
+    tokens: [usdc("0x41e94eb019c0762f9bfcf9fb1e58725bfb0e7582", "USDC")],
+    name: "Polygon Amoy Testnet",
+    nativeSymbol: "POL",
+  },
+  avalanche: {
+    type: "evm",
+    chainId: 43114,
+    rpcUrl: "https://api.avax.network/ext/bc/C/rpc",
+    tokens: [usdc("0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", "USD Coin")],
+    name: "Avalanche C-Chain",
+    nativeSymbol: "AVAX",
+  },
+  "avalanche-fuji": {
+    type: "evm",
+    chainId: 43113,
+    rpcUrl: "https://api.avax-test.network/ext/bc/C/rpc",
+    tokens: [usdc("0x5425890298aed601595a70AB815c96711a31Bc65", "USD Coin")],
+    name: "Avalanche Fuji Testnet",
+    nativeSymbol: "AVAX",
+  },
+  solana: {
+    type: "svm",
+    tokens: [usdc("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v")],
+    rpcUrl: "https://api.mainnet-beta.solana.com",
+    name: "Solana Mainnet",
+  },
+  "solana-devnet": {
+    type: "svm",
+    tokens: [usdc("4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU")],
+    rpcUrl: "https://api.devnet.solana.com",
+    name: "Solana Devnet",
+  },
+};
+
+function validateToken(id: string, token: any): TokenConfig {
+  if (!token?.symbol || !token.address || !Number.isInteger(token.decimals)) {
+    throw new Error(`Network "${id}": tokens need a symbol, address and integer decimals`);
+  }
+  if (token.eip712 && (!token.eip712.name || !token.eip712.version)) {
+    throw new Error(`Network "${id}", token ${token.symbol}: eip712 needs a name and version`);
+  }
+  return token;
+}
+
+// Merge a config entry into the registry. Fields of a built-in network are
+// overridden; tokens are matched by symbol, so an entry can replace a
+// built-in token or add new ones. New networks must be fully described.
+function mergeNetwork(id: string, base: NetworkConfig | undefined, entry: any): NetworkConfig {
+  const tokens = [...(base?.tokens ?? [])];
+  for (const token of (entry.tokens ?? []).map((t: any) => validateToken(id, t))) {
+    const existing = tokens.findIndex((t) => t.symbol === token.symbol);
+    if (existing === -1) {
+      tokens.push(token);
+    } else {
+      tokens[existing] = token;
+    }
+  }
+
+  const merged = { ...base, ...entry, tokens } as NetworkConfig;
+  if (merged.type !== "evm" && merged.type !== "svm") {
+    throw new Error(`Network "${id}" must have type "evm" or "svm"`);
+  }
+  if (!merged.name) {
+    throw new Error(`Network "${id}" is missing a name`);
+  }
+  if (merged.type === "evm" && !Number.isInteger(merged.chainId)) {
+    throw new Error(`EVM network "${id}" is missing an integer chainId`);
+  }
+  if (merged.type === "svm" && !merged.rpcUrl) {
+    throw new Error(`Solana network "${id}" is missing an rpcUrl`);
+  }
+  if (merged.tokens.length === 0) {
+    throw new Error(`Network "${id}" has no tokens`);
+  }
+  return merged;
+}
+
+// Built-in networks extended by X402_NETWORKS (JSON object) or the config
+// file's "networks" section, keyed by network ID
+function loadNetworks(): Record<string, NetworkConfig> {
+  const entries = readJsonEnv("X402_NETWORKS") ?? loadConfig().networks ?? {};
+  const networks = { ...BUILTIN_NETWORKS };
+  for (const [id, entry] of Object.entries<any>(entries)) {
+    networks[id] = mergeNetwork(id, networks[id], entry);
+  }
+  return networks;
+}
+
+let loadedNetworks: Record<string, NetworkConfig> | undefined;
+
+function registry(): Record<string, NetworkConfig> {
+  return (loadedNetworks ??= loadNetworks());
+}
+
+// The registry, loaded on first use rather than at import, so importing the
+// library reads no config. Reads and Object.keys() go through to it.
+export const NETWORKS: Record<string, NetworkConfig> = new Proxy({} as Record<string, NetworkConfig>, {
+  get: (_, key) => Reflect.get(registry(), key),
+  has: (_, key) => Reflect.has(registry(), key),
+  ownKeys: () => Reflect.ownKeys(registry()),
+  getOwnPropertyDescriptor: (_, key) => Reflect.getOwnPropertyDescriptor(registry(), key),
+});
+
+export function getNetwork(network: string): NetworkConfig {
+  const networkConfig = NETWORKS[network];
+  if (!networkConfig) {
+    throw new Error(`Unknown network: ${network}`);
+  }
+  return networkConfig;
+}
+
+export function getRpcUrl(network: string): string {
+  const { rpcUrl } = getNetwork(network);
+  if (!rpcUrl) {
+    throw new Error(
+      `Network ${network} has no rpcUrl: set one in X402_NETWORKS or the config file's "networks" section`
+    );
+  }
+  return rpcUrl;
+}
+
+export function networksOfType(type: "evm" | "svm"): string[] {
+  return Object.keys(NETWORKS).filter((id) => NETWORKS[id].type === type);
+}
+
+export function getDefaultToken(network: string): TokenConfig {
+  return getNetwork(network).tokens[0];
+}
+
+// Find a token by contract/mint address (EVM addresses compare
+// case-insensitively) or by symbol
+export function findToken(network: string, assetOrSymbol: string): TokenConfig | undefined {
+  const { type, tokens } = getNetwork(network);
+  const wanted = type === "evm" ? assetOrSymbol?.toLowerCase() : assetOrSymbol;
+  return tokens.find(
+    (t) =>
+      (type === "evm" ? t.address.toLowerCase() : t.address) === wanted ||
+      t.symbol.toLowerCase() === assetOrSymbol?.toLowerCase()
+  );
+}
+
+// The token named by a tool's asset argument, or the network's default token
+export function resolveToken(network: string, asset?: string): TokenConfig {
+  if (!asset) {
+    return getDefaultToken(network);
+  }
+  const token = findToken(network, asset);
+  if (!token) {
+    const registered = getNetwork(network).tokens.map((t) => t.symbol).join(", ");
+    throw new Error(`Unknown asset ${asset} on ${network} (registered: ${registered})`);
+  }
+  return token;
+}
+
+// Summary of a network for x402_get_network_info and the x402://networks resources
+export function describeNetwork(network: string) {
+  const networkConfig = getNetwork(network);
+  return {
+    network,
+    name: networkConfig.name,
+    type: networkConfig.type === "evm" ? "EVM" : "SVM",
+    tokens: networkConfig.tokens,
+    chainId: networkConfig.chainId || "N/A",
+    rpcUrl: networkConfig.rpcUrl || "Default provider",
+    feeStructure:
+      networkConfig.type === "evm"
+        ? "Facilitator pays gas (~$0.001-0.01)"
+        : "Consumer pays transaction fee (~$0.000005)",
+    settlementTime: networkConfig.type === "evm" ? "~2 seconds" : "~400ms",
+  };
+}
@@ -0,0 +1,159 @@
+import { ethers } from "ethers";
+import { Keypair } from "@solana/web3.js";
+import { getNetwork } from "./networks.js";
+import { randomAuthorizationNonce, signEvmPayment } from "./evm.js";
+import { signSolanaPayment } from "./solana.js";
+import {
+  assertWalletCanPay,
+  getWallet,
+  getWalletAddress,
+  loadEvmSigner,
+  loadSolanaKeypair,
+} from "./wallets.js";
+import { checkClaimedResource, releaseSpend, reserveSpend } from "./policy.js";
+import { requirementsForNetwork } from "./requirements.js";
+import { recordPaymentEvent } from "./ledger.js";
+import { PreflightResult, preflightPayment } from "./balances.js";
+
+export type PaymentResult =
+  | { refused: true; rule?: string; reason?: string; preflight?: PreflightResult }
+  | {
+      refused: false;
+      paymentHeader: string;
+      paymentPayload: any;
+      wallet: string;
+      consumerAddress: string;
+      preflight?: PreflightResult;
+    };
+
+// A signed payment, ready to send as the X-PAYMENT header
+export interface SignedPayment {
+  paymentHeader: string;
+  paymentPayload: any;
+  payer: string;
+}
+
+export interface PaymentOptions {
+  // Check balances, token accounts and the EIP-3009 nonce over RPC first;
+  // any warning stops the payment before it is signed
+  preflight?: boolean;
+  // URL being paid for. The spending policy's resource lists are checked
+  // against it instead of the requirements' own resource, which must match.
+  resource?: string;
+}
+
+export function encodePaymentHeader(paymentPayload: any): string {
+  return Buffer.from(JSON.stringify(paymentPayload)).toString("base64");
+}
+
+export function decodePaymentHeader(paymentHeader: string): any {
+  return JSON.parse(Buffer.from(paymentHeader, "base64").toString("utf-8"));
+}
+
+// Sign an EVM payment with a key the caller holds. Accepts a bare
+// requirements object or a 402 envelope, from which the entry for the network
+// is used. Unlike createPayment there is no spending policy or ledger entry.
+export async function createEvmPayment(
+  signer: ethers.Wallet | ethers.HDNodeWallet,
+  network: string,
+  paymentRequired: any,
+  nonce?: string
+): Promise<SignedPayment> {
+  if (getNetwork(network).type !== "evm") {
+    throw new Error(`${network} is not an EVM network`);
+  }
+  const paymentPayload = await signEvmPayment(signer, network, requirementsForNetwork(paymentRequired, network), nonce);
+  return { paymentHeader: encodePaymentHeader(paymentPayload), paymentPayload, payer: signer.address };
+}
+
+// Solana counterpart of createEvmPayment; reads the mint and recent fees
+// over the network's RPC
+export async function createSolanaPayment(
+  keypair: Keypair,
+  network: string,
+  paymentRequired: any
+): Promise<SignedPayment> {
+  if (getNetwork(network).type !== "svm") {
+    throw new Error(`${network} is not a Solana network`);
+  }
+  const paymentPayload = await signSolanaPayment(keypair, network, requirementsForNetwork(paymentRequired, network));
+  return {
+    paymentHeader: encodePaymentHeader(paymentPayload),
+    paymentPayload,
+    payer: keypair.publicKey.toBase58(),
+  };
+}
+
+// Sign a payment for the requirements with a configured wallet. Accepts a
+// bare requirements object or a 402 envelope, from which the entry for the
+// network is used. The spending policy, then the optional preflight, are
+// checked before any key is unlocked. The payment is reserved against the
+// wallet's budget as soon as the policy allows it, so concurrent payments
+// cannot overrun a cap, given back if it is not signed, and recorded in the
+// payment ledger once signed.
+export async function createPayment(
+  network: string,
+  walletAlias: string,
+  paymentRequired: any,
+  options: PaymentOptions = {}
+): Promise<PaymentResult> {
+  const networkConfig = getNetwork(network);
+  const paymentRequirements = requirementsForNetwork(paymentRequired, network);
+  assertWalletCanPay(getWallet(walletAlias), network, networkConfig.type);
+
+  const spend = {
+    wallet: walletAlias,
+    network,
+    asset: paymentRequirements.asset,
+    payTo: paymentRequirements.payTo,
+    resource: options.resource ?? paymentRequirements.resource,
+    amount: paymentRequirements.maxAmountRequired,
+  };
+  const claimed = options.resource
+    ? checkClaimedResource(options.resource, paymentRequirements.resource)
+    : { allowed: true };
+  const decision: ReturnType<typeof reserveSpend> = claimed.allowed ? reserveSpend(spend) : claimed;
+  if (!decision.entry) {
+    return { refused: true, rule: decision.rule, reason: decision.reason };
+  }
+  const reservation = decision.entry;
+
+  let preflight;
+  let signed: SignedPayment;
+  try {
+    // Chosen up front so the preflight can check the nonce that gets signed
+    const nonce = networkConfig.type === "evm" ? randomAuthorizationNonce() : undefined;
+    if (options.preflight) {
+      const payer = await getWalletAddress(walletAlias);
+      preflight = await preflightPayment(network, payer, paymentRequirements, nonce);
+      if (!preflight.ok) {
+        releaseSpend(reservation);
+        const reason = preflight.warnings.map((warning) => warning.message).join("; ");
+        return { refused: true, rule: "preflight", reason, preflight };
+      }
+    }
+
+    signed =
+      networkConfig.type === "evm"
+        ? await createEvmPayment(await loadEvmSigner(walletAlias), network, paymentRequirements, nonce)
+        : await createSolanaPayment(loadSolanaKeypair(walletAlias), network, paymentRequirements);
+  } catch (error) {
+    releaseSpend(reservation);
+    throw error;
+  }
+
+  const { paymentHeader, paymentPayload, payer } = signed;
+  recordPaymentEvent("created", paymentPayload, paymentRequirements, {
+    wallet: walletAlias,
+    payer,
+  });
+
+  return {
+    refused: false,
+    paymentHeader,
+    paymentPayload,
+    wallet: walletAlias,
+    consumerAddress: payer,
+    ...(preflight ? { preflight } : {}),
+  };
+}
@@ -0,0 +1,132 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, beforeEach, test } from "node:test";
+import { ethers } from "ethers";
+
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const EURC = "0x808456652fdb597867f38412077A9182bf77359F";
+const PAY_TO = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-policy-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+process.env.X402_SPEND_LEDGER = path.join(dir, "spending.jsonl");
+process.env.X402_PAYMENT_LEDGER = path.join(dir, "payments.jsonl");
+process.env.X402_TEST_KEY = ethers.Wallet.createRandom().privateKey;
+fs.writeFileSync(
+  process.env.X402_CONFIG,
+  JSON.stringify({
+    networks: {
+      "base-sepolia": {
+        tokens: [{ symbol: "EURC", address: EURC, decimals: 6, eip712: { name: "EURC", version: "2" } }],
+      },
+    },
+    wallets: [
+      { alias: "main", type: "evm", privateKeyEnv: "X402_TEST_KEY" },
+      { alias: "locked", type: "evm", privateKeyEnv: "X402_TEST_MISSING_KEY" },
+    ],
+    policy: {
+      maxPerPayment: "20000",
+      daily: "25000",
+      monthly: "100000",
+      assets: { EURC: { daily: "50000" } },
+      wallets: { locked: { daily: "10000" } },
+      denyPayTo: ["0x000000000000000000000000000000000000dEaD"],
+      denyResources: ["https://blocked.example.com/*"],
+    },
+  })
+);
+
+const { checkSpendingPolicy, getBudgetStatus, getSpent, recordSpend, releaseSpend } = await import("./policy.js");
+const { createPayment } = await import("./payments.js");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const spend = (overrides: Record<string, string> = {}) => ({
+  wallet: "main",
+  network: "base-sepolia",
+  asset: USDC,
+  payTo: PAY_TO,
+  resource: "https://api.example.com/premium",
+  amount: "10000",
+  ...overrides,
+});
+
+const requirements = (asset = USDC, amount = "10000") => ({
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: amount,
+  resource: "https://api.example.com/premium",
+  payTo: PAY_TO,
+  asset,
+  extra: { name: asset === USDC ? "USDC" : "EURC", version: "2" },
+});
+
+beforeEach(() => fs.rmSync(process.env.X402_SPEND_LEDGER!, { force: true }));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test("merchant and resource lists are checked first", () => {
+  assert.equal(checkSpendingPolicy(spend({ payTo: "0x000000000000000000000000000000000000dead" })).rule, "denyPayTo");
+  assert.equal(checkSpendingPolicy(spend({ resource: "https://blocked.example.com/a" })).rule, "denyResources");
+});
+
+test("the per-payment cap", () => {
+  assert.equal(checkSpendingPolicy(spend({ amount: "20000" })).allowed, true);
+  assert.equal(checkSpendingPolicy(spend({ amount: "20001" })).rule, "maxPerPayment");
+});
+
+test("the daily cap includes the payment being checked", () => {
+  recordSpend(spend());
+  recordSpend(spend());
+  assert.equal(checkSpendingPolicy(spend({ amount: "5000" })).allowed, true);
+  const decision = checkSpendingPolicy(spend({ amount: "5001" }));
+  assert.equal(decision.rule, "daily");
+  assert.match(decision.reason!, /already spent 20000/);
+});
+
+test("wallet overrides win over the defaults", () => {
+  assert.equal(checkSpendingPolicy(spend({ wallet: "locked", amount: "10001" })).rule, "daily");
+});
+
+test("each asset has its own budget", () => {
+  recordSpend(spend({ amount: "20000" }));
+  assert.equal(getSpent("main", "base-sepolia", DAY_MS, EURC), 0n);
+  assert.equal(checkSpendingPolicy(spend({ asset: EURC, amount: "20000" })).allowed, true);
+
+  // The EURC override raises only EURC's daily cap
+  const eurc = getBudgetStatus("main", "base-sepolia", EURC);
+  assert.equal(eurc.asset, "EURC");
+  assert.equal(eurc.daily.cap, "50000");
+  assert.equal(getBudgetStatus("main", "base-sepolia", USDC).daily.remaining, "5000");
+});
+
+test("ledger entries without an asset count against the default token", () => {
+  const { asset, ...legacy } = spend({ amount: "20000" });
+  recordSpend(legacy);
+  assert.equal(getSpent("main", "base-sepolia", DAY_MS, USDC.toLowerCase()), 20000n);
+  assert.equal(getSpent("main", "base-sepolia", DAY_MS, EURC), 0n);
+});
+
+test("a released spend no longer counts", () => {
+  const entry = recordSpend(spend({ amount: "20000" }));
+  releaseSpend(entry);
+  assert.equal(getSpent("main", "base-sepolia", DAY_MS), 0n);
+});
+
+test("concurrent payments cannot pass the same cap", async () => {
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () => createPayment("base-sepolia", "main", requirements()))
+  );
+  assert.equal(results.filter((r) => !r.refused).length, 2);
+  assert.deepEqual(
+    results.filter((r) => r.refused).map((r) => r.refused && r.rule),
+    ["daily", "daily", "daily"]
+  );
+  assert.equal(getSpent("main", "base-sepolia", DAY_MS, USDC), 20000n);
+});
+
+test("a payment that fails to sign gives its reservation back", async () => {
+  await assert.rejects(createPayment("base-sepolia", "locked", requirements()), /X402_TEST_MISSING_KEY/);
+  assert.equal(getSpent("locked", "base-sepolia", DAY_MS, USDC), 0n);
+});
@@ -0,0 +1,279 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadConfig } from "./config.js";
+import { NETWORKS, findToken } from "./networks.js";
+
+// Spending caps in base units of the token paid (e.g. "1000000" = $1.00 USDC)
+export interface SpendingLimits {
+  maxPerPayment?: string;
+  daily?: string;
+  monthly?: string;
+}
+
+// The "policy" section of the config file. Limits apply to each
+// (wallet, network, asset), so tokens with other decimals never share a cap.
+// Network, asset (by token symbol) and wallet overrides replace the defaults
+// field by field, in that order of precedence.
+export interface SpendingPolicy extends SpendingLimits {
+  wallets?: Record<string, SpendingLimits>;
+  networks?: Record<string, SpendingLimits>;
+  assets?: Record<string, SpendingLimits>;
+  allowPayTo?: string[];
+  denyPayTo?: string[];
+  // URL patterns where "*" matches any run of characters
+  allowResources?: string[];
+  denyResources?: string[];
+  ledgerFile?: string;
+}
+
+export interface SpendRequest {
+  wallet: string;
+  network: string;
+  // Token address (default: the network's default token)
+  asset?: string;
+  payTo: string;
+  resource?: string;
+  amount: string;
+}
+
+export interface SpendEntry extends SpendRequest {
+  id?: string;
+  timestamp: string;
+}
+
+// Appended to the ledger when a reserved spend is given back
+interface ReleaseEntry {
+  timestamp: string;
+  released: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  rule?: string;
+  reason?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Monthly caps are a rolling 30-day window
+const MONTH_MS = 30 * DAY_MS;
+
+export function getPolicy(): SpendingPolicy {
+  return loadConfig().policy ?? {};
+}
+
+export function getLedgerPath(): string {
+  return (
+    process.env.X402_SPEND_LEDGER ||
+    getPolicy().ledgerFile ||
+    path.join(os.homedir(), ".octo-x402", "spending.jsonl")
+  );
+}
+
+// EVM addresses compare case-insensitively, Solana addresses exactly
+function normalizeAddress(address: string): string {
+  return address.startsWith("0x") ? address.toLowerCase() : address;
+}
+
+// The token a spend is in: its asset, or the network's default token for
+// requests and older ledger entries without one
+function spendAsset(network: string, asset: string | undefined): string {
+  return normalizeAddress(asset ?? NETWORKS[network]?.tokens[0].address ?? "");
+}
+
+export function getEffectiveLimits(wallet: string, network: string, asset?: string): SpendingLimits {
+  const policy = getPolicy();
+  const symbol = NETWORKS[network] ? findToken(network, spendAsset(network, asset))?.symbol : undefined;
+  return {
+    maxPerPayment: policy.maxPerPayment,
+    daily: policy.daily,
+    monthly: policy.monthly,
+    ...policy.networks?.[network],
+    ...(symbol ? policy.assets?.[symbol] : undefined),
+    ...policy.wallets?.[wallet],
+  };
+}
+
+// Spends still counting against the caps, without those released since
+function readLedger(): SpendEntry[] {
+  const file = getLedgerPath();
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  const lines: (SpendEntry | ReleaseEntry)[] = fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+  const released = new Set(lines.map((line) => ("released" in line ? line.released : undefined)));
+  return lines.filter((line): line is SpendEntry => !("released" in line) && !released.has(line.id));
+}
+
+function appendLedger(line: SpendEntry | ReleaseEntry) {
+  const file = getLedgerPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(line) + "\n");
+}
+
+export function recordSpend(request: SpendRequest): SpendEntry {
+  const entry: SpendEntry = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), ...request };
+  appendLedger(entry);
+  return entry;
+}
+
+// Give back a reserved spend whose payment was never signed
+export function releaseSpend(entry: SpendEntry) {
+  if (entry.id) {
+    appendLedger({ timestamp: new Date().toISOString(), released: entry.id });
+  }
+}
+
+export function getSpent(wallet: string, network: string, windowMs: number, asset?: string): bigint {
+  const since = Date.now() - windowMs;
+  const token = spendAsset(network, asset);
+  return readLedger()
+    .filter(
+      (e) =>
+        e.wallet === wallet &&
+        e.network === network &&
+        spendAsset(network, e.asset) === token &&
+        Date.parse(e.timestamp) >= since
+    )
+    .reduce((total, e) => total + BigInt(e.amount), 0n);
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+// Requirements name the resource they charge for, but the merchant writes
+// them. When the URL being paid for is known, the resource lists are checked
+// against it, and requirements claiming another resource (relative ones are
+// resolved against the URL; query strings are ignored) are refused.
+export function checkClaimedResource(url: string, claimed: string | undefined): PolicyDecision {
+  if (!claimed) {
+    return { allowed: true };
+  }
+  const page = (value: string) => {
+    const parsed = new URL(value, url);
+    return `${parsed.origin}${parsed.pathname}`;
+  };
+  let matches = false;
+  try {
+    matches = page(claimed) === page(url);
+  } catch {
+    matches = false;
+  }
+  return matches
+    ? { allowed: true }
+    : {
+        allowed: false,
+        rule: "resourceMismatch",
+        reason: `Requirements are for ${claimed}, but the payment is for ${url}`,
+      };
+}
+
+// Decide whether a payment may be signed. Checks run from the most specific
+// refusal to the broadest: merchant lists, resource lists, per-payment cap,
+// then the rolling daily and monthly caps including this payment.
+export function checkSpendingPolicy(request: SpendRequest): PolicyDecision {
+  const policy = getPolicy();
+  const payTo = normalizeAddress(request.payTo);
+  const amount = BigInt(request.amount);
+
+  if (policy.denyPayTo?.some((a) => normalizeAddress(a) === payTo)) {
+    return {
+      allowed: false,
+      rule: "denyPayTo",
+      reason: `Merchant ${request.payTo} is on the deny list`,
+    };
+  }
+  if (policy.allowPayTo && !policy.allowPayTo.some((a) => normalizeAddress(a) === payTo)) {
+    return {
+      allowed: false,
+      rule: "allowPayTo",
+      reason: `Merchant ${request.payTo} is not on the allow list`,
+    };
+  }
+
+  const resource = request.resource ?? "";
+  const denied = policy.denyResources?.find((p) => matchesPattern(resource, p));
+  if (denied) {
+    return {
+      allowed: false,
+      rule: "denyResources",
+      reason: `Resource ${resource} matches denied pattern ${denied}`,
+    };
+  }
+  if (policy.allowResources && !policy.allowResources.some((p) => matchesPattern(resource, p))) {
+    return {
+      allowed: false,
+      rule: "allowResources",
+      reason: `Resource ${resource} does not match any allowed pattern`,
+    };
+  }
+
+  const limits = getEffectiveLimits(request.wallet, request.network, request.asset);
+  if (limits.maxPerPayment !== undefined && amount > BigInt(limits.maxPerPayment)) {
+    return {
+      allowed: false,
+      rule: "maxPerPayment",
+      reason: `Amount ${amount} exceeds the per-payment cap of ${limits.maxPerPayment}`,
+    };
+  }
+
+  const windows: [keyof SpendingLimits, number][] = [
+    ["daily", DAY_MS],
+    ["monthly", MONTH_MS],
+  ];
+  for (const [rule, windowMs] of windows) {
+    const cap = limits[rule];
+    if (cap === undefined) {
+      continue;
+    }
+    const spent = getSpent(request.wallet, request.network, windowMs, request.asset);
+    if (spent + amount > BigInt(cap)) {
+      return {
+        allowed: false,
+        rule,
+        reason: `Amount ${amount} would exceed the ${rule} cap of ${cap} for wallet "${request.wallet}" on ${request.network} (already spent ${spent})`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+// Check the policy and, if the payment is allowed, record it at once. Both
+// happen without yielding, so concurrent payments cannot pass the same cap;
+// release the entry if the payment is not signed after all.
+export function reserveSpend(request: SpendRequest): PolicyDecision & { entry?: SpendEntry } {
+  const decision = checkSpendingPolicy(request);
+  return decision.allowed ? { ...decision, entry: recordSpend(request) } : decision;
+}
+
+export function getBudgetStatus(wallet: string, network: string, asset?: string) {
+  const limits = getEffectiveLimits(wallet, network, asset);
+  const window = (cap: string | undefined, windowMs: number) => {
+    const spent = getSpent(wallet, network, windowMs, asset);
+    if (cap === undefined) {
+      return { spent: spent.toString(), cap: null, remaining: null };
+    }
+    const remaining = BigInt(cap) > spent ? BigInt(cap) - spent : 0n;
+    return { spent: spent.toString(), cap, remaining: remaining.toString() };
+  };
+
+  return {
+    wallet,
+    network,
+    asset: findToken(network, spendAsset(network, asset))?.symbol ?? asset,
+    maxPerPayment: limits.maxPerPayment ?? null,
+    daily: window(limits.daily, DAY_MS),
+    monthly: window(limits.monthly, MONTH_MS),
+  };
+}
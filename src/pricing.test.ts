@@ -0,0 +1,48 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-pricing-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { buildRouteEnvelopes } = await import("./pricing.js");
+
+const pricing = {
+  baseUrl: "https://api.example.com/",
+  networks: ["base-sepolia"],
+  payTo: { evm: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C" },
+  routes: [
+    { path: "/api/basic", price: "$0.01" },
+    { path: "/api/reports/:id", methods: ["POST"], price: "$0.50" },
+    { path: "/api/reports/*", price: "$0.10" },
+  ],
+};
+
+const resources = (envelope: any) => envelope.accepts.map((accept: any) => accept.resource);
+
+test("only concrete routes get an envelope", () => {
+  const [basic, report, reports] = buildRouteEnvelopes(pricing);
+  assert.deepEqual(resources(basic.envelope), ["https://api.example.com/api/basic"]);
+  assert.equal(report.envelope, undefined);
+  assert.equal(reports.envelope, undefined);
+  assert.deepEqual(reports.prices, ["0.1 USDC on base-sepolia"]);
+});
+
+test("request paths are priced by the first route they match", () => {
+  const [get, post] = buildRouteEnvelopes(pricing, ["/api/reports/42?format=csv", "post /api/reports/42"]);
+  assert.equal(get.route, "/api/reports/*");
+  assert.deepEqual(get.methods, ["GET"]);
+  assert.deepEqual(resources(get.envelope), ["https://api.example.com/api/reports/42?format=csv"]);
+  assert.equal(post.route, "/api/reports/:id");
+  assert.equal(post.envelope!.accepts[0].maxAmountRequired, "500000");
+});
+
+test("unpriced and malformed paths are refused", () => {
+  assert.throws(() => buildRouteEnvelopes(pricing, ["/api/free"]), /GET \/api\/free matches no priced route/);
+  assert.throws(() => buildRouteEnvelopes(pricing, ["POST /api/basic"]), /matches no priced route/);
+  assert.throws(() => buildRouteEnvelopes(pricing, ["api/basic"]), /expected "\/path" or "METHOD \/path"/);
+});
@@ -0,0 +1,199 @@
+import { NetworkConfig, TokenConfig, getNetwork, resolveToken } from "./networks.js";
+import { formatAmount, parseAmount } from "./amounts.js";
+import { loadConfig } from "./config.js";
+import { isAddressForNetwork, pricingConfigSchema } from "./schemas.js";
+import { PaymentRequiredResponse, buildPaymentRequired, buildPaymentRequirements } from "./requirements.js";
+
+// Per-route pricing for a merchant API: which routes are paid, what they
+// cost and on which networks. Read from the "pricing" section of
+// x402.config.json or passed to the tools directly, e.g.
+//
+//   {
+//     "baseUrl": "https://api.example.com",
+//     "networks": ["base", "solana"],
+//     "payTo": { "evm": "0x...", "svm": "..." },
+//     "routes": [
+//       { "path": "/api/basic", "price": "$0.01" },
+//       { "path": "/api/reports/*", "methods": ["GET", "POST"], "price": "$0.10", "networks": ["base"] }
+//     ]
+//   }
+
+export interface PricingRoute {
+  // "*" matches the rest of the path, ":name" one segment
+  path: string;
+  // Default ["GET"]; "*" prices every method
+  methods?: string[];
+  // Base units, token units or a dollar price, converted per network's token
+  price: string;
+  // Default: the config's networks
+  networks?: string[];
+  // Token symbol or address; default each network's first token
+  asset?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface PricingConfig {
+  // Public origin resources are built from; only the envelopes need it
+  baseUrl?: string;
+  networks: string[];
+  // Receiving address per network type ("evm", "svm") or network ID
+  payTo: Record<string, string>;
+  description?: string;
+  mimeType?: string;
+  routes: PricingRoute[];
+}
+
+// A route's price on one network
+export interface RouteOption {
+  network: string;
+  networkConfig: NetworkConfig;
+  token: TokenConfig;
+  amount: bigint;
+  payTo: string;
+}
+
+export interface PricedRoute {
+  path: string;
+  methods: string[];
+  // Anchored regular expression for the path, valid in JavaScript, Python and Go
+  pattern: string;
+  description: string;
+  mimeType: string;
+  options: RouteOption[];
+}
+
+export interface RouteEnvelope {
+  path: string;
+  // The pricing route's path, for an envelope built for a request path
+  route?: string;
+  methods: string[];
+  prices: string[];
+  // Missing for a "*" or ":name" route, whose resource depends on the request
+  envelope?: PaymentRequiredResponse;
+}
+
+// "*" and ":name" in a route path
+const PATH_PARAMETER = /(\*|:[A-Za-z_][A-Za-z0-9_]*)/;
+
+// "/api/items/:id/*" -> "^/api/items/[^/]+/.*$"
+function routePattern(path: string): string {
+  const source = path
+    .split(PATH_PARAMETER)
+    .map((part) =>
+      part === "*" ? ".*" : part.startsWith(":") ? "[^/]+" : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return `^${source}$`;
+}
+
+function payToFor(config: PricingConfig, network: string): string {
+  const { type } = getNetwork(network);
+  const payTo = config.payTo[network] ?? config.payTo[type];
+  if (!payTo) {
+    throw new Error(`pricing.payTo has no address for ${network} (set payTo.${type} or payTo["${network}"])`);
+  }
+  if (!isAddressForNetwork(network, payTo)) {
+    throw new Error(`pricing.payTo address ${payTo} is not valid on ${network}`);
+  }
+  return payTo;
+}
+
+// Resolve every route's price on each of its networks, in base units of
+// that network's token. Fails on the first route that cannot be priced.
+export function resolvePricing(config: PricingConfig): PricedRoute[] {
+  return config.routes.map((route, i) => {
+    const options = (route.networks ?? config.networks).map((network) => {
+      try {
+        const token = resolveToken(network, route.asset);
+        return {
+          network,
+          networkConfig: getNetwork(network),
+          token,
+          amount: parseAmount(route.price, token),
+          payTo: payToFor(config, network),
+        };
+      } catch (error: any) {
+        throw new Error(`pricing.routes.${i} (${route.path}) on ${network}: ${error.message}`);
+      }
+    });
+    return {
+      path: route.path,
+      methods: (route.methods ?? ["GET"]).map((method) => method.toUpperCase()),
+      pattern: routePattern(route.path),
+      description: route.description ?? config.description ?? `Access to ${route.path}`,
+      mimeType: route.mimeType ?? config.mimeType ?? "application/json",
+      options,
+    };
+  });
+}
+
+// The 402 envelope each route answers with, one accepts entry per network.
+// The resource is the URL a request is for, so a "*" or ":name" route only
+// gets an envelope for a concrete request path: pass them as paths, either
+// "/api/reports/42" (a GET) or "POST /api/reports/42". Each is priced by
+// the first route it matches, as the routes-mode middleware does.
+export function buildRouteEnvelopes(config: PricingConfig, paths?: string[]): RouteEnvelope[] {
+  if (!config.baseUrl) {
+    throw new Error("pricing.baseUrl is required to build resource URLs");
+  }
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+  const routes = resolvePricing(config);
+  const prices = (route: PricedRoute) =>
+    route.options.map((option) => `${formatAmount(option.amount, option.token)} on ${option.network}`);
+  const envelope = (route: PricedRoute, path: string) =>
+    buildPaymentRequired(
+      route.options.map((option) =>
+        buildPaymentRequirements({
+          network: option.network,
+          token: option.token,
+          amount: option.amount,
+          payTo: option.payTo,
+          resource: `${baseUrl}${path}`,
+          description: route.description,
+          mimeType: route.mimeType,
+        })
+      )
+    );
+
+  if (!paths) {
+    return routes.map((route) => ({
+      path: route.path,
+      methods: route.methods,
+      prices: prices(route),
+      ...(PATH_PARAMETER.test(route.path) ? {} : { envelope: envelope(route, route.path) }),
+    }));
+  }
+
+  return paths.map((request) => {
+    const match = request.trim().match(/^(?:([A-Za-z]+)\s+)?(\/\S*)$/);
+    if (!match) {
+      throw new Error(`Invalid path "${request}": expected "/path" or "METHOD /path"`);
+    }
+    const method = (match[1] ?? "GET").toUpperCase();
+    const path = match[2];
+    const { pathname } = new URL(path, baseUrl);
+    const route = routes.find(
+      (r) => (r.methods.includes("*") || r.methods.includes(method)) && new RegExp(r.pattern).test(pathname)
+    );
+    if (!route) {
+      throw new Error(`${method} ${path} matches no priced route, so it is free`);
+    }
+    return { path, route: route.path, methods: [method], prices: prices(route), envelope: envelope(route, path) };
+  });
+}
+
+// The config file's "pricing" section, checked against the same schema as
+// a pricing config passed to the tools
+export function loadPricingConfig(): PricingConfig {
+  const pricing = loadConfig().pricing;
+  if (!pricing) {
+    throw new Error('No "pricing" section in x402.config.json; pass the pricing config instead');
+  }
+  const parsed = pricingConfigSchema.safeParse(pricing);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `pricing.${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid pricing section in x402.config.json: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,50 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-prompts-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { getPrompt, listPrompts } = await import("./prompts.js");
+
+test("prompts are listed with their arguments", () => {
+  const prompts = listPrompts();
+  assert.deepEqual(
+    prompts.map((prompt) => prompt.name),
+    ["setup_merchant_endpoint", "debug_failed_payment", "pay_for_resource"]
+  );
+  const setup = prompts.find((prompt) => prompt.name === "setup_merchant_endpoint")!;
+  assert.ok(setup.arguments.some((argument) => argument.name === "network" && argument.required));
+  assert.ok(!("build" in setup));
+});
+
+test("setup_merchant_endpoint attaches the network resource", async () => {
+  const prompt = await getPrompt("setup_merchant_endpoint", { network: "base-sepolia", payTo: "0xabc" });
+  assert.equal(prompt.messages.length, 2);
+
+  const [text, attached] = prompt.messages;
+  assert.equal(text.content.type, "text");
+  assert.match((text.content as { text: string }).text, /on base-sepolia charging \$0\.01/);
+  assert.match((text.content as { text: string }).text, /paying 0xabc/);
+
+  assert.equal(attached.content.type, "resource");
+  const { resource } = attached.content as { resource: { uri: string; text: string } };
+  assert.equal(resource.uri, "x402://networks/base-sepolia");
+  assert.equal(JSON.parse(resource.text).chainId, 84532);
+});
+
+test("debug_failed_payment attaches the network only when it exists", async () => {
+  assert.equal((await getPrompt("debug_failed_payment", { network: "solana-devnet" })).messages.length, 2);
+  assert.equal((await getPrompt("debug_failed_payment", { network: "nowhere" })).messages.length, 1);
+  assert.equal((await getPrompt("debug_failed_payment")).messages.length, 1);
+});
+
+test("unknown prompts and missing arguments are refused", async () => {
+  await assert.rejects(getPrompt("make_money"), /Unknown prompt: make_money/);
+  await assert.rejects(getPrompt("pay_for_resource", {}), /Missing arguments for pay_for_resource: url/);
+  await assert.rejects(getPrompt("setup_merchant_endpoint", { price: "$1" }), /Missing arguments for setup_merchant_endpoint: network/);
+});
@@ -0,0 +1,124 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { NETWORKS } from "./networks.js";
+import { LANGUAGES } from "./templates.js";
+import { readResource } from "./resources.js";
+
+// Guided versions of the README walkthroughs. Each prompt is a user message
+// naming the tools to call in order, with the relevant resources attached.
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Instructions for the model, and resource URIs attached to them
+  build(args: Record<string, string>): { text: string; resources: string[] };
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "setup_merchant_endpoint",
+    description: "Set up an endpoint that charges for access: requirements, checks, middleware and a test run",
+    arguments: [
+      { name: "network", description: "Network ID to accept payments on, e.g. base-sepolia", required: true },
+      { name: "price", description: "Price per request, e.g. $0.01 (default) or 0.05 USDC" },
+      { name: "payTo", description: "Merchant's receiving address on the network" },
+      { name: "language", description: `Middleware language: ${LANGUAGES.join(", ")} (default typescript)` },
+      { name: "framework", description: "Web framework, e.g. express, hono, fastapi or net/http" },
+    ],
+    build: ({ network, price = "$0.01", payTo, language = "typescript", framework }) => ({
+      text: `Help me set up an x402 merchant endpoint on ${network} charging ${price} per request.
+
+1. Check the facilitator with x402_get_health and confirm with x402_get_supported_networks that it settles ${network}.
+2. Use the attached network details to pick the asset (the first token is the default).
+3. ${
+        payTo
+          ? `Create the 402 envelope with x402_create_payment_requirements (envelope: true), paying ${payTo}.`
+          : "Ask me for the receiving address, then create the 402 envelope with x402_create_payment_requirements (envelope: true)."
+      } Use an example resource URL if I have not given one.
+4. Check the envelope with x402_lint_requirements and fix every error before going on.
+5. Generate ${framework ? `${framework} ` : ""}middleware in ${language} with x402_generate_merchant_middleware, same network, asset and price, and show me where it goes in my app.
+6. Explain how to test it locally with the mock facilitator (octo-x402-mcp facilitator) before using real funds.
+
+If I want different prices per route or several networks, suggest a pricing config with x402_create_route_requirements and routes mode instead.`,
+      resources: [`x402://networks/${network}`],
+    }),
+  },
+  {
+    name: "debug_failed_payment",
+    description: "Find out why a payment was rejected at verification or settlement",
+    arguments: [
+      { name: "error", description: "Error or response body the payment failed with" },
+      { name: "paymentHeader", description: "The X-PAYMENT header that was sent (base64)" },
+      { name: "paymentRequirements", description: "The 402 body or requirements it was paying (JSON)" },
+      { name: "network", description: "Network ID, when the header is not available" },
+    ],
+    build: ({ error, paymentHeader, paymentRequirements, network }) => ({
+      text: `Help me debug a failed x402 payment.
+${error ? `\nIt failed with:\n${error}\n` : ""}${paymentHeader ? `\nX-PAYMENT header:\n${paymentHeader}\n` : ""}${
+        paymentRequirements ? `\nPayment requirements:\n${paymentRequirements}\n` : ""
+      }${network ? `\nNetwork: ${network}\n` : ""}
+Work through these checks and stop at the first one that explains the failure:
+
+1. Decode the header with x402_decode_payment_header. On Solana, also run x402_inspect_solana_payment with the requirements to check the transfer's mint, destination, amount and signatures.
+2. Lint the requirements with x402_lint_requirements: wrong addresses, assets or EIP-712 domains make valid signatures fail.
+3. Compare the payload with the requirements: network, asset, amount, payTo and, on EVM, validBefore against the current time.
+4. Re-run x402_verify_payment, then with mode: "local" to see every failed check offline, and read invalidReason.
+5. Check the payer's funds with x402_get_balance.
+6. If a settlement was attempted, look it up with x402_get_settlement_status and in x402_list_payments.
+7. If the facilitator itself is failing, check x402_get_health and x402_get_stats.
+
+Finish with the cause and the change that fixes it. Ask me for anything above you need but I have not given. Never ask for a private key.`,
+      resources: network && NETWORKS[network] ? [`x402://networks/${network}`] : [],
+    }),
+  },
+  {
+    name: "pay_for_resource",
+    description: "Pay for a URL that answers 402, checking the cost and budget first",
+    arguments: [
+      { name: "url", description: "URL of the paid resource", required: true },
+      { name: "wallet", description: "Wallet alias to pay with (default: the first that can pay)" },
+    ],
+    build: ({ url, wallet }) => ({
+      text: `Help me pay for ${url} with x402.
+
+1. Run x402_fetch with dryRun: true${wallet ? ` and wallet "${wallet}"` : ""} to see what it costs and which wallet and network would pay.
+2. If several options are offered, compare them with x402_select_payment_requirements and x402_calculate_total_cost.
+3. Check the remaining budget with x402_get_budget_status and the wallet's funds with x402_get_balance.
+4. Tell me the price and ask me to confirm. Only then run x402_fetch without dryRun and show me the response and the settlement.`,
+      resources: [],
+    }),
+  },
+];
+
+export function listPrompts() {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+export async function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = prompt.arguments.filter((a) => a.required && !args[a.name]).map((a) => a.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing arguments for ${name}: ${missing.join(", ")}`);
+  }
+
+  const { text, resources } = prompt.build(args);
+  return {
+    description: prompt.description,
+    messages: [
+      { role: "user" as const, content: { type: "text" as const, text } },
+      ...(await Promise.all(resources.map(readResource))).map((resource) => ({
+        role: "user" as const,
+        content: { type: "resource" as const, resource },
+      })),
+    ],
+  };
+}
@@ -0,0 +1,81 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import { ethers } from "ethers";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-replay-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+process.env.X402_PAYMENT_LEDGER = path.join(dir, "payments.jsonl");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+
+const { signEvmPayment } = await import("./evm.js");
+const { checkReplay, rememberPayment } = await import("./replay.js");
+const { verifyPayment } = await import("./facilitation.js");
+const { startMockFacilitator } = await import("./mock-facilitator.js");
+
+// Facilitator mode asks a mock facilitator, which knows nothing of earlier
+// verifications and answers isValid: true every time
+let facilitator: Awaited<ReturnType<typeof startMockFacilitator>>;
+before(async () => {
+  facilitator = await startMockFacilitator({ port: 0 });
+  process.env.X402_FACILITATOR_URL = facilitator.url;
+});
+after(async () => {
+  await facilitator.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const requirements = (resource = "https://api.example.com/premium") => ({
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "10000",
+  resource,
+  payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: { name: "USDC", version: "2" },
+});
+
+test("a remembered payment is reported as replayed, for any resource", async () => {
+  const signer = ethers.Wallet.createRandom();
+  const paymentRequirements = requirements();
+  const paymentPayload = await signEvmPayment(signer, "base-sepolia", paymentRequirements);
+  assert.equal(checkReplay(paymentPayload, paymentRequirements)?.seen, false);
+
+  rememberPayment(paymentPayload, paymentRequirements);
+  assert.equal(checkReplay(paymentPayload, paymentRequirements)?.invalidReason, "payment_replayed");
+  assert.equal(
+    checkReplay(paymentPayload, requirements("https://api.example.com/other"))?.invalidReason,
+    "payment_resource_mismatch"
+  );
+
+  // A new nonce from the same payer is a new payment
+  const again = await signEvmPayment(signer, "base-sepolia", paymentRequirements);
+  assert.equal(checkReplay(again, paymentRequirements)?.seen, false);
+});
+
+test("a replayed payment is invalid even when the facilitator says valid", async () => {
+  const paymentPayload = await signEvmPayment(ethers.Wallet.createRandom(), "base-sepolia", requirements());
+
+  const first = await verifyPayment(paymentPayload, requirements());
+  assert.equal(first.isValid, true);
+  assert.equal(first.replay, undefined);
+
+  const second = await verifyPayment(paymentPayload, requirements());
+  assert.equal(second.verifiedBy, "facilitator");
+  assert.equal(second.verifiedBy === "facilitator" && second.facilitator.data.isValid, true);
+  assert.equal(second.isValid, false);
+  assert.equal(second.invalidReason, "payment_replayed");
+  assert.equal(second.replay?.firstResource, "https://api.example.com/premium");
+});
+
+test("local verification fails a replay the same way", async () => {
+  const paymentPayload = await signEvmPayment(ethers.Wallet.createRandom(), "base-sepolia", requirements());
+  assert.equal((await verifyPayment(paymentPayload, requirements(), { mode: "local" })).isValid, true);
+
+  const other = await verifyPayment(paymentPayload, requirements("https://api.example.com/other"), { mode: "local" });
+  assert.equal(other.isValid, false);
+  assert.equal(other.invalidReason, "payment_resource_mismatch");
+  assert.equal(other.replay?.invalidReason, "payment_resource_mismatch");
+});
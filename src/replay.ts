@@ -0,0 +1,145 @@
+import fs from "fs";
+import path from "path";
+import { loadConfig } from "./config.js";
+import { NETWORKS } from "./networks.js";
+import { decodeSolanaTransaction, findPayerSignature } from "./solana.js";
+import { LocalVerifyResult, recordCheck, summarizeChecks } from "./checks.js";
+
+// Registry of payment payloads already accepted, so the same X-PAYMENT
+// header cannot pay for two requests before settlement catches it. Kept in
+// memory, and in a JSON file when one is configured ("replay.file" in the
+// config file or X402_REPLAY_REGISTRY).
+
+export interface ReplayEntry {
+  resource: string;
+  firstSeenAt: string;
+  // Epoch ms after which the payload can no longer settle anyway
+  expiresAt: number;
+}
+
+export interface ReplayCheck {
+  key: string;
+  seen: boolean;
+  firstSeenAt?: string;
+  firstResource?: string;
+  invalidReason?: "payment_replayed" | "payment_resource_mismatch";
+  detail?: string;
+}
+
+// How long to remember payloads without their own expiry. EVM payloads
+// expire at validBefore; a Solana blockhash expires within minutes.
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+let entries: Map<string, ReplayEntry> | undefined;
+
+export function getReplayRegistryPath(): string | undefined {
+  return process.env.X402_REPLAY_REGISTRY || loadConfig().replay?.file;
+}
+
+function registry(): Map<string, ReplayEntry> {
+  if (!entries) {
+    const file = getReplayRegistryPath();
+    entries = new Map(
+      file && fs.existsSync(file) ? Object.entries(JSON.parse(fs.readFileSync(file, "utf-8"))) : []
+    );
+  }
+  return entries;
+}
+
+function save() {
+  const file = getReplayRegistryPath();
+  const now = Date.now();
+  for (const [key, entry] of registry()) {
+    if (entry.expiresAt < now) {
+      registry().delete(key);
+    }
+  }
+  if (file) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(Object.fromEntries(registry()), null, 2));
+  }
+}
+
+// EVM payloads are keyed by (from, nonce, asset, chainId), the tuple the
+// token contract itself refuses to reuse; Solana payloads by the payer's
+// transaction signature. Undecodable payloads have no key.
+export function replayKey(
+  paymentPayload: any,
+  paymentRequirements: any
+): { key: string; expiresAt: number } | undefined {
+  const network = NETWORKS[paymentRequirements?.network];
+  if (!network) {
+    return undefined;
+  }
+
+  if (network.type === "evm") {
+    const authorization = paymentPayload?.payload?.authorization;
+    if (!authorization?.from || !authorization?.nonce || !paymentRequirements.asset) {
+      return undefined;
+    }
+    const key = [
+      "evm",
+      network.chainId,
+      String(paymentRequirements.asset).toLowerCase(),
+      String(authorization.from).toLowerCase(),
+      String(authorization.nonce).toLowerCase(),
+    ].join(":");
+    return { key, expiresAt: Number(authorization.validBefore) * 1000 || Date.now() + DEFAULT_RETENTION_MS };
+  }
+
+  try {
+    const found = findPayerSignature(decodeSolanaTransaction(paymentPayload?.payload?.transaction));
+    return found ? { key: `svm:${found.signature}`, expiresAt: Date.now() + DEFAULT_RETENTION_MS } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether the payload was accepted before, and for which resource. Does not
+// record it: call rememberPayment once the payment is known to be valid, so
+// a forged payload cannot block the real one.
+export function checkReplay(paymentPayload: any, paymentRequirements: any): ReplayCheck | undefined {
+  const id = replayKey(paymentPayload, paymentRequirements);
+  if (!id) {
+    return undefined;
+  }
+  const entry = registry().get(id.key);
+  if (!entry || entry.expiresAt < Date.now()) {
+    return { key: id.key, seen: false };
+  }
+
+  const sameResource = entry.resource === String(paymentRequirements.resource ?? "");
+  return {
+    key: id.key,
+    seen: true,
+    firstSeenAt: entry.firstSeenAt,
+    firstResource: entry.resource,
+    invalidReason: sameResource ? "payment_replayed" : "payment_resource_mismatch",
+    detail: sameResource
+      ? `Payload was already accepted at ${entry.firstSeenAt}`
+      : `Payload was already accepted for ${entry.resource} at ${entry.firstSeenAt}`,
+  };
+}
+
+// Add the replay check to a local verification result
+export function withReplayCheck<T extends LocalVerifyResult>(result: T, replay: ReplayCheck | undefined): T {
+  if (!replay) {
+    return result;
+  }
+  const checks = [...result.checks];
+  recordCheck(checks, "replay", !replay.invalidReason, replay.invalidReason ?? "", replay.detail);
+  return { ...result, ...summarizeChecks(checks, result.payer) };
+}
+
+export function rememberPayment(paymentPayload: any, paymentRequirements: any) {
+  const id = replayKey(paymentPayload, paymentRequirements);
+  if (!id || registry().has(id.key)) {
+    return;
+  }
+  registry().set(id.key, {
+    resource: String(paymentRequirements.resource ?? ""),
+    firstSeenAt: new Date().toISOString(),
+    expiresAt: id.expiresAt,
+  });
+  save();
+}
@@ -0,0 +1,51 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+import { ethers } from "ethers";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-requirements-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+process.env.X402_TEST_KEY = ethers.Wallet.createRandom().privateKey;
+fs.writeFileSync(
+  process.env.X402_CONFIG,
+  JSON.stringify({ wallets: [{ alias: "main", type: "evm", privateKeyEnv: "X402_TEST_KEY" }] })
+);
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { selectPaymentRequirements } = await import("./requirements.js");
+
+const option = (maxAmountRequired: string) => ({
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired,
+  resource: "https://api.example.com/premium",
+  payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+});
+
+test("a zero-priced option is passed over for a payable one", () => {
+  const result = selectPaymentRequirements([option("0"), option("1000")]);
+  assert.equal(result.selectedIndex, 1);
+  assert.equal(result.wallet, "main");
+  assert.equal(result.options[0].accepted, false);
+  assert.equal(result.options[0].reason, "maxAmountRequired must be more than zero");
+});
+
+test("options that cannot be paid each say why", () => {
+  const result = selectPaymentRequirements([
+    { ...option("1000"), scheme: "upto" },
+    { ...option("1000"), network: "no-such-network" },
+    option("0.5"),
+  ]);
+  assert.equal(result.selected, undefined);
+  assert.deepEqual(
+    result.options.map((o) => o.reason),
+    [
+      'Unsupported scheme "upto"',
+      'Unknown network "no-such-network"',
+      'maxAmountRequired "0.5" is not an integer amount',
+    ]
+  );
+});
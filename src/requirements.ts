@@ -0,0 +1,235 @@
+import { NETWORKS, TokenConfig, findToken, getNetwork, resolveToken } from "./networks.js";
+import { loadConfig } from "./config.js";
+import { estimateCost } from "./costs.js";
+import { parseAmount, scaleUnits } from "./amounts.js";
+import { assertWalletCanPay, findWalletForNetwork, getWallet } from "./wallets.js";
+
+// Body of an HTTP 402 response as defined by the x402 spec
+export interface PaymentRequiredResponse {
+  x402Version: number;
+  error?: string;
+  accepts: any[];
+}
+
+export const PAYMENT_REQUIRED_ERROR = "X-PAYMENT header is required";
+
+export interface RequirementsOptions {
+  network: string;
+  token: TokenConfig;
+  // Price in base units of the token
+  amount: bigint;
+  payTo: string;
+  resource: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// Exact-scheme requirements for one network and token. EVM tokens carry
+// their EIP-712 domain in extra so payers can sign without looking it up.
+export function buildPaymentRequirements(options: RequirementsOptions) {
+  const { network, token } = options;
+  return {
+    scheme: "exact",
+    network,
+    maxAmountRequired: options.amount.toString(),
+    payTo: options.payTo,
+    asset: token.address,
+    resource: options.resource,
+    description: options.description,
+    mimeType: options.mimeType || "application/json",
+    maxTimeoutSeconds: 300,
+    ...(getNetwork(network).type === "evm" && token.eip712 ? { extra: token.eip712 } : {}),
+  };
+}
+
+export interface BuildRequirementsOptions extends Omit<RequirementsOptions, "token" | "amount"> {
+  // Base units, token units or a dollar price (see parseAmount)
+  price: string;
+  // Token symbol or address (default: the network's first token)
+  asset?: string;
+}
+
+// buildPaymentRequirements from a price as people write it ("$0.01",
+// "0.01 USDC"), converted with the asset's decimals
+export function buildRequirements(options: BuildRequirementsOptions) {
+  const { price, asset, ...rest } = options;
+  const token = resolveToken(options.network, asset);
+  return buildPaymentRequirements({ ...rest, token, amount: parseAmount(price, token) });
+}
+
+export function buildPaymentRequired(
+  accepts: any[],
+  error: string = PAYMENT_REQUIRED_ERROR
+): PaymentRequiredResponse {
+  return { x402Version: 1, error, accepts };
+}
+
+// Parse a 402 body, accepting both the spec envelope
+// ({ x402Version, error, accepts: [...] }) and a bare requirements object.
+export function parsePaymentRequired(body: any): PaymentRequiredResponse {
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      throw new Error("402 response body is not valid JSON");
+    }
+  }
+  if (Array.isArray(body?.accepts)) {
+    return {
+      x402Version: body.x402Version ?? 1,
+      ...(body.error ? { error: body.error } : {}),
+      accepts: body.accepts,
+    };
+  }
+  if (body?.scheme && body?.network) {
+    return { x402Version: 1, accepts: [body] };
+  }
+  throw new Error("Response is not an x402 payment requirements object or envelope");
+}
+
+// Pick the requirements for a given network out of either 402 shape
+export function requirementsForNetwork(body: any, network: string): any {
+  const { accepts } = parsePaymentRequired(body);
+  const requirements = accepts.find((r) => r.network === network);
+  if (!requirements) {
+    const available = accepts.map((r) => r.network).join(", ");
+    throw new Error(`No payment option for ${network} (offered: ${available})`);
+  }
+  return requirements;
+}
+
+export interface SelectionCriteria {
+  // Network IDs in order of preference; unlisted networks rank after them
+  preferredNetworks?: string[];
+  // Only consider options this wallet can pay
+  wallet?: string;
+}
+
+export interface SelectionOption {
+  index: number;
+  network: string;
+  asset: string;
+  amount: string;
+  accepted: boolean;
+  reason: string;
+  wallet?: string;
+  totalCost?: string;
+}
+
+export interface SelectionResult {
+  selected?: any;
+  selectedIndex?: number;
+  wallet?: string;
+  options: SelectionOption[];
+}
+
+// Why an option cannot be paid, or the wallet that would pay it
+function evaluateOption(
+  requirements: any,
+  criteria: SelectionCriteria
+): { reason: string } | { wallet: string } {
+  const { network } = requirements;
+  const networkConfig = NETWORKS[network];
+  if (requirements.scheme !== "exact") {
+    return { reason: `Unsupported scheme "${requirements.scheme}"` };
+  }
+  if (!networkConfig) {
+    return { reason: `Unknown network "${network}"` };
+  }
+  const token = findToken(network, requirements.asset);
+  if (!token || token.address.toLowerCase() !== requirements.asset.toLowerCase()) {
+    return { reason: `Asset ${requirements.asset} is not a supported token on ${network}` };
+  }
+  if (!/^\d+$/.test(String(requirements.maxAmountRequired))) {
+    return { reason: `maxAmountRequired "${requirements.maxAmountRequired}" is not an integer amount` };
+  }
+  if (BigInt(requirements.maxAmountRequired) <= 0n) {
+    return { reason: "maxAmountRequired must be more than zero" };
+  }
+
+  if (criteria.wallet) {
+    try {
+      assertWalletCanPay(getWallet(criteria.wallet), network, networkConfig.type);
+    } catch (error: any) {
+      return { reason: error.message };
+    }
+    return { wallet: criteria.wallet };
+  }
+  const wallet = findWalletForNetwork(network, networkConfig.type);
+  return wallet ? { wallet: wallet.alias } : { reason: `No configured wallet can pay on ${network}` };
+}
+
+// Rank the accepts entries we can pay: preferred networks first (criteria,
+// then the config file's "preferredNetworks"), then lowest total cost to the
+// consumer, then the server's own order. Every option gets a reason.
+export function selectPaymentRequirements(
+  accepts: any[],
+  criteria: SelectionCriteria = {}
+): SelectionResult {
+  const preferred: string[] =
+    criteria.preferredNetworks ?? loadConfig().preferredNetworks ?? [];
+  const preferenceRank = (network: string) => {
+    const rank = preferred.indexOf(network);
+    return rank === -1 ? preferred.length : rank;
+  };
+
+  // Total costs rescaled to 18 decimals, so options in different tokens
+  // compare at face value
+  const costs = new Map<number, bigint>();
+
+  const options: SelectionOption[] = accepts.map((requirements, index) => {
+    const option = {
+      index,
+      network: requirements.network,
+      asset: requirements.asset,
+      amount: requirements.maxAmountRequired,
+    };
+    const evaluation = evaluateOption(requirements, criteria);
+    if ("reason" in evaluation) {
+      return { ...option, accepted: false, reason: evaluation.reason };
+    }
+    const estimate = estimateCost(
+      requirements.network,
+      requirements.maxAmountRequired,
+      requirements.asset
+    );
+    const token = findToken(requirements.network, requirements.asset)!;
+    costs.set(index, scaleUnits(BigInt(estimate.totalCost), token.decimals, 18));
+    return {
+      ...option,
+      accepted: true,
+      reason: "",
+      wallet: evaluation.wallet,
+      totalCost: estimate.totalCostFormatted,
+    };
+  });
+
+  const ranked = options
+    .filter((o) => o.accepted)
+    .sort(
+      (a, b) =>
+        preferenceRank(a.network) - preferenceRank(b.network) ||
+        Number(costs.get(a.index)! - costs.get(b.index)!) ||
+        a.index - b.index
+    );
+
+  ranked.forEach((option, position) => {
+    const preference =
+      preferenceRank(option.network) < preferred.length
+        ? `preferred network #${preferenceRank(option.network) + 1}`
+        : "not a preferred network";
+    const summary = `${preference}, total cost ${option.totalCost}, paid by wallet "${option.wallet}"`;
+    option.reason =
+      position === 0 ? `Chosen: ${summary}` : `Payable, ranked #${position + 1}: ${summary}`;
+  });
+
+  const best = ranked[0];
+  return best
+    ? {
+        selected: accepts[best.index],
+        selectedIndex: best.index,
+        wallet: best.wallet,
+        options,
+      }
+    : { options };
+}
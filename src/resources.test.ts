@@ -0,0 +1,78 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-resources-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+process.env.X402_PAYMENT_LEDGER = path.join(dir, "payments.jsonl");
+fs.writeFileSync(
+  process.env.X402_CONFIG,
+  JSON.stringify({
+    networks: {
+      "test-chain": {
+        type: "evm",
+        name: "Test Chain",
+        chainId: 31337,
+        tokens: [{ symbol: "TUSD", address: "0x5FbDB2315678afecb367f032d93F642f64180aa3", decimals: 6 }],
+      },
+    },
+  })
+);
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { listResources, readResource } = await import("./resources.js");
+
+test("every network, built-in or configured, is listed as a resource", () => {
+  const uris = listResources().map((resource) => resource.uri);
+  assert.ok(uris.includes("x402://networks"));
+  assert.ok(uris.includes("x402://networks/base-sepolia"));
+  assert.ok(uris.includes("x402://networks/solana-devnet"));
+  assert.ok(uris.includes("x402://networks/test-chain"));
+  assert.ok(uris.includes("x402://payments"));
+});
+
+test("x402://networks/{id} reads one network's details and tokens", async () => {
+  const resource = await readResource("x402://networks/base-sepolia");
+  assert.equal(resource.uri, "x402://networks/base-sepolia");
+  assert.equal(resource.mimeType, "application/json");
+  const network = JSON.parse(resource.text);
+  assert.equal(network.network, "base-sepolia");
+  assert.equal(network.type, "EVM");
+  assert.equal(network.chainId, 84532);
+  assert.equal(network.tokens[0].symbol, "USDC");
+
+  const configured = JSON.parse((await readResource("x402://networks/test-chain")).text);
+  assert.equal(configured.chainId, 31337);
+  assert.equal(configured.tokens[0].symbol, "TUSD");
+
+  const solana = JSON.parse((await readResource("x402://networks/solana-devnet")).text);
+  assert.equal(solana.type, "SVM");
+  assert.equal(solana.chainId, "N/A");
+});
+
+test("unknown networks, languages and URIs are refused", async () => {
+  await assert.rejects(readResource("x402://networks/nowhere"), /Unknown resource x402:\/\/networks\/nowhere: no network nowhere/);
+  await assert.rejects(readResource("x402://templates/merchant/base-sepolia/cobol"), /language must be one of/);
+  await assert.rejects(readResource("x402://templates/consumer/nowhere/typescript"), /no network nowhere/);
+  await assert.rejects(readResource("x402://wallets"), /see resources\/list/);
+  await assert.rejects(readResource("https://example.com/networks"), /Unknown resource/);
+});
+
+test("templates are generated code with the language's MIME type", async () => {
+  const merchant = await readResource("x402://templates/merchant/base-sepolia/python");
+  assert.equal(merchant.mimeType, "text/x-python");
+  assert.match(merchant.text, /base-sepolia/);
+
+  const consumer = await readResource("x402://templates/consumer/base-sepolia/typescript");
+  assert.equal(consumer.mimeType, "text/x-typescript");
+  assert.match(consumer.text, /base-sepolia/);
+});
+
+test("x402://payments reads the empty ledger", async () => {
+  const ledger = JSON.parse((await readResource("x402://payments")).text);
+  assert.equal(ledger.ledger, process.env.X402_PAYMENT_LEDGER);
+  assert.equal(ledger.total, 0);
+  assert.deepEqual(ledger.payments, []);
+});
@@ -0,0 +1,149 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { NETWORKS, describeNetwork, getDefaultToken, getNetwork } from "./networks.js";
+import { parseAmount } from "./amounts.js";
+import { getPrimaryFacilitator, requestFacilitator } from "./facilitators.js";
+import { getPaymentLedgerPath, listPayments } from "./ledger.js";
+import { LANGUAGES, Language, generateConsumerCode, generateMerchantMiddleware } from "./templates.js";
+
+// Read-only context a client can attach without a tool call: the network
+// registry, what the facilitator supports, the payment ledger and the
+// generated templates. The ledger and facilitator are read on every request.
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// Most recent ledger payments served by x402://payments
+const LEDGER_RESOURCE_LIMIT = 50;
+
+const CODE_MIME_TYPES: Record<Language, string> = {
+  typescript: "text/x-typescript",
+  javascript: "text/javascript",
+  python: "text/x-python",
+  go: "text/x-go",
+};
+
+const json = (uri: string, value: unknown): ResourceContents => ({
+  uri,
+  mimeType: "application/json",
+  text: JSON.stringify(value, null, 2),
+});
+
+export function listResources() {
+  return [
+    {
+      uri: "x402://networks",
+      name: "Networks",
+      description: "Every configured network with its chain ID, RPC URL, tokens and fee model",
+      mimeType: "application/json",
+    },
+    ...Object.keys(NETWORKS).map((id) => ({
+      uri: `x402://networks/${id}`,
+      name: `Network: ${NETWORKS[id].name}`,
+      description: `${id} network details and tokens`,
+      mimeType: "application/json",
+    })),
+    {
+      uri: "x402://facilitator/supported",
+      name: "Facilitator supported networks",
+      description: "Schemes and networks the primary facilitator (or the first healthy fallback) supports",
+      mimeType: "application/json",
+    },
+    {
+      uri: "x402://payments",
+      name: "Payment ledger",
+      description: `The ${LEDGER_RESOURCE_LIMIT} most recent payments in the local ledger, newest first`,
+      mimeType: "application/json",
+    },
+  ];
+}
+
+export function listResourceTemplates() {
+  return [
+    {
+      uriTemplate: "x402://networks/{network}",
+      name: "Network",
+      description: "Details and tokens of one network",
+      mimeType: "application/json",
+    },
+    {
+      uriTemplate: "x402://templates/merchant/{network}/{language}",
+      name: "Merchant middleware",
+      description: `Merchant middleware charging 0.01 of the network's default token, in ${LANGUAGES.join(", ")}`,
+    },
+    {
+      uriTemplate: "x402://templates/consumer/{network}/{language}",
+      name: "Consumer code",
+      description: `Consumer code paying with the network's default token, in ${LANGUAGES.join(", ")}`,
+    },
+  ];
+}
+
+function unknownResource(uri: string, reason: string): never {
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource ${uri}: ${reason}`);
+}
+
+function templateArguments(uri: string, network: string, language: string) {
+  if (!NETWORKS[network]) {
+    unknownResource(uri, `no network ${network}`);
+  }
+  if (!(LANGUAGES as readonly string[]).includes(language)) {
+    unknownResource(uri, `language must be one of ${LANGUAGES.join(", ")}`);
+  }
+  return {
+    network,
+    networkConfig: getNetwork(network),
+    token: getDefaultToken(network),
+    language: language as Language,
+  };
+}
+
+export async function readResource(uri: string): Promise<ResourceContents> {
+  const parts = uri.startsWith("x402://") ? uri.slice("x402://".length).split("/") : [];
+
+  switch (parts.join("/")) {
+    case "networks":
+      return json(uri, Object.keys(NETWORKS).map(describeNetwork));
+    case "facilitator/supported": {
+      const result = await requestFacilitator("get", "/supported");
+      return json(uri, {
+        facilitator: { id: result.facilitator.id, url: result.facilitator.url },
+        response: result.data,
+      });
+    }
+    case "payments": {
+      const payments = listPayments();
+      return json(uri, {
+        ledger: getPaymentLedgerPath(),
+        total: payments.length,
+        payments: payments.slice(-LEDGER_RESOURCE_LIMIT).reverse(),
+      });
+    }
+  }
+
+  if (parts.length === 2 && parts[0] === "networks") {
+    if (!NETWORKS[parts[1]]) {
+      unknownResource(uri, `no network ${parts[1]}`);
+    }
+    return json(uri, describeNetwork(parts[1]));
+  }
+
+  if (parts.length === 4 && parts[0] === "templates" && (parts[1] === "merchant" || parts[1] === "consumer")) {
+    const options = templateArguments(uri, parts[2], parts[3]);
+    const text =
+      parts[1] === "merchant"
+        ? generateMerchantMiddleware({
+            ...options,
+            price: parseAmount("0.01", options.token),
+            description: "Premium content access",
+            mimeType: "application/json",
+            facilitatorUrl: getPrimaryFacilitator().url,
+          })
+        : generateConsumerCode(options);
+    return { uri, mimeType: CODE_MIME_TYPES[options.language], text };
+  }
+
+  return unknownResource(uri, "see resources/list and resources/templates/list");
+}
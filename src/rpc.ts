@@ -0,0 +1,20 @@
+import { ethers } from "ethers";
+import { Connection } from "@solana/web3.js";
+import { getNetwork, getRpcUrl } from "./networks.js";
+
+// Clients for a network's own RPC endpoint (rpcUrl in the network registry),
+// used for reads the facilitator does not answer: balances, token accounts,
+// authorization state and settlement status.
+
+const RPC_TIMEOUT_MS = 30_000;
+
+// Destroy the provider when done so its polling does not keep the process alive
+export function evmProvider(network: string): ethers.JsonRpcProvider {
+  const request = new ethers.FetchRequest(getRpcUrl(network));
+  request.timeout = RPC_TIMEOUT_MS;
+  return new ethers.JsonRpcProvider(request, getNetwork(network).chainId, { staticNetwork: true });
+}
+
+export function solanaConnection(network: string): Connection {
+  return new Connection(getRpcUrl(network), "confirmed");
+}
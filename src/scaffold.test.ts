@@ -0,0 +1,54 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-scaffold-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { SCAFFOLD_FRAMEWORKS, scaffoldMerchantProject, writeProject } = await import("./scaffold.js");
+const { NETWORKS } = await import("./networks.js");
+
+const targets = ["base-sepolia", "solana-devnet"].map((network) => ({
+  network,
+  networkConfig: NETWORKS[network],
+  token: NETWORKS[network].tokens[0],
+  price: 10000n,
+  description: "Premium data",
+  mimeType: "application/json",
+  facilitatorUrl: "http://localhost:4020",
+  language: "typescript" as const,
+}));
+
+test("a project is written into a new directory", () => {
+  const files = scaffoldMerchantProject("merchant", "express", targets);
+  const written = writeProject(path.join(dir, "merchant"), files);
+  assert.equal(written.length, files.length);
+  assert.equal(fs.readFileSync(path.join(dir, "merchant", "package.json"), "utf-8"), files[0].content);
+  assert.ok(fs.existsSync(path.join(dir, "merchant", "src", "payments", "solana-devnet.ts")));
+});
+
+test("a non-empty directory is refused and left alone", () => {
+  const target = path.join(dir, "existing");
+  fs.mkdirSync(target);
+  fs.writeFileSync(path.join(target, "notes.txt"), "keep me");
+  assert.throws(() => writeProject(target, scaffoldMerchantProject("merchant", "koa", targets)), /is not empty/);
+  assert.deepEqual(fs.readdirSync(target), ["notes.txt"]);
+
+  // An empty one is fine
+  const empty = path.join(dir, "empty");
+  fs.mkdirSync(empty);
+  assert.ok(writeProject(empty, scaffoldMerchantProject("merchant", "koa", targets)).length > 0);
+});
+
+test("every framework pins each of its dependencies", () => {
+  for (const framework of SCAFFOLD_FRAMEWORKS) {
+    const pkg = JSON.parse(scaffoldMerchantProject("merchant", framework, targets)[0].content);
+    for (const [name, version] of Object.entries({ ...pkg.dependencies, ...pkg.devDependencies })) {
+      assert.match(String(version), /^\d+\.\d+\.\d+$/, `${framework}: ${name}`);
+    }
+  }
+});
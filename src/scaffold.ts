@@ -0,0 +1,441 @@
+import fs from "fs";
+import path from "path";
+import {
+  ConsumerTemplateOptions,
+  MerchantTemplateOptions,
+  generateConsumerCode,
+  generateMerchantMiddleware,
+} from "./templates.js";
+import { formatAmount } from "./amounts.js";
+
+// Complete, runnable TypeScript projects around the generated middleware and
+// clients: package.json, tsconfig, .env.example, a README and a smoke test.
+
+export const SCAFFOLD_FRAMEWORKS = ["express", "fastify", "hono", "koa"] as const;
+export type ScaffoldFramework = (typeof SCAFFOLD_FRAMEWORKS)[number];
+
+export interface ScaffoldFile {
+  path: string;
+  content: string;
+}
+
+// Dependencies are pinned so every scaffolded project installs the same tree
+const VERSIONS: Record<string, string> = {
+  "@hono/node-server": "1.14.0",
+  "@koa/router": "13.1.0",
+  "@solana/spl-token": "0.4.15",
+  "@solana/web3.js": "1.99.0",
+  "@types/express": "4.17.21",
+  "@types/koa": "2.15.0",
+  "@types/koa__router": "12.0.4",
+  "@types/node": "22.15.3",
+  axios: "1.9.0",
+  bs58: "5.0.0",
+  ethers: "6.13.7",
+  express: "4.21.2",
+  fastify: "5.2.1",
+  hono: "4.7.5",
+  koa: "2.16.0",
+  tsx: "4.23.15",
+  typescript: "5.8.3",
+};
+
+const FRAMEWORK_DEPENDENCIES: Record<ScaffoldFramework, { dependencies: string[]; devDependencies: string[] }> = {
+  express: { dependencies: ["express"], devDependencies: ["@types/express"] },
+  fastify: { dependencies: ["fastify"], devDependencies: [] },
+  hono: { dependencies: ["hono", "@hono/node-server"], devDependencies: [] },
+  koa: { dependencies: ["koa", "@koa/router"], devDependencies: ["@types/koa", "@types/koa__router"] },
+};
+
+// Placeholder payee for the consumer smoke test; nothing is ever sent to it
+const TEST_PAY_TO = "0x000000000000000000000000000000000000dead";
+
+const pin = (names: string[]) =>
+  Object.fromEntries([...new Set(names)].sort().map((name) => [name, VERSIONS[name]]));
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+const list = (values: string[]) => values.map((value) => `'${value}'`).join(", ");
+
+// Name for a network's middleware, e.g. "base-sepolia" -> "payOnBaseSepolia"
+const payOn = (network: string) =>
+  `payOn${network.replace(/(^|-)([a-z0-9])/g, (_, __, c: string) => c.toUpperCase())}`;
+
+function packageJson(name: string, dependencies: string[], devDependencies: string[]): string {
+  return json({
+    name,
+    version: "0.1.0",
+    private: true,
+    type: "module",
+    scripts: {
+      start: "tsx --env-file=.env src/index.ts",
+      test: "tsx --test test/smoke.test.ts",
+      typecheck: "tsc --noEmit",
+    },
+    dependencies: pin(dependencies),
+    devDependencies: pin(["typescript", "tsx", "@types/node", ...devDependencies]),
+    engines: { node: ">=20.6.0" },
+  });
+}
+
+const TSCONFIG = json({
+  compilerOptions: {
+    target: "ES2022",
+    module: "NodeNext",
+    moduleResolution: "NodeNext",
+    strict: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    noEmit: true,
+  },
+  include: ["src", "test"],
+});
+
+const GITIGNORE = "node_modules\n.env\n";
+
+function serverFile(framework: ScaffoldFramework, targets: MerchantTemplateOptions[]): string {
+  const imports = targets
+    .map((t) => `import { checkPayment as ${payOn(t.network)} } from './payments/${t.network}.js';`)
+    .join("\n");
+  const content = (t: MerchantTemplateOptions, payment = "") =>
+    `{ data: 'Premium content', network: '${t.network}'${payment} }`;
+
+  switch (framework) {
+    case "express":
+      return `import express from 'express';
+import type { Server } from 'node:http';
+${imports}
+
+const app = express();
+${targets
+  .map(
+    (t) => `
+app.get('/premium/${t.network}', ${payOn(t.network)}, (_req, res) => {
+  res.json(${content(t, ", payment: res.locals.payment")});
+});`
+  )
+  .join("\n")}
+
+export function start(port: number): Promise<Server> {
+  return new Promise((resolve) => {
+    const server = app.listen(port, () => resolve(server));
+  });
+}
+`;
+
+    case "fastify":
+      return `import Fastify from 'fastify';
+import type { Server } from 'node:http';
+${imports}
+
+const app = Fastify();
+${targets
+  .map(
+    (t) => `
+app.get('/premium/${t.network}', { preHandler: ${payOn(t.network)} }, async () => (${content(t)}));`
+  )
+  .join("\n")}
+
+export async function start(port: number): Promise<Server> {
+  await app.listen({ port });
+  return app.server;
+}
+`;
+
+    case "hono":
+      return `import { Hono } from 'hono';
+import { serve } from '@hono/node-server';
+import type { Server } from 'node:http';
+${imports}
+
+const app = new Hono();
+${targets
+  .map(
+    (t) => `
+app.get('/premium/${t.network}', ${payOn(t.network)}, (c) => c.json(${content(t)}));`
+  )
+  .join("\n")}
+
+export function start(port: number): Promise<Server> {
+  return new Promise((resolve) => {
+    const server = serve({ fetch: app.fetch, port }, () => resolve(server as Server));
+  });
+}
+`;
+
+    case "koa":
+      return `import Koa from 'koa';
+import Router from '@koa/router';
+import type { Server } from 'node:http';
+${imports}
+
+const app = new Koa();
+const router = new Router();
+${targets
+  .map(
+    (t) => `
+router.get('/premium/${t.network}', ${payOn(t.network)}, (ctx) => {
+  ctx.body = ${content(t, ", payment: ctx.state.payment")};
+});`
+  )
+  .join("\n")}
+
+app.use(router.routes());
+
+export function start(port: number): Promise<Server> {
+  return new Promise((resolve) => {
+    const server = app.listen(port, () => resolve(server));
+  });
+}
+`;
+  }
+}
+
+// Merchant server with one paid route per network: GET /premium/<network>
+export function scaffoldMerchantProject(
+  name: string,
+  framework: ScaffoldFramework,
+  targets: MerchantTemplateOptions[]
+): ScaffoldFile[] {
+  const networks = targets.map((t) => t.network);
+  const { dependencies, devDependencies } = FRAMEWORK_DEPENDENCIES[framework];
+  const mixed = new Set(targets.map((t) => t.networkConfig.type)).size > 1;
+  // With EVM and Solana routes side by side each needs its own payee
+  const walletEnv = (t: MerchantTemplateOptions) =>
+    mixed && t.networkConfig.type === "svm" ? "MERCHANT_SOLANA_WALLET_ADDRESS" : "MERCHANT_WALLET_ADDRESS";
+  const walletEnvs = [...new Set(targets.map(walletEnv))];
+
+  const middleware = targets.map((t) => ({
+    path: `src/payments/${t.network}.ts`,
+    content: `${generateMerchantMiddleware({
+      ...t,
+      language: "typescript",
+      framework,
+      walletEnv: walletEnv(t),
+    })}\n`,
+  }));
+
+  const env = [
+    ...walletEnvs.map((variable) => {
+      const paidOn = targets.filter((t) => walletEnv(t) === variable).map((t) => t.network);
+      return `# Address that receives ${paidOn.join(", ")} payments\n${variable}=`;
+    }),
+    `# Optional: facilitator that verifies and settles payments\nFACILITATOR_URL=${targets[0].facilitatorUrl}`,
+    "PORT=3000",
+  ].join("\n\n");
+
+  const routes = targets
+    .map((t) => `| \`GET /premium/${t.network}\` | ${t.networkConfig.name} | ${t.token.symbol} | ${formatAmount(t.price, t.token)} |`)
+    .join("\n");
+
+  return [
+    { path: "package.json", content: packageJson(name, dependencies, devDependencies) },
+    { path: "tsconfig.json", content: TSCONFIG },
+    { path: ".gitignore", content: GITIGNORE },
+    { path: ".env.example", content: `${env}\n` },
+    ...middleware,
+    { path: "src/server.ts", content: serverFile(framework, targets) },
+    {
+      path: "src/index.ts",
+      content: `import { start } from './server.js';
+
+const port = Number(process.env.PORT || 3000);
+await start(port);
+
+console.log(\`x402 merchant listening on http://localhost:\${port}\`);
+for (const network of [${list(networks)}]) {
+  console.log(\`  GET /premium/\${network}\`);
+}
+`,
+    },
+    {
+      path: "test/smoke.test.ts",
+      content: `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { start } from '../src/server.js';
+
+test('unpaid requests are answered with 402 and payment requirements', async (t) => {
+  const server = await start(0);
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+
+  for (const network of [${list(networks)}]) {
+    const response = await fetch(\`http://localhost:\${port}/premium/\${network}\`);
+    assert.equal(response.status, 402);
+    const body = await response.json();
+    assert.equal(body.accepts[0].network, network);
+  }
+});
+`,
+    },
+    {
+      path: "README.md",
+      content: `# ${name}
+
+x402 merchant server (${framework}) that charges per request on ${targets.map((t) => t.networkConfig.name).join(", ")}.
+
+## Run
+
+\`\`\`bash
+npm install
+cp .env.example .env   # then set ${walletEnvs.join(" and ")}
+npm start
+\`\`\`
+
+| Route | Network | Asset | Price |
+|-------|---------|-------|-------|
+${routes}
+
+Without an \`X-PAYMENT\` header each route answers 402 with its payment requirements. A paid request is verified and settled through the facilitator before the handler in \`src/server.ts\` runs.
+
+## Test
+
+\`\`\`bash
+npm test
+\`\`\`
+
+The smoke test starts the server on a free port and checks that every route asks for payment. It needs no wallet or network access.
+`,
+    },
+  ];
+}
+
+// Consumer client for each network, run as: npm start -- <url>
+export function scaffoldConsumerProject(name: string, targets: ConsumerTemplateOptions[]): ScaffoldFile[] {
+  const networks = targets.map((t) => t.network);
+  const evm = targets.some((t) => t.networkConfig.type === "evm");
+  const svm = targets.some((t) => t.networkConfig.type === "svm");
+  const dependencies = [
+    "axios",
+    ...(evm ? ["ethers"] : []),
+    ...(svm ? ["@solana/web3.js", "@solana/spl-token", "bs58"] : []),
+  ];
+
+  const clients = targets.map((t) => ({
+    path: `src/clients/${t.network}.ts`,
+    content: `${generateConsumerCode({ ...t, language: "typescript" })}\n`,
+  }));
+
+  const env = [
+    ...(evm ? ["# Private key (0x...) of the wallet that pays on EVM networks\nCONSUMER_PRIVATE_KEY="] : []),
+    ...(svm ? ["# Base58 secret key of the wallet that pays on Solana\nCONSUMER_PRIVATE_KEY_BS58="] : []),
+    `# Network to pay on: ${networks.join(", ")}\nNETWORK=${networks[0]}`,
+    "# Default URL for npm start\nMERCHANT_URL=",
+  ].join("\n\n");
+
+  const tests = targets.map((t) =>
+    t.networkConfig.type === "svm"
+      ? `
+test('pays a 402 on ${t.network}', { skip: 'Solana payments need RPC access and a funded CONSUMER_PRIVATE_KEY_BS58' }, () => {});`
+      : `
+test('pays a 402 on ${t.network}', async (t) => {
+  const requirements = {
+    scheme: 'exact',
+    network: '${t.network}',
+    maxAmountRequired: '10000',
+    payTo: '${TEST_PAY_TO}',
+    asset: '${t.token.address}',
+    resource: 'http://localhost/premium',
+  };
+  const merchant = await startMerchant(requirements);
+  t.after(() => merchant.close());
+  const { port } = merchant.address() as AddressInfo;
+
+  const { fetchWithPayment } = await import('../src/clients/${t.network}.js');
+  const result = await fetchWithPayment(\`http://localhost:\${port}/premium\`);
+  assert.equal(result.network, '${t.network}');
+  assert.equal(result.value, '10000');
+});`
+  );
+
+  return [
+    { path: "package.json", content: packageJson(name, dependencies, []) },
+    { path: "tsconfig.json", content: TSCONFIG },
+    { path: ".gitignore", content: GITIGNORE },
+    { path: ".env.example", content: `${env}\n` },
+    ...clients,
+    {
+      path: "src/index.ts",
+      content: `const NETWORKS = [${list(networks)}];
+const network = process.env.NETWORK || NETWORKS[0];
+if (!NETWORKS.includes(network)) {
+  throw new Error(\`NETWORK must be one of \${NETWORKS.join(', ')}\`);
+}
+
+const url = process.argv[2] || process.env.MERCHANT_URL;
+if (!url) {
+  console.error('Usage: npm start -- <url> (or set MERCHANT_URL)');
+  process.exit(1);
+}
+
+const { fetchWithPayment } = await import(\`./clients/\${network}.js\`);
+console.log(await fetchWithPayment(url));
+`,
+    },
+    {
+      path: "test/smoke.test.ts",
+      content: `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+${evm ? "import { ethers } from 'ethers';\n\n// Signing is offline, so any key will do\nprocess.env.CONSUMER_PRIVATE_KEY ||= ethers.Wallet.createRandom().privateKey;\n" : ""}
+// Answers 402 until it gets an X-PAYMENT header, then echoes the payment
+function startMerchant(requirements: object): Promise<ReturnType<typeof createServer>> {
+  const server = createServer((req, res) => {
+    const header = req.headers['x-payment'];
+    res.setHeader('Content-Type', 'application/json');
+    if (!header) {
+      res.statusCode = 402;
+      res.end(JSON.stringify({ x402Version: 1, error: 'X-PAYMENT header is required', accepts: [requirements] }));
+      return;
+    }
+    const payment = JSON.parse(Buffer.from(String(header), 'base64').toString());
+    res.end(JSON.stringify({ network: payment.network, value: payment.payload.authorization?.value }));
+  });
+  return new Promise((resolve) => server.listen(0, () => resolve(server)));
+}
+${tests.join("\n")}
+`,
+    },
+    {
+      path: "README.md",
+      content: `# ${name}
+
+x402 client that pays for HTTP 402 responses on ${targets.map((t) => t.networkConfig.name).join(", ")}.
+
+## Run
+
+\`\`\`bash
+npm install
+cp .env.example .env   # then set ${[evm ? "CONSUMER_PRIVATE_KEY" : "", svm ? "CONSUMER_PRIVATE_KEY_BS58" : ""].filter(Boolean).join(" and ")}
+npm start -- https://merchant.example.com/premium
+\`\`\`
+
+\`NETWORK\` picks the client in \`src/clients/\`: ${networks.map((n) => `\`${n}\``).join(", ")}. The client requests the URL and, on a 402, signs a payment for the requirements on that network and retries with an \`X-PAYMENT\` header.
+
+## Test
+
+\`\`\`bash
+npm test
+\`\`\`
+
+The smoke test pays a local mock merchant${evm ? " with a throwaway EVM key" : ""}.${svm ? " Solana networks are skipped because building the transaction needs RPC access." : ""}
+`,
+    },
+  ];
+}
+
+// Write a scaffolded project into an empty or missing directory
+export function writeProject(outputDir: string, files: ScaffoldFile[]): string[] {
+  if (fs.existsSync(outputDir) && fs.readdirSync(outputDir).length > 0) {
+    throw new Error(`${outputDir} is not empty; choose a new directory for the project`);
+  }
+
+  for (const file of files) {
+    const target = path.join(outputDir, file.path);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.content);
+  }
+  return files.map((file) => path.join(outputDir, file.path));
+}
@@ -0,0 +1,594 @@
+import path from "path";
+import { z } from "zod";
+import { ethers } from "ethers";
+import { PublicKey } from "@solana/web3.js";
+import { NETWORKS, networksOfType } from "./networks.js";
+import { LANGUAGES, MERCHANT_FRAMEWORKS, frameworksFor } from "./templates.js";
+import { SCAFFOLD_FRAMEWORKS } from "./scaffold.js";
+import { PAYMENT_STAGES } from "./ledger.js";
+
+// Input schemas for every MCP tool. Each schema is both the tool's advertised
+// inputSchema (converted with toJsonSchema) and the validator its arguments
+// are parsed with before the tool runs.
+
+export function isEvmAddress(value: string): boolean {
+  // ethers rejects mixed-case addresses with a bad EIP-55 checksum
+  return /^0x[0-9a-fA-F]{40}$/.test(value) && ethers.isAddress(value);
+}
+
+export function isSolanaAddress(value: string): boolean {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value)) {
+    return false;
+  }
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isAddressForNetwork(network: string, value: string): boolean {
+  return NETWORKS[network]?.type === "svm" ? isSolanaAddress(value) : isEvmAddress(value);
+}
+
+const asEnum = (values: string[]) => z.enum(values as [string, ...string[]]);
+
+// Lazy, so the network registry is only read once a schema is used
+const networkId = (description: string, type?: "evm" | "svm") =>
+  z.lazy(() => asEnum(type ? networksOfType(type) : Object.keys(NETWORKS))).describe(description);
+
+const baseUnitAmount = (description: string) =>
+  z
+    .string()
+    .regex(/^\d+$/, 'Must be an integer amount in token base units, e.g. "10000"')
+    .describe(description);
+
+const price = (description: string) =>
+  z
+    .string()
+    .regex(
+      /^\$?\s*\d+(\.\d+)?\s*([A-Za-z][A-Za-z0-9.]*)?$/,
+      'Must be base units ("50000"), token units ("0.05 USDC") or a dollar price ("$0.05")'
+    )
+    .describe(description);
+
+const assetArgument = z
+  .string()
+  .optional()
+  .describe(
+    "Token symbol (e.g. USDC, EURC) or contract/mint address from the network registry (default: the network's first token, usually USDC)"
+  );
+
+const httpUrl = (description: string) =>
+  z
+    .string()
+    .regex(/^https?:\/\/[^\s/?#]+[^\s]*$/i, "Must be an absolute http(s) URL")
+    .describe(description);
+
+// Check that an address field matches the address format of the network in
+// the same object. Unknown networks are left to the tool to report.
+function addressForNetwork(fields: string[]) {
+  return (value: any, ctx: z.RefinementCtx) => {
+    const type = NETWORKS[value?.network]?.type;
+    if (!type) {
+      return;
+    }
+    for (const field of fields) {
+      if (typeof value[field] === "string" && !isAddressForNetwork(value.network, value[field])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message:
+            type === "evm"
+              ? `Not a valid EVM address for ${value.network} (0x + 40 hex characters, valid checksum)`
+              : `Not a valid Solana address for ${value.network} (base58 public key)`,
+        });
+      }
+    }
+  };
+}
+
+export const paymentRequirementsSchema = z
+  .object({
+    scheme: z.string(),
+    network: z.string(),
+    maxAmountRequired: baseUnitAmount("Amount in token base units"),
+    payTo: z.string(),
+    asset: z.string(),
+    resource: z.string(),
+    description: z.string().optional(),
+    mimeType: z.string().optional(),
+    maxTimeoutSeconds: z.number().int().optional(),
+    extra: z.record(z.any()).optional(),
+  })
+  .passthrough()
+  .superRefine(addressForNetwork(["payTo", "asset"]));
+
+export const paymentRequiredSchema = z.union([
+  z
+    .object({
+      x402Version: z.number().int().optional(),
+      error: z.string().optional(),
+      accepts: z.array(z.object({}).passthrough()).min(1),
+    })
+    .passthrough(),
+  paymentRequirementsSchema,
+]);
+
+const paymentPayloadSchema = z
+  .object({
+    x402Version: z.number().int(),
+    scheme: z.string(),
+    network: z.string(),
+    payload: z.object({}).passthrough(),
+  })
+  .passthrough();
+
+const language = z
+  .enum(LANGUAGES)
+  .default("typescript")
+  .describe("Programming language");
+
+const REQUIREMENTS_OR_ENVELOPE =
+  "Payment requirements from the merchant's HTTP 402 response: a bare requirements object, or the full { x402Version, accepts: [...] } body (the entry for the network is used)";
+
+const noArguments = z.object({});
+
+const preflight = z
+  .boolean()
+  .default(false)
+  .describe(
+    "Check the payer's token balance, Solana token accounts and the EIP-3009 nonce over the network's RPC before signing; any warning stops the payment"
+  );
+
+const date = (description: string) =>
+  z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Must be an ISO date, e.g. 2025-01-31")
+    .optional()
+    .describe(description);
+
+const methods = z
+  .array(z.string().regex(/^([A-Za-z]+|\*)$/, 'Must be an HTTP method or "*"'))
+  .min(1);
+
+export const pricingConfigSchema = z.object({
+  baseUrl: httpUrl("Public origin of the API, e.g. https://api.example.com; each route's resource is baseUrl + path")
+    .optional(),
+  networks: z
+    .array(networkId("Network ID"))
+    .min(1)
+    .describe("Networks every route accepts unless it lists its own"),
+  payTo: z
+    .record(z.string())
+    .describe('Receiving address per network type ("evm", "svm") or network ID; a network ID wins over its type'),
+  description: z.string().optional().describe("Default description of what a payment is for"),
+  mimeType: z.string().optional().describe("Default content type (application/json)"),
+  routes: z
+    .array(
+      z.object({
+        path: z
+          .string()
+          .regex(/^\//, "Must start with /")
+          .describe('Route path; "*" matches the rest of the path and ":name" one segment, e.g. /api/reports/*'),
+        methods: methods.optional().describe('HTTP methods priced on this route (default ["GET"]; "*" for any)'),
+        price: price("Price per request: base units ('10000'), token units ('0.01 USDC') or dollars ('$0.01')"),
+        networks: z
+          .array(networkId("Network ID"))
+          .min(1)
+          .optional()
+          .describe("Networks this route accepts (default: the config's networks)"),
+        asset: assetArgument,
+        description: z.string().optional().describe("What a payment for this route is for"),
+        mimeType: z.string().optional().describe("Content type of this route"),
+      })
+    )
+    .min(1)
+    .describe("Priced routes, matched in order; requests no route matches are free"),
+});
+
+const paymentFilter = {
+  since: date("Only payments first recorded at or after this date"),
+  until: date("Only payments first recorded at or before this date; a date without a time includes that whole day (UTC)"),
+  network: networkId("Only payments on this network").optional(),
+  wallet: z.string().optional().describe("Only payments by this wallet alias or payer address"),
+  status: z.enum(PAYMENT_STAGES).optional().describe("Only payments whose latest stage is this one"),
+};
+
+export const TOOL_SCHEMAS = {
+  x402_get_health: noArguments,
+  x402_get_supported_networks: noArguments,
+  x402_get_stats: noArguments,
+  x402_create_payment_requirements: z
+    .object({
+      network: networkId("Network ID (base, polygon, avalanche, solana, etc.)"),
+      amount: price(
+        "Price as base units ('50000'), token units ('0.05 USDC') or dollars ('$0.05'), converted with the asset's decimals"
+      ),
+      asset: assetArgument,
+      merchantWallet: z.string().describe("Merchant's receiving wallet address"),
+      resource: httpUrl("Full URL of the protected resource"),
+      description: z.string().describe("Description of what the payment is for"),
+      mimeType: z.string().default("application/json").describe("Content type being sold"),
+      envelope: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Return the full 402 response body ({ x402Version, error, accepts: [...] }) instead of a bare requirements object"
+        ),
+    })
+    .superRefine(addressForNetwork(["merchantWallet"])),
+  x402_create_route_requirements: z.object({
+    pricing: pricingConfigSchema
+      .optional()
+      .describe('Pricing config (default: the "pricing" section of x402.config.json)'),
+    paths: z
+      .array(z.string())
+      .min(1)
+      .optional()
+      .describe(
+        'Request paths to build envelopes for, e.g. "/api/reports/42" or "POST /api/reports/42", each priced by the first route it matches. Without them every route is listed, and "*" or ":name" routes have no envelope'
+      ),
+  }),
+  x402_lint_requirements: z.object({
+    paymentRequired: z
+      .record(z.any())
+      .describe(
+        "Payment requirements to check: a bare requirements object, or the full 402 body { x402Version, accepts: [...] }"
+      ),
+  }),
+  x402_list_wallets: noArguments,
+  x402_get_wallet_address: z.object({
+    wallet: z.string().describe("Wallet alias"),
+    network: networkId("Network ID the wallet should be able to pay on").optional(),
+  }),
+  x402_get_budget_status: z.object({
+    wallet: z.string().optional().describe("Wallet alias (default: all configured wallets)"),
+    network: networkId("Network ID (default: every network the wallet can pay on)").optional(),
+  }),
+  x402_get_balance: z
+    .object({
+      network: networkId("Network ID"),
+      wallet: z.string().optional().describe("Wallet alias whose balances to read"),
+      address: z.string().optional().describe("Address to read instead of a configured wallet"),
+      asset: assetArgument.describe(
+        "Token symbol or contract/mint address (default: every token registered for the network)"
+      ),
+    })
+    .refine((value) => !value.wallet !== !value.address, {
+      message: "Give either wallet or address",
+      path: ["wallet"],
+    })
+    .superRefine(addressForNetwork(["address"])),
+  x402_create_evm_payment: z.object({
+    network: networkId("Network ID (base, polygon, avalanche, etc.)", "evm"),
+    wallet: z.string().describe("Alias of the configured EVM wallet that pays (see x402_list_wallets)"),
+    paymentRequirements: paymentRequiredSchema.describe(REQUIREMENTS_OR_ENVELOPE),
+    preflight,
+  }),
+  x402_create_solana_payment: z.object({
+    network: networkId("Network ID (solana, solana-devnet, etc.)", "svm"),
+    wallet: z
+      .string()
+      .describe("Alias of the configured Solana wallet that pays (see x402_list_wallets)"),
+    paymentRequirements: paymentRequiredSchema.describe(REQUIREMENTS_OR_ENVELOPE),
+    preflight,
+  }),
+  x402_select_payment_requirements: z.object({
+    paymentRequired: paymentRequiredSchema.describe(
+      "The merchant's 402 response body: { x402Version, error, accepts: [...] } or a bare requirements object"
+    ),
+    preferredNetworks: z
+      .array(z.string())
+      .optional()
+      .describe("Network IDs in order of preference"),
+    wallet: z.string().optional().describe("Only consider options this wallet alias can pay"),
+  }),
+  x402_fetch: z.object({
+    url: httpUrl("URL of the protected resource"),
+    method: z.string().default("GET").describe("HTTP method"),
+    headers: z.record(z.string()).optional().describe("Request headers"),
+    body: z
+      .union([z.string(), z.record(z.any())])
+      .optional()
+      .describe("Request body (objects are sent as JSON)"),
+    wallet: z
+      .string()
+      .optional()
+      .describe("Wallet alias to pay with (default: first wallet that can pay on the chosen network)"),
+    preferredNetworks: z
+      .array(z.string())
+      .optional()
+      .describe("Network IDs in order of preference when the server accepts several"),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe("Stop after showing what would be paid, without signing"),
+  }),
+  x402_verify_payment: z.object({
+    paymentPayload: paymentPayloadSchema.describe("Decoded payment payload from X-PAYMENT header"),
+    paymentRequirements: paymentRequirementsSchema.describe(
+      "Payment requirements that were sent to consumer"
+    ),
+    mode: z
+      .enum(["facilitator", "local"])
+      .default("facilitator")
+      .describe(
+        "'facilitator' forwards to the facilitator's /verify; 'local' checks signatures and payment fields offline (EVM and Solana)"
+      ),
+  }),
+  x402_settle_payment: z.object({
+    paymentPayload: paymentPayloadSchema.describe("Decoded payment payload from X-PAYMENT header"),
+    paymentRequirements: paymentRequirementsSchema.describe(
+      "Payment requirements that were sent to consumer"
+    ),
+  }),
+  x402_get_settlement_status: z
+    .object({
+      network: networkId("Network the settlement was sent to"),
+      transaction: z
+        .string()
+        .min(1)
+        .describe("Settlement transaction: an EVM transaction hash or a Solana signature"),
+      paymentRequirements: paymentRequirementsSchema
+        .optional()
+        .describe("Payment requirements to check the transfer that happened against (optional)"),
+      waitForFinality: z
+        .boolean()
+        .default(false)
+        .describe("Poll until the transaction is finalized or reverted instead of returning its current status"),
+      timeoutSeconds: z
+        .number()
+        .int()
+        .positive()
+        .max(600)
+        .default(60)
+        .describe("How long to wait for finality before returning the last status seen"),
+      finalityConfirmations: z
+        .number()
+        .int()
+        .positive()
+        .default(12)
+        .describe(
+          "EVM chains without a 'finalized' block (e.g. local nodes): confirmations after which the transaction counts as finalized"
+        ),
+    })
+    .superRefine((value, ctx) => {
+      const type = NETWORKS[value.network]?.type;
+      const valid =
+        type === "svm"
+          ? /^[1-9A-HJ-NP-Za-km-z]{64,88}$/.test(value.transaction)
+          : /^0x[0-9a-fA-F]{64}$/.test(value.transaction);
+      if (type && !valid) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["transaction"],
+          message:
+            type === "evm"
+              ? `Not a transaction hash for ${value.network} (0x + 64 hex characters)`
+              : `Not a transaction signature for ${value.network} (base58)`,
+        });
+      }
+    }),
+  x402_decode_payment_header: z.object({
+    paymentHeader: z.string().base64().describe("Base64-encoded X-PAYMENT header value"),
+  }),
+  x402_inspect_solana_payment: z
+    .object({
+      paymentHeader: z.string().base64().optional().describe("Base64-encoded X-PAYMENT header value"),
+      paymentPayload: paymentPayloadSchema
+        .optional()
+        .describe("Decoded payment payload (alternative to paymentHeader)"),
+      paymentRequirements: paymentRequirementsSchema
+        .optional()
+        .describe("Payment requirements to check the transaction against (optional)"),
+    })
+    .refine((value) => value.paymentHeader || value.paymentPayload, {
+      message: "Either paymentHeader or paymentPayload is required",
+      path: ["paymentHeader"],
+    }),
+  x402_generate_merchant_middleware: z
+    .object({
+      mode: z
+        .enum(["single", "routes"])
+        .default("single")
+        .describe(
+          "'single' charges one price on one network; 'routes' looks up each request's price and networks in a pricing config"
+        ),
+      network: networkId("Network ID to generate middleware for (single mode)").optional(),
+      pricing: pricingConfigSchema
+        .optional()
+        .describe('Routes mode pricing config (default: the "pricing" section of x402.config.json)'),
+      language,
+      framework: z
+        .enum(MERCHANT_FRAMEWORKS)
+        .optional()
+        .describe(
+          "Web framework (default: express for TypeScript/JavaScript, fastapi for Python, net/http for Go); nextjs generates an App Router route handler wrapper that also runs on the edge runtime"
+        ),
+      asset: assetArgument,
+      price: price(
+        "Price per request: base units ('10000'), token units ('0.01 USDC') or dollars ('$0.01')"
+      ).default("0.01"),
+      description: z
+        .string()
+        .default("Premium content access")
+        .describe("Description of what the payment is for"),
+      mimeType: z.string().default("application/json").describe("Content type being sold"),
+    })
+    .superRefine((value, ctx) => {
+      if (value.mode === "single" && !value.network) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["network"], message: "Required in single mode" });
+      }
+      const frameworks = frameworksFor(value.language);
+      if (value.framework && !frameworks.includes(value.framework)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["framework"],
+          message: `${value.framework} is not available in ${value.language} (use ${frameworks.join(", ")})`,
+        });
+      }
+    }),
+  x402_generate_consumer_code: z.object({
+    network: networkId("Network ID to generate code for"),
+    language,
+  }),
+  x402_scaffold_project: z.object({
+    kind: z.enum(["merchant", "consumer"]).describe("Project to generate: a paid API server or a paying client"),
+    networks: z
+      .array(networkId("Network ID"))
+      .min(1)
+      .refine((ids) => new Set(ids).size === ids.length, "Networks must not repeat")
+      .describe("Networks the project supports; only these are included"),
+    name: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9._-]*$/, "Must be a lowercase npm package name")
+      .optional()
+      .describe("package.json name (default: x402-merchant or x402-consumer)"),
+    framework: z
+      .enum(SCAFFOLD_FRAMEWORKS)
+      .default("express")
+      .describe("Merchant web framework"),
+    asset: assetArgument,
+    price: price(
+      "Merchant price per request: base units ('10000'), token units ('0.01 USDC') or dollars ('$0.01')"
+    ).default("0.01"),
+    description: z
+      .string()
+      .default("Premium content access")
+      .describe("Description of what the payment is for"),
+    mimeType: z.string().default("application/json").describe("Content type being sold"),
+    outputDir: z
+      .string()
+      .refine((dir) => path.isAbsolute(dir), "Must be an absolute path")
+      .optional()
+      .describe("Absolute path of an empty or new directory to write the project to; without it the files are returned"),
+  }),
+  x402_calculate_total_cost: z.object({
+    network: networkId("Network ID"),
+    amount: price(
+      "Payment amount as base units ('50000'), token units ('0.05 USDC') or dollars ('$0.05')"
+    ),
+    asset: assetArgument,
+  }),
+  x402_get_network_info: z.object({
+    network: networkId("Network ID"),
+  }),
+  x402_list_payments: z.object({
+    ...paymentFilter,
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .default(50)
+      .describe("Return at most this many payments, most recent first"),
+  }),
+  x402_export_payments: z.object({
+    ...paymentFilter,
+    format: z.enum(["csv", "json"]).default("csv").describe("Export format"),
+    outputFile: z
+      .string()
+      .refine((file) => path.isAbsolute(file), "Must be an absolute path")
+      .optional()
+      .describe("Absolute path to write the export to; without it the export is returned"),
+  }),
+};
+
+export type ToolName = keyof typeof TOOL_SCHEMAS;
+export type ToolInput<N extends ToolName> = z.infer<(typeof TOOL_SCHEMAS)[N]>;
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ParsedArguments =
+  | { success: true; data: unknown }
+  | { success: false; errors: FieldError[] };
+
+export function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(TOOL_SCHEMAS, name);
+}
+
+// Validate a tool call's arguments, reporting each problem against the
+// dotted path of the field it concerns
+export function parseToolArguments(name: ToolName, args: unknown): ParsedArguments {
+  const result = TOOL_SCHEMAS[name].safeParse(args ?? {});
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      field: issue.path.join(".") || "(arguments)",
+      message: issue.message,
+    })),
+  };
+}
+
+// Convert the subset of zod used by the tool schemas to JSON Schema
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const json = convert(schema);
+  if (schema.description) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convert(schema: z.ZodTypeAny): Record<string, any> {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries<z.ZodTypeAny>(shape)) {
+        properties[key] = toJsonSchema(field);
+        if (!field.isOptional()) {
+          required.push(key);
+        }
+      }
+      return {
+        type: "object",
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const json: Record<string, any> = { type: "string" };
+      for (const check of def.checks) {
+        if (check.kind === "url") json.format = "uri";
+        if (check.kind === "regex") json.pattern = check.regex.source;
+        if (check.kind === "base64") json.contentEncoding = "base64";
+      }
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return {
+        type: def.checks.some((c: any) => c.kind === "int") ? "integer" : "number",
+      };
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values };
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: "array", items: toJsonSchema(def.type) };
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: toJsonSchema(def.valueType) };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map(toJsonSchema) };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return convert(def.getter());
+    case z.ZodFirstPartyTypeKind.ZodAny:
+      return {};
+    default:
+      throw new Error(`Cannot convert ${def.typeName} to JSON Schema`);
+  }
+}
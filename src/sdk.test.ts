@@ -0,0 +1,36 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+
+// The config does not exist yet when the library is imported
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-sdk-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test("importing the library reads no config", async () => {
+  const sdk = await import("./sdk.js");
+  const { TOOL_SCHEMAS, toJsonSchema } = await import("./schemas.js");
+
+  fs.writeFileSync(
+    process.env.X402_CONFIG!,
+    JSON.stringify({
+      networks: {
+        "test-chain": {
+          type: "evm",
+          name: "Test Chain",
+          chainId: 31337,
+          tokens: [{ symbol: "TUSD", address: "0x5FbDB2315678afecb367f032d93F642f64180aa3", decimals: 6 }],
+        },
+      },
+    })
+  );
+
+  assert.equal(sdk.getNetwork("test-chain").chainId, 31337);
+  assert.ok("test-chain" in sdk.NETWORKS);
+  assert.ok(Object.keys(sdk.NETWORKS).includes("base-sepolia"));
+  assert.ok(toJsonSchema(TOOL_SCHEMAS.x402_create_evm_payment).properties.network.enum.includes("test-chain"));
+  assert.ok(!toJsonSchema(TOOL_SCHEMAS.x402_create_solana_payment).properties.network.enum.includes("test-chain"));
+  assert.equal(TOOL_SCHEMAS.x402_create_evm_payment.shape.network.safeParse("test-chain").success, true);
+});
@@ -0,0 +1,65 @@
+// Library entry of the package: the code behind the MCP tools, for services
+// that pay for or charge for x402 resources directly. Importing it starts no
+// server and reads no files: x402.config.json and the network registry are
+// loaded on first use, from the X402_CONFIG path set when the package was
+// imported. Functions taking a wallet alias read the same x402.config.json as
+// the server (wallets, spending policy, ledger); createEvmPayment and
+// createSolanaPayment sign with a key the caller holds instead.
+//
+//   import { buildRequirements, createEvmPayment, verifyPayment } from "octo-x402-mcp";
+
+// Networks and amounts
+export type { NetworkConfig, TokenConfig } from "./networks.js";
+export { NETWORKS, describeNetwork, findToken, getDefaultToken, getNetwork, resolveToken } from "./networks.js";
+export { formatAmount, formatUnits, parseAmount } from "./amounts.js";
+export type { CostEstimate } from "./costs.js";
+export { estimateCost } from "./costs.js";
+
+// Merchant: requirements, verification and settlement
+export type {
+  BuildRequirementsOptions,
+  PaymentRequiredResponse,
+  RequirementsOptions,
+  SelectionCriteria,
+  SelectionOption,
+  SelectionResult,
+} from "./requirements.js";
+export {
+  PAYMENT_REQUIRED_ERROR,
+  buildPaymentRequired,
+  buildPaymentRequirements,
+  buildRequirements,
+  parsePaymentRequired,
+  requirementsForNetwork,
+  selectPaymentRequirements,
+} from "./requirements.js";
+export type { PricedRoute, PricingConfig, PricingRoute, RouteEnvelope, RouteOption } from "./pricing.js";
+export { buildRouteEnvelopes, resolvePricing } from "./pricing.js";
+export type { LintFinding, LintResult, LintSeverity } from "./lint.js";
+export { lintPaymentRequirements } from "./lint.js";
+export type { SettleResult, VerifyOptions, VerifyResult } from "./facilitation.js";
+export type { ReplayCheck } from "./replay.js";
+export { settlePayment, verifyPayment } from "./facilitation.js";
+export type { LocalVerifyResult, VerificationCheck } from "./checks.js";
+export { verifyEvmPaymentLocally } from "./evm.js";
+export { decodeSolanaTransaction, inspectSolanaTransaction, verifySolanaPaymentLocally } from "./solana.js";
+export type { SettlementState, SettlementStatus, SettlementStatusOptions } from "./settlement.js";
+export { getSettlementStatus } from "./settlement.js";
+
+// Consumer: payments
+export type { PaymentOptions, PaymentResult, SignedPayment } from "./payments.js";
+export {
+  createEvmPayment,
+  createPayment,
+  createSolanaPayment,
+  decodePaymentHeader,
+  encodePaymentHeader,
+} from "./payments.js";
+export type { FetchOptions } from "./fetch.js";
+export { fetchWithPayment } from "./fetch.js";
+export type { PreflightResult, PreflightWarning, TokenBalance, WalletBalance } from "./balances.js";
+export { getBalances, preflightPayment } from "./balances.js";
+
+// Facilitators
+export type { FacilitatorConfig, FacilitatorResponse } from "./facilitators.js";
+export { DEFAULT_FACILITATOR_URL, getFacilitators, requestFacilitator } from "./facilitators.js";
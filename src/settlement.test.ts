@@ -0,0 +1,223 @@
+import assert from "assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import { ethers } from "ethers";
+import { Keypair } from "@solana/web3.js";
+
+// A JSON-RPC stand-in for both chains; handlers are swapped per test
+type Handler = (method: string, params: any[]) => unknown;
+let handler: Handler = () => null;
+
+const rpc = http.createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => (body += chunk));
+  request.on("end", () => {
+    const answer = (call: any) => {
+      try {
+        return { jsonrpc: "2.0", id: call.id, result: handler(call.method, call.params ?? []) };
+      } catch (error: any) {
+        return { jsonrpc: "2.0", id: call.id, error: { code: -32602, message: error.message } };
+      }
+    };
+    const calls = JSON.parse(body);
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(Array.isArray(calls) ? calls.map(answer) : answer(calls)));
+  });
+});
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-settlement-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+
+before(async () => {
+  await new Promise<void>((resolve) => rpc.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(rpc.address() as { port: number }).port}`;
+  fs.writeFileSync(
+    process.env.X402_CONFIG!,
+    JSON.stringify({ networks: { "base-sepolia": { rpcUrl: url }, "solana-devnet": { rpcUrl: url } } })
+  );
+});
+
+after(async () => {
+  await new Promise((resolve) => rpc.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Imported once the config names the stand-in
+const settlement = () => import("./settlement.js");
+
+const hex = (n: number | bigint) => `0x${n.toString(16)}`;
+const HASH = `0x${"ab".repeat(32)}`;
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAYER = ethers.Wallet.createRandom().address;
+const PAY_TO = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+
+function block(number: number) {
+  return {
+    number: hex(number),
+    hash: ethers.zeroPadValue(hex(number + 1), 32),
+    parentHash: ethers.zeroPadValue(hex(number), 32),
+    timestamp: hex(1_700_000_000 + number),
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    gasLimit: hex(30_000_000),
+    gasUsed: "0x0",
+    miner: ethers.ZeroAddress,
+    extraData: "0x",
+    baseFeePerGas: "0x1",
+    transactions: [],
+  };
+}
+
+// A chain at head, with a receipt in block 100 and no "finalized" tag unless given
+function evmChain(head: number, finalized?: number): Handler {
+  return (method, params) => {
+    switch (method) {
+      case "eth_chainId":
+        return hex(84532);
+      case "eth_blockNumber":
+        return hex(head);
+      case "eth_getBlockByNumber":
+        if (params[0] === "finalized") {
+          if (finalized === undefined) {
+            throw new Error("invalid block tag finalized");
+          }
+          return block(finalized);
+        }
+        return block(Number(params[0]));
+      case "eth_getTransactionReceipt":
+        return {
+          transactionHash: HASH,
+          transactionIndex: "0x0",
+          blockHash: block(100).hash,
+          blockNumber: hex(100),
+          from: PAYER,
+          to: USDC,
+          cumulativeGasUsed: "0x1",
+          gasUsed: "0x1",
+          effectiveGasPrice: "0x1",
+          contractAddress: null,
+          logsBloom: `0x${"00".repeat(256)}`,
+          type: "0x2",
+          status: "0x1",
+          logs: [
+            {
+              address: USDC,
+              topics: [ethers.id("Transfer(address,address,uint256)"), ethers.zeroPadValue(PAYER, 32), ethers.zeroPadValue(PAY_TO, 32)],
+              data: ethers.zeroPadValue(hex(10000), 32),
+              blockNumber: hex(100),
+              blockHash: block(100).hash,
+              transactionHash: HASH,
+              transactionIndex: "0x0",
+              logIndex: "0x0",
+              removed: false,
+            },
+          ],
+        };
+      default:
+        throw new Error(`Unexpected ${method}`);
+    }
+  };
+}
+
+test("EVM: the finalized tag decides finality where the chain has one", async () => {
+  const { getSettlementStatus } = await settlement();
+  handler = evmChain(200, 99);
+  let status = await getSettlementStatus("base-sepolia", HASH);
+  assert.equal(status.status, "confirmed");
+  assert.equal(status.finality, "finalized_tag");
+
+  handler = evmChain(200, 100);
+  status = await getSettlementStatus("base-sepolia", HASH);
+  assert.equal(status.status, "finalized");
+  assert.equal(status.transfers[0].amountFormatted, "0.01 USDC");
+});
+
+test("EVM: without a finalized tag, the confirmation depth decides", async () => {
+  const { getSettlementStatus } = await settlement();
+  handler = evmChain(105);
+  let status = await getSettlementStatus("base-sepolia", HASH);
+  assert.equal(status.status, "confirmed");
+  assert.equal(status.confirmations, 6);
+  assert.equal(status.finality, "confirmations");
+
+  status = await getSettlementStatus("base-sepolia", HASH, { finalityConfirmations: 6 });
+  assert.equal(status.status, "finalized");
+
+  handler = evmChain(111);
+  status = await getSettlementStatus("base-sepolia", HASH, { waitForFinality: true, timeoutSeconds: 5 });
+  assert.equal(status.status, "finalized");
+  assert.equal(status.timedOut, undefined);
+});
+
+test("Solana: a failed transaction reports no transfers", async () => {
+  const { getSettlementStatus } = await settlement();
+  const mint = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+  const [payer, source, destination, payTo] = Array.from({ length: 4 }, () => Keypair.generate().publicKey.toBase58());
+  const signature = "5".repeat(88);
+  const failed = (err: unknown): Handler => (method) => {
+    switch (method) {
+      case "getSignatureStatuses":
+        return { context: { slot: 10 }, value: [{ slot: 9, confirmations: null, err, confirmationStatus: "finalized" }] };
+      case "getTransaction":
+        return {
+          slot: 9,
+          blockTime: 1_700_000_000,
+          version: 0,
+          meta: {
+            err,
+            fee: 5000,
+            preBalances: [1, 0, 0],
+            postBalances: [1, 0, 0],
+            innerInstructions: [],
+            logMessages: [],
+            preTokenBalances: [],
+            postTokenBalances: [
+              { accountIndex: 2, mint, owner: payTo, uiTokenAmount: { amount: "10000", decimals: 6, uiAmount: 0.01, uiAmountString: "0.01" } },
+            ],
+          },
+          transaction: {
+            signatures: [signature],
+            message: {
+              accountKeys: [payer, source, destination].map((pubkey, i) => ({ pubkey, signer: i === 0, writable: true, source: "transaction" })),
+              recentBlockhash: Keypair.generate().publicKey.toBase58(),
+              instructions: [
+                {
+                  program: "spl-token",
+                  programId: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+                  parsed: {
+                    type: "transferChecked",
+                    info: { source, destination, mint, authority: payer, tokenAmount: { amount: "10000", decimals: 6 } },
+                  },
+                  stackHeight: null,
+                },
+              ],
+            },
+          },
+        };
+      default:
+        throw new Error(`Unexpected ${method}`);
+    }
+  };
+  const requirements = {
+    scheme: "exact",
+    network: "solana-devnet",
+    maxAmountRequired: "10000",
+    payTo,
+    asset: mint,
+  };
+
+  handler = failed(null);
+  let status = await getSettlementStatus("solana-devnet", signature, { paymentRequirements: requirements });
+  assert.equal(status.status, "finalized");
+  assert.equal(status.transfers.length, 1);
+  assert.equal(status.requirementsMatch?.matches, true);
+
+  handler = failed({ InstructionError: [0, { Custom: 1 }] });
+  status = await getSettlementStatus("solana-devnet", signature, { paymentRequirements: requirements });
+  assert.equal(status.status, "reverted");
+  assert.deepEqual(status.transfers, []);
+  assert.equal(status.requirementsMatch?.matches, false);
+});
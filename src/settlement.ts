@@ -0,0 +1,276 @@
+import { ethers } from "ethers";
+import { ParsedTransactionWithMeta } from "@solana/web3.js";
+import { findToken, getNetwork } from "./networks.js";
+import { evmProvider, solanaConnection } from "./rpc.js";
+import { formatAmount } from "./amounts.js";
+import { VerificationCheck, recordCheck, summarizeChecks } from "./checks.js";
+
+// Where a settlement transaction stands on chain, read straight from the
+// network's RPC rather than from the facilitator's word.
+
+// pending: broadcast but not yet in a block (EVM) or only processed (Solana).
+// not_found: never broadcast, dropped, or not yet seen by this RPC.
+export type SettlementState = "not_found" | "pending" | "confirmed" | "finalized" | "reverted";
+
+export interface SettlementTransfer {
+  asset: string;
+  // Payer and recipient wallets; on Solana the owners of the token accounts
+  from: string;
+  to: string;
+  amount: string;
+  amountFormatted?: string;
+  // Solana only: the token account credited
+  destination?: string;
+}
+
+export interface SettlementStatus {
+  network: string;
+  transaction: string;
+  status: SettlementState;
+  // EVM: blocks mined on top of the transaction's, counting its own
+  confirmations?: number;
+  // EVM: how finality was judged, by the chain's "finalized" block or, where
+  // the chain has none, by the confirmation depth
+  finality?: "finalized_tag" | "confirmations";
+  // Solana: processed, confirmed or finalized
+  commitment?: string;
+  blockNumber?: number;
+  slot?: number;
+  blockTime?: string;
+  error?: string;
+  transfers: SettlementTransfer[];
+  // Only when payment requirements were given
+  requirementsMatch?: { matches: boolean; mismatchReason?: string; checks: VerificationCheck[] };
+  // Set when waiting for finality ran out of time
+  timedOut?: boolean;
+  checkedAt: string;
+}
+
+export interface SettlementStatusOptions {
+  paymentRequirements?: any;
+  // Poll until the transaction is finalized or reverted
+  waitForFinality?: boolean;
+  timeoutSeconds?: number;
+  // EVM chains without a "finalized" block tag (local nodes, some L2s and
+  // sidechains): confirmations after which a transaction counts as final
+  finalityConfirmations?: number;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const DEFAULT_FINALITY_CONFIRMATIONS = 12;
+const POLL_INTERVAL_MS = 2000;
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+type ChainStatus = Omit<SettlementStatus, "network" | "transaction" | "requirementsMatch" | "checkedAt">;
+
+async function evmStatus(network: string, hash: string, finalityConfirmations: number): Promise<ChainStatus> {
+  const provider = evmProvider(network);
+  try {
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (!receipt) {
+      const pending = await provider.getTransaction(hash);
+      return { status: pending ? "pending" : "not_found", transfers: [] };
+    }
+
+    const [block, confirmations, finalizedBlock] = await Promise.all([
+      provider.getBlock(receipt.blockNumber),
+      receipt.confirmations(),
+      // Null on chains without the "finalized" tag
+      provider.getBlock("finalized").catch(() => null),
+    ]);
+
+    const transfers = receipt.logs
+      .filter((log) => log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3)
+      .map((log) => ({
+        asset: log.address,
+        from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+        to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+        amount: BigInt(log.data).toString(),
+      }));
+
+    const reverted = receipt.status === 0;
+    const finalized = finalizedBlock
+      ? receipt.blockNumber <= finalizedBlock.number
+      : confirmations >= finalityConfirmations;
+    return {
+      status: reverted ? "reverted" : finalized ? "finalized" : "confirmed",
+      confirmations,
+      finality: finalizedBlock ? "finalized_tag" : "confirmations",
+      blockNumber: receipt.blockNumber,
+      ...(block ? { blockTime: new Date(block.timestamp * 1000).toISOString() } : {}),
+      ...(reverted ? { error: "Transaction reverted" } : {}),
+      transfers,
+    };
+  } finally {
+    provider.destroy();
+  }
+}
+
+// SPL transfers of the transaction, top-level and inner (CPI) alike. Token
+// balances map each token account to its mint and owner. A failed
+// transaction still lists its instructions, but none of them took effect.
+function solanaTransfers(transaction: ParsedTransactionWithMeta): SettlementTransfer[] {
+  if (transaction.meta?.err) {
+    return [];
+  }
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) => key.pubkey.toBase58());
+  const tokenAccounts = new Map<string, { mint: string; owner?: string }>();
+  const balances = [...(transaction.meta?.preTokenBalances ?? []), ...(transaction.meta?.postTokenBalances ?? [])];
+  for (const balance of balances) {
+    tokenAccounts.set(accountKeys[balance.accountIndex], { mint: balance.mint, owner: balance.owner });
+  }
+
+  const instructions = [
+    ...transaction.transaction.message.instructions,
+    ...(transaction.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+
+  return instructions.flatMap((instruction): SettlementTransfer[] => {
+    if (!("parsed" in instruction) || !instruction.program.startsWith("spl-token")) {
+      return [];
+    }
+    const { type, info } = instruction.parsed;
+    if (type !== "transfer" && type !== "transferChecked") {
+      return [];
+    }
+    const source = tokenAccounts.get(info.source);
+    const destination = tokenAccounts.get(info.destination);
+    const mint = info.mint ?? destination?.mint ?? source?.mint;
+    return [
+      {
+        asset: mint,
+        from: source?.owner ?? info.authority ?? info.multisigAuthority,
+        to: destination?.owner ?? info.destination,
+        amount: String(info.amount ?? info.tokenAmount?.amount),
+        destination: info.destination,
+      },
+    ];
+  });
+}
+
+async function solanaStatus(network: string, signature: string): Promise<ChainStatus> {
+  const connection = solanaConnection(network);
+
+  const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+  const status = value[0];
+  if (!status) {
+    return { status: "not_found", transfers: [] };
+  }
+
+  const transaction =
+    status.confirmationStatus === "processed"
+      ? null
+      : await connection.getParsedTransaction(signature, {
+          commitment: "confirmed",
+          maxSupportedTransactionVersion: 0,
+        });
+
+  const error = status.err ?? transaction?.meta?.err;
+  return {
+    status: error
+      ? "reverted"
+      : status.confirmationStatus === "finalized"
+        ? "finalized"
+        : status.confirmationStatus === "confirmed"
+          ? "confirmed"
+          : "pending",
+    ...(status.confirmationStatus ? { commitment: status.confirmationStatus } : {}),
+    slot: status.slot,
+    ...(transaction?.blockTime ? { blockTime: new Date(transaction.blockTime * 1000).toISOString() } : {}),
+    ...(error ? { error: JSON.stringify(error) } : {}),
+    transfers: transaction ? solanaTransfers(transaction) : [],
+  };
+}
+
+// Whether the transfer that happened is the one the requirements asked for:
+// the required asset, to payTo, for at least maxAmountRequired
+function matchRequirements(network: string, chain: ChainStatus, paymentRequirements: any) {
+  const checks: VerificationCheck[] = [];
+  const record = recordCheck.bind(null, checks);
+  const evm = getNetwork(network).type === "evm";
+  const same = (a?: string, b?: string) => !!a && !!b && (evm ? a.toLowerCase() === b.toLowerCase() : a === b);
+
+  record(
+    "network",
+    paymentRequirements.network === network,
+    "invalid_network",
+    `Transaction is on ${network}, requirements are for ${paymentRequirements.network}`
+  );
+  record(
+    "status",
+    chain.status === "confirmed" || chain.status === "finalized",
+    "settlement_not_confirmed",
+    `Transaction is ${chain.status}`
+  );
+
+  const transfer = chain.transfers.find(
+    (t) => same(t.asset, paymentRequirements.asset) && same(t.to, paymentRequirements.payTo)
+  );
+  record(
+    "transfer",
+    !!transfer,
+    "settlement_transfer_missing",
+    `No transfer of ${paymentRequirements.asset} to ${paymentRequirements.payTo} (found ${chain.transfers.length} transfer(s))`
+  );
+  if (transfer) {
+    record(
+      "amount",
+      BigInt(transfer.amount) >= BigInt(paymentRequirements.maxAmountRequired),
+      "settlement_amount_mismatch",
+      `Transferred ${transfer.amount}, maxAmountRequired ${paymentRequirements.maxAmountRequired}`
+    );
+  }
+
+  const { isValid, invalidReason } = summarizeChecks(checks);
+  return { matches: isValid, ...(invalidReason ? { mismatchReason: invalidReason } : {}), checks };
+}
+
+async function checkSettlement(
+  network: string,
+  transaction: string,
+  options: SettlementStatusOptions
+): Promise<SettlementStatus> {
+  const { paymentRequirements } = options;
+  const chain =
+    getNetwork(network).type === "svm"
+      ? await solanaStatus(network, transaction)
+      : await evmStatus(network, transaction, options.finalityConfirmations ?? DEFAULT_FINALITY_CONFIRMATIONS);
+
+  for (const transfer of chain.transfers) {
+    const token = transfer.asset ? findToken(network, transfer.asset) : undefined;
+    if (token) {
+      transfer.amountFormatted = formatAmount(BigInt(transfer.amount), token);
+    }
+  }
+
+  return {
+    network,
+    transaction,
+    ...chain,
+    ...(paymentRequirements ? { requirementsMatch: matchRequirements(network, chain, paymentRequirements) } : {}),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+// Look up a settlement transaction (EVM hash or Solana signature). When
+// waiting, polls until it is finalized or reverted; a timeout returns the
+// last status seen with timedOut set rather than failing.
+export async function getSettlementStatus(
+  network: string,
+  transaction: string,
+  options: SettlementStatusOptions = {}
+): Promise<SettlementStatus> {
+  const deadline = Date.now() + (options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+
+  for (;;) {
+    const status = await checkSettlement(network, transaction, options);
+    if (!options.waitForFinality || status.status === "finalized" || status.status === "reverted") {
+      return status;
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return { ...status, timedOut: true };
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, remaining)));
+  }
+}
@@ -0,0 +1,204 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "x402-solana-test-"));
+process.env.X402_CONFIG = path.join(dir, "x402.config.json");
+fs.writeFileSync(process.env.X402_CONFIG, "{}");
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { verifySolanaPaymentLocally } = await import("./solana.js");
+
+// Signing is offline: no mint or blockhash has to exist
+const payer = Keypair.generate();
+const facilitator = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+const payTo = Keypair.generate().publicKey;
+const AMOUNT = 10000n;
+
+const ata = (owner: PublicKey) => getAssociatedTokenAddressSync(mint, owner, true);
+const transfer = (authority: PublicKey, amount = AMOUNT) =>
+  createTransferCheckedInstruction(ata(authority), mint, ata(payTo), authority, amount, 6);
+
+const requirements = (feePayer?: PublicKey) => ({
+  scheme: "exact",
+  network: "solana-devnet",
+  maxAmountRequired: AMOUNT.toString(),
+  resource: "https://api.example.com/premium",
+  payTo: payTo.toBase58(),
+  asset: mint.toBase58(),
+  ...(feePayer ? { extra: { feePayer: feePayer.toBase58() } } : {}),
+});
+
+function payment(instructions: TransactionInstruction[], feePayer: PublicKey, signers: Keypair[]) {
+  const message = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions,
+  }).compileToV0Message();
+  const transaction = new VersionedTransaction(message);
+  transaction.sign(signers);
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: "solana-devnet",
+    payload: { transaction: Buffer.from(transaction.serialize()).toString("base64") },
+  };
+}
+
+// What signSolanaPayment builds
+const standard = (authority = payer.publicKey) => [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: 50_000 }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+  createAssociatedTokenAccountIdempotentInstruction(authority, ata(payTo), payTo, mint),
+  transfer(authority),
+];
+
+const failed = (result: { checks: { check: string; passed: boolean }[] }) =>
+  result.checks.filter((c) => !c.passed).map((c) => c.check);
+
+test("a payment with a facilitator fee payer verifies before the facilitator signs", () => {
+  const result = verifySolanaPaymentLocally(
+    payment(standard(), facilitator.publicKey, [payer]),
+    requirements(facilitator.publicKey)
+  );
+  assert.equal(result.isValid, true, JSON.stringify(result.checks));
+  assert.equal(result.payer, payer.publicKey.toBase58());
+});
+
+test("a payment whose payer pays the fee verifies", () => {
+  const result = verifySolanaPaymentLocally(payment(standard(), payer.publicKey, [payer]), requirements());
+  assert.equal(result.isValid, true, JSON.stringify(result.checks));
+});
+
+test("a transfer out of the fee payer's tokens is refused", () => {
+  const result = verifySolanaPaymentLocally(
+    payment([transfer(facilitator.publicKey)], facilitator.publicKey, []),
+    requirements(facilitator.publicKey)
+  );
+  assert.equal(result.isValid, false);
+  assert.deepEqual(failed(result), ["feePayerTransfer", "feePayerAccounts", "payerSignature"]);
+  assert.equal(result.invalidReason, "invalid_exact_svm_payload_transaction_fee_payer_transferring_funds");
+});
+
+test("a SOL transfer out of the fee payer next to a valid payment is refused", () => {
+  const drain = SystemProgram.transfer({
+    fromPubkey: facilitator.publicKey,
+    toPubkey: payer.publicKey,
+    lamports: 5 * LAMPORTS_PER_SOL,
+  });
+  const result = verifySolanaPaymentLocally(
+    payment([...standard(), drain], facilitator.publicKey, [payer]),
+    requirements(facilitator.publicKey)
+  );
+  assert.equal(result.isValid, false);
+  assert.deepEqual(failed(result), ["instructions", "feePayerAccounts"]);
+});
+
+test("the fee payer funding payTo's token account is refused", () => {
+  const instructions = [
+    createAssociatedTokenAccountIdempotentInstruction(facilitator.publicKey, ata(payTo), payTo, mint),
+    transfer(payer.publicKey),
+  ];
+  const result = verifySolanaPaymentLocally(
+    payment(instructions, facilitator.publicKey, [payer]),
+    requirements(facilitator.publicKey)
+  );
+  assert.deepEqual(failed(result), ["feePayerAccounts"]);
+});
+
+test("instructions other than compute budget, account creation and the transfer are refused", () => {
+  const extra = SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: payTo, lamports: 1 });
+  const result = verifySolanaPaymentLocally(payment([...standard(), extra], payer.publicKey, [payer]), requirements());
+  assert.deepEqual(failed(result), ["instructions"]);
+});
+
+test("a priority fee above the cap is refused", () => {
+  const instructions = [ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 10_000_000 }), transfer(payer.publicKey)];
+  const result = verifySolanaPaymentLocally(
+    payment(instructions, facilitator.publicKey, [payer]),
+    requirements(facilitator.publicKey)
+  );
+  assert.deepEqual(failed(result), ["instructions"]);
+});
+
+test("a second transfer is refused", () => {
+  const result = verifySolanaPaymentLocally(
+    payment([...standard(), transfer(payer.publicKey, 1n)], payer.publicKey, [payer]),
+    requirements()
+  );
+  assert.deepEqual(failed(result), ["transferInstruction"]);
+});
+
+test("an unsigned payment is refused", () => {
+  const result = verifySolanaPaymentLocally(
+    payment(standard(), facilitator.publicKey, []),
+    requirements(facilitator.publicKey)
+  );
+  assert.deepEqual(failed(result), ["signatures", "payerSignature"]);
+});
+
+test("a signature over another message is refused", () => {
+  const signed = payment(standard(), payer.publicKey, [payer]);
+  const transaction = VersionedTransaction.deserialize(Buffer.from(signed.payload.transaction, "base64"));
+  transaction.signatures[0] = Keypair.generate().secretKey.slice(0, 64);
+  signed.payload.transaction = Buffer.from(transaction.serialize()).toString("base64");
+  const result = verifySolanaPaymentLocally(signed, requirements());
+  assert.deepEqual(failed(result), ["signatures", "payerSignature"]);
+});
+
+test("amount, destination and mint are checked against the requirements", () => {
+  const signed = payment(standard(), payer.publicKey, [payer]);
+  assert.deepEqual(failed(verifySolanaPaymentLocally(signed, { ...requirements(), maxAmountRequired: "10001" })), ["amount"]);
+  assert.deepEqual(
+    failed(verifySolanaPaymentLocally(signed, { ...requirements(), payTo: Keypair.generate().publicKey.toBase58() })),
+    ["destination"]
+  );
+  assert.deepEqual(
+    failed(verifySolanaPaymentLocally(signed, { ...requirements(), asset: Keypair.generate().publicKey.toBase58() })),
+    ["mint", "destination"]
+  );
+});
+
+test("bad input fails instead of throwing", () => {
+  assert.equal(
+    verifySolanaPaymentLocally({ payload: { transaction: "not a transaction" } }, requirements()).invalidReason,
+    "invalid_exact_svm_payload_transaction"
+  );
+  assert.equal(
+    verifySolanaPaymentLocally(payment(standard(), payer.publicKey, [payer]), { ...requirements(), network: "base" })
+      .invalidReason,
+    "invalid_network"
+  );
+});
+
+test("malformed addresses in the requirements fail instead of throwing", () => {
+  const signed = payment(standard(), payer.publicKey, [payer]);
+  for (const [overrides, field] of [
+    [{ payTo: "not-an-address" }, "payTo"],
+    [{ asset: undefined }, "asset"],
+    [{ extra: { feePayer: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C" } }, "extra.feePayer"],
+  ] as const) {
+    const result = verifySolanaPaymentLocally(signed, { ...requirements(), ...overrides });
+    assert.equal(result.isValid, false);
+    assert.equal(result.invalidReason, "invalid_payment_requirements");
+    assert.match(result.checks[0].detail!, new RegExp(`paymentRequirements\\.${field}$`));
+  }
+});
@@ -0,0 +1,519 @@
+import crypto from "crypto";
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  MessageCompiledInstruction,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  decodeTransferCheckedInstruction,
+  decodeTransferInstruction,
+  getAssociatedTokenAddressSync,
+  unpackMint,
+} from "@solana/spl-token";
+import bs58 from "bs58";
+import { NETWORKS, getNetwork } from "./networks.js";
+import { solanaConnection } from "./rpc.js";
+import { LocalVerifyResult, VerificationCheck, recordCheck, summarizeChecks } from "./checks.js";
+
+const PROGRAM_NAMES: Record<string, string> = {
+  [TOKEN_PROGRAM_ID.toBase58()]: "spl-token",
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: "spl-token-2022",
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: "associated-token-account",
+  [ComputeBudgetProgram.programId.toBase58()]: "compute-budget",
+  [SystemProgram.programId.toBase58()]: "system",
+};
+
+// DER prefix turning a raw 32-byte ed25519 key into an SPKI public key for node:crypto
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+// Compute units of a transferChecked, and of creating the recipient's token
+// account in the same transaction
+const TRANSFER_COMPUTE_UNITS = 20_000;
+const CREATE_ACCOUNT_COMPUTE_UNITS = 30_000;
+// Priority fee bounds, in micro-lamports per compute unit
+const MIN_PRIORITY_FEE = 1;
+const MAX_PRIORITY_FEE = 1_000_000;
+
+export interface SplTransfer {
+  instructionIndex: number;
+  type: "transfer" | "transferChecked";
+  programId: string;
+  source: string;
+  destination: string;
+  authority: string;
+  mint?: string;
+  amount: string;
+  decimals?: number;
+}
+
+export interface SolanaSigner {
+  address: string;
+  signed: boolean;
+  signatureValid: boolean;
+}
+
+export interface SolanaTransactionInfo {
+  version: number | "legacy";
+  feePayer: string;
+  recentBlockhash: string;
+  signers: SolanaSigner[];
+  instructions: {
+    index: number;
+    programId: string;
+    program: string;
+    accounts: string[];
+    data: string;
+    transfer?: SplTransfer;
+  }[];
+  addressTableLookups: number;
+  transfers: SplTransfer[];
+}
+
+export function decodeSolanaTransaction(base64Tx: string): VersionedTransaction {
+  try {
+    return VersionedTransaction.deserialize(Buffer.from(base64Tx, "base64"));
+  } catch (error: any) {
+    throw new Error(`Invalid Solana transaction: ${error.message}`);
+  }
+}
+
+// Median of the priority fees recently paid to write the payment's
+// accounts, within MIN_PRIORITY_FEE..MAX_PRIORITY_FEE
+async function priorityFee(connection: Connection, accounts: PublicKey[]): Promise<number> {
+  const fees = (await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts }))
+    .map((f) => f.prioritizationFee)
+    .filter((fee) => fee > 0)
+    .sort((a, b) => a - b);
+  const median = fees.length > 0 ? fees[Math.floor(fees.length / 2)] : MIN_PRIORITY_FEE;
+  return Math.min(Math.max(median, MIN_PRIORITY_FEE), MAX_PRIORITY_FEE);
+}
+
+// Build and sign an exact-scheme payment: compute budget instructions, the
+// creation of payTo's associated token account if it is missing (funded by
+// the payer), and a transferChecked of maxAmountRequired. With
+// extra.feePayer the transaction names the facilitator as fee payer and is
+// only partially signed; the facilitator adds its signature at settlement.
+export async function signSolanaPayment(
+  keypair: Keypair,
+  network: string,
+  paymentRequirements: any
+) {
+  const connection = solanaConnection(network);
+
+  const owner = keypair.publicKey;
+  const payTo = new PublicKey(paymentRequirements.payTo);
+  const mint = new PublicKey(paymentRequirements.asset);
+  const amount = BigInt(paymentRequirements.maxAmountRequired);
+  const feePayer = paymentRequirements.extra?.feePayer
+    ? new PublicKey(paymentRequirements.extra.feePayer)
+    : owner;
+
+  // The mint's owner is its token program (SPL Token or Token-2022)
+  const mintAccount = await connection.getAccountInfo(mint);
+  if (!mintAccount) {
+    throw new Error(`Mint ${mint.toBase58()} does not exist on ${network}`);
+  }
+  const tokenProgram = mintAccount.owner;
+  const { decimals } = unpackMint(mint, mintAccount, tokenProgram);
+
+  const source = getAssociatedTokenAddressSync(mint, owner, true, tokenProgram);
+  const destination = getAssociatedTokenAddressSync(mint, payTo, true, tokenProgram);
+  const createDestination = !(await connection.getAccountInfo(destination));
+
+  const instructions = [
+    ComputeBudgetProgram.setComputeUnitLimit({
+      units: TRANSFER_COMPUTE_UNITS + (createDestination ? CREATE_ACCOUNT_COMPUTE_UNITS : 0),
+    }),
+    ComputeBudgetProgram.setComputeUnitPrice({
+      microLamports: await priorityFee(connection, [source, destination]),
+    }),
+    ...(createDestination
+      ? [createAssociatedTokenAccountIdempotentInstruction(owner, destination, payTo, mint, tokenProgram)]
+      : []),
+    createTransferCheckedInstruction(source, mint, destination, owner, amount, decimals, [], tokenProgram),
+  ];
+
+  const { blockhash } = await connection.getLatestBlockhash("finalized");
+
+  const messageV0 = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message();
+
+  const transaction = new VersionedTransaction(messageV0);
+  transaction.sign([keypair]);
+
+  const serializedTx = transaction.serialize();
+  const base64Tx = Buffer.from(serializedTx).toString("base64");
+
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: network,
+    payload: {
+      transaction: base64Tx,
+    },
+  };
+}
+
+function verifyEd25519(message: Uint8Array, signature: Uint8Array, signer: PublicKey) {
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, signer.toBuffer()]),
+    format: "der",
+    type: "spki",
+  });
+  return crypto.verify(null, message, key, signature);
+}
+
+// Rebuild a full instruction so spl-token's decoders can read it. Returns
+// undefined when an account comes from an address lookup table, since those
+// cannot be resolved without an RPC call.
+function toTransactionInstruction(
+  message: VersionedMessage,
+  compiled: MessageCompiledInstruction
+): TransactionInstruction | undefined {
+  const keys = message.staticAccountKeys;
+  if (compiled.accountKeyIndexes.some((i) => i >= keys.length)) {
+    return undefined;
+  }
+  return new TransactionInstruction({
+    programId: keys[compiled.programIdIndex],
+    keys: compiled.accountKeyIndexes.map((i) => ({
+      pubkey: keys[i],
+      isSigner: message.isAccountSigner(i),
+      isWritable: message.isAccountWritable(i),
+    })),
+    data: Buffer.from(compiled.data),
+  });
+}
+
+function decodeSplTransfer(
+  instruction: TransactionInstruction,
+  instructionIndex: number
+): SplTransfer | undefined {
+  const { programId } = instruction;
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    return undefined;
+  }
+
+  try {
+    if (instruction.data[0] === TokenInstruction.Transfer) {
+      const { keys, data } = decodeTransferInstruction(instruction, programId);
+      return {
+        instructionIndex,
+        type: "transfer",
+        programId: programId.toBase58(),
+        source: keys.source.pubkey.toBase58(),
+        destination: keys.destination.pubkey.toBase58(),
+        authority: keys.owner.pubkey.toBase58(),
+        amount: data.amount.toString(),
+      };
+    }
+    if (instruction.data[0] === TokenInstruction.TransferChecked) {
+      const { keys, data } = decodeTransferCheckedInstruction(instruction, programId);
+      return {
+        instructionIndex,
+        type: "transferChecked",
+        programId: programId.toBase58(),
+        source: keys.source.pubkey.toBase58(),
+        destination: keys.destination.pubkey.toBase58(),
+        authority: keys.owner.pubkey.toBase58(),
+        mint: keys.mint.pubkey.toBase58(),
+        amount: data.amount.toString(),
+        decimals: data.decimals,
+      };
+    }
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+// The first signature present and who made it. A facilitator fee payer's
+// slot comes first but stays empty until settlement, so this is the payer's.
+export function findPayerSignature(
+  transaction: VersionedTransaction
+): { signature: string; signer: string } | undefined {
+  const { numRequiredSignatures } = transaction.message.header;
+  const index = transaction.signatures
+    .slice(0, numRequiredSignatures)
+    .findIndex((s) => s.some((byte) => byte !== 0));
+  if (index < 0) {
+    return undefined;
+  }
+  return {
+    signature: bs58.encode(transaction.signatures[index]),
+    signer: transaction.message.staticAccountKeys[index].toBase58(),
+  };
+}
+
+// Describe a transaction's signers, instructions and SPL token transfers
+export function inspectSolanaTransaction(
+  transaction: VersionedTransaction
+): SolanaTransactionInfo {
+  const { message } = transaction;
+  const keys = message.staticAccountKeys;
+  const serializedMessage = message.serialize();
+
+  const signers = keys
+    .slice(0, message.header.numRequiredSignatures)
+    .map((key, i) => {
+      const signature = transaction.signatures[i];
+      const signed = !!signature && signature.some((byte) => byte !== 0);
+      return {
+        address: key.toBase58(),
+        signed,
+        signatureValid: signed && verifyEd25519(serializedMessage, signature, key),
+      };
+    });
+
+  const transfers: SplTransfer[] = [];
+  const instructions = message.compiledInstructions.map((compiled, index) => {
+    const programId = keys[compiled.programIdIndex].toBase58();
+    const instruction = toTransactionInstruction(message, compiled);
+    const transfer = instruction && decodeSplTransfer(instruction, index);
+    if (transfer) {
+      transfers.push(transfer);
+    }
+    return {
+      index,
+      programId,
+      program: PROGRAM_NAMES[programId] || "unknown",
+      accounts: compiled.accountKeyIndexes.map((i) =>
+        i < keys.length ? keys[i].toBase58() : `lookup#${i - keys.length}`
+      ),
+      data: bs58.encode(compiled.data),
+      ...(transfer ? { transfer } : {}),
+    };
+  });
+
+  return {
+    version: message.version,
+    feePayer: keys[0].toBase58(),
+    recentBlockhash: message.recentBlockhash,
+    signers,
+    instructions,
+    addressTableLookups: message.addressTableLookups.length,
+    transfers,
+  };
+}
+
+// Instructions a payment may carry besides its one transfer: a compute unit
+// limit, a priority fee up to MAX_PRIORITY_FEE and the idempotent creation
+// of payTo's token account
+// A base58 address, or undefined when it is not one
+function parsePublicKey(value: unknown): PublicKey | undefined {
+  try {
+    return new PublicKey(value as string);
+  } catch {
+    return undefined;
+  }
+}
+
+function isAllowedInstruction(instruction: SolanaTransactionInfo["instructions"][number]): boolean {
+  if (instruction.accounts.some((account) => account.startsWith("lookup#"))) {
+    return false;
+  }
+  if (instruction.transfer) {
+    return true;
+  }
+  const data = Buffer.from(bs58.decode(instruction.data));
+  switch (instruction.program) {
+    case "compute-budget":
+      // SetComputeUnitLimit (u32), SetComputeUnitPrice (u64 micro-lamports)
+      return (
+        (data[0] === 2 && data.length === 5) ||
+        (data[0] === 3 && data.length === 9 && data.readBigUInt64LE(1) <= BigInt(MAX_PRIORITY_FEE))
+      );
+    case "associated-token-account":
+      // CreateIdempotent
+      return data.length === 1 && data[0] === 1;
+    default:
+      return false;
+  }
+}
+
+// Verify an exact-scheme Solana payment without contacting a facilitator.
+// Checks that the transaction carries a single SPL transfer of the required
+// mint and amount into payTo's associated token account, next to nothing but
+// compute budget and idempotent account creation instructions, and that
+// every required signature is present and valid. A signature from
+// paymentRequirements.extra.feePayer may be missing, since the facilitator
+// adds it when settling; that fee payer must not appear in any instruction,
+// so settling cannot spend its funds, and someone else must have signed.
+export function verifySolanaPaymentLocally(
+  paymentPayload: any,
+  paymentRequirements: any
+): LocalVerifyResult & { transaction?: SolanaTransactionInfo } {
+  const checks: VerificationCheck[] = [];
+  const record = recordCheck.bind(null, checks);
+
+  if (NETWORKS[paymentRequirements.network]?.type !== "svm") {
+    record(
+      "networkType",
+      false,
+      "invalid_network",
+      `${paymentRequirements.network} is not a Solana network known here`
+    );
+    return summarizeChecks(checks);
+  }
+
+  const feePayer: string | undefined = paymentRequirements.extra?.feePayer;
+  const mint = parsePublicKey(paymentRequirements.asset);
+  const payTo = parsePublicKey(paymentRequirements.payTo);
+  const malformed = [
+    ...(payTo ? [] : ["payTo"]),
+    ...(mint ? [] : ["asset"]),
+    ...(feePayer === undefined || parsePublicKey(feePayer) ? [] : ["extra.feePayer"]),
+  ];
+  if (!mint || !payTo || malformed.length > 0) {
+    record(
+      "requirementsAddresses",
+      false,
+      "invalid_payment_requirements",
+      `Not a Solana address: ${malformed.map((field) => `paymentRequirements.${field}`).join(", ")}`
+    );
+    return summarizeChecks(checks);
+  }
+
+  let info: SolanaTransactionInfo;
+  try {
+    info = inspectSolanaTransaction(
+      decodeSolanaTransaction(paymentPayload?.payload?.transaction)
+    );
+  } catch (error: any) {
+    record("transaction", false, "invalid_exact_svm_payload_transaction", error.message);
+    return summarizeChecks(checks);
+  }
+
+  record(
+    "scheme",
+    paymentPayload.scheme === "exact" && paymentRequirements.scheme === "exact",
+    "invalid_scheme",
+    `Payload scheme "${paymentPayload.scheme}", requirements scheme "${paymentRequirements.scheme}"`
+  );
+  record(
+    "network",
+    paymentPayload.network === paymentRequirements.network,
+    "invalid_network",
+    `Payload is for "${paymentPayload.network}", requirements are for "${paymentRequirements.network}"`
+  );
+  record(
+    "transferInstruction",
+    info.transfers.length === 1,
+    "invalid_exact_svm_payload_transaction_instructions",
+    `Expected exactly one SPL token transfer, found ${info.transfers.length}`
+  );
+  const unexpected = info.instructions.filter((instruction) => !isAllowedInstruction(instruction));
+  record(
+    "instructions",
+    unexpected.length === 0,
+    "invalid_exact_svm_payload_transaction_instructions",
+    unexpected
+      .map((instruction) => `Unexpected ${instruction.program} instruction #${instruction.index}`)
+      .join("; ")
+  );
+
+  const transfer = info.transfers[0];
+  if (transfer) {
+    const tokenProgram = new PublicKey(transfer.programId);
+
+    // A plain transfer does not name its mint; the source being the
+    // authority's associated token account for the mint pins it down instead.
+    const mintMatches = transfer.mint
+      ? transfer.mint === mint.toBase58()
+      : transfer.source ===
+        getAssociatedTokenAddressSync(
+          mint,
+          new PublicKey(transfer.authority),
+          true,
+          tokenProgram
+        ).toBase58();
+    record(
+      "mint",
+      mintMatches,
+      "invalid_exact_svm_payload_transaction_mint_mismatch",
+      transfer.mint
+        ? `Transfer mint ${transfer.mint}, requirements asset ${paymentRequirements.asset}`
+        : `Source ${transfer.source} is not the payer's token account for ${paymentRequirements.asset}`
+    );
+
+    const expectedDestination = getAssociatedTokenAddressSync(
+      mint,
+      payTo,
+      true,
+      tokenProgram
+    ).toBase58();
+    record(
+      "destination",
+      transfer.destination === expectedDestination,
+      "invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata",
+      `Transfer goes to ${transfer.destination}, payTo's token account is ${expectedDestination}`
+    );
+    record(
+      "amount",
+      transfer.amount === String(paymentRequirements.maxAmountRequired),
+      "invalid_exact_svm_payload_transaction_amount_mismatch",
+      `Transfer amount ${transfer.amount}, maxAmountRequired ${paymentRequirements.maxAmountRequired}`
+    );
+
+    if (feePayer) {
+      const feePayerTokenAccount = getAssociatedTokenAddressSync(
+        mint,
+        new PublicKey(feePayer),
+        true,
+        tokenProgram
+      ).toBase58();
+      record(
+        "feePayerTransfer",
+        transfer.authority !== feePayer && transfer.source !== feePayerTokenAccount,
+        "invalid_exact_svm_payload_transaction_fee_payer_transferring_funds",
+        `The transfer spends the fee payer ${feePayer}'s tokens`
+      );
+    }
+  }
+
+  if (feePayer) {
+    const using = info.instructions.filter((instruction) => instruction.accounts.includes(feePayer));
+    record(
+      "feePayerAccounts",
+      using.length === 0,
+      "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+      `Fee payer ${feePayer} is an account of instruction ${using.map((i) => `#${i.index}`).join(", ")}`
+    );
+  }
+
+  const badSigners = info.signers.filter(
+    (s) => (s.signed ? !s.signatureValid : s.address !== feePayer)
+  );
+  record(
+    "signatures",
+    badSigners.length === 0,
+    "invalid_exact_svm_payload_transaction_signature",
+    badSigners
+      .map((s) => `${s.address} ${s.signed ? "has an invalid signature" : "has not signed"}`)
+      .join("; ")
+  );
+  record(
+    "payerSignature",
+    info.signers.some((s) => s.signatureValid && s.address !== feePayer),
+    "invalid_exact_svm_payload_transaction_signature",
+    "No valid signature from anyone but the fee payer"
+  );
+
+  return { ...summarizeChecks(checks, transfer?.authority), transaction: info };
+}
@@ -0,0 +1,891 @@
+import type { ConsumerTemplateOptions, MerchantTemplateOptions, RoutesTemplateOptions } from "./templates.js";
+import type { PricedRoute } from "./pricing.js";
+import { formatAmount } from "./amounts.js";
+
+// Go string literal (JSON escapes are valid Go escapes)
+const go = (value: string) => JSON.stringify(value);
+
+// Templates are written with four-space indents; gofmt wants tabs
+const gofmt = (code: string) =>
+  code.replace(/^((?: {4})+)/gm, (indent) => "\t".repeat(indent.length / 4));
+
+const PAYMENT_REQUIREMENTS_TYPE = `type PaymentRequirements struct {
+    Scheme            string         \`json:"scheme"\`
+    Network           string         \`json:"network"\`
+    MaxAmountRequired string         \`json:"maxAmountRequired"\`
+    PayTo             string         \`json:"payTo"\`
+    Asset             string         \`json:"asset"\`
+    Resource          string         \`json:"resource"\`
+    Description       string         \`json:"description"\`
+    MimeType          string         \`json:"mimeType"\`
+    MaxTimeoutSeconds int            \`json:"maxTimeoutSeconds"\`
+    Extra             map[string]any \`json:"extra,omitempty"\`
+}`;
+
+const SELECT_AND_FETCH = `// 402 bodies are either { x402Version, error, accepts: [...] } or a bare requirements object
+func selectRequirements(body []byte) (PaymentRequirements, error) {
+    var envelope struct {
+        Accepts []PaymentRequirements \`json:"accepts"\`
+    }
+    if err := json.Unmarshal(body, &envelope); err != nil {
+        return PaymentRequirements{}, err
+    }
+    if envelope.Accepts == nil {
+        var requirements PaymentRequirements
+        err := json.Unmarshal(body, &requirements)
+        return requirements, err
+    }
+    for _, requirements := range envelope.Accepts {
+        if requirements.Network == Network {
+            return requirements, nil
+        }
+    }
+    return PaymentRequirements{}, fmt.Errorf("server does not accept payment on %s", Network)
+}
+
+func get(url string, headers map[string]string) (*http.Response, []byte, error) {
+    request, err := http.NewRequest(http.MethodGet, url, nil)
+    if err != nil {
+        return nil, nil, err
+    }
+    for name, value := range headers {
+        request.Header.Set(name, value)
+    }
+    response, err := http.DefaultClient.Do(request)
+    if err != nil {
+        return nil, nil, err
+    }
+    defer response.Body.Close()
+    body, err := io.ReadAll(response.Body)
+    return response, body, err
+}
+
+func FetchWithPayment(url string) ([]byte, error) {
+    response, body, err := get(url, nil)
+    if err != nil {
+        return nil, err
+    }
+
+    if response.StatusCode == http.StatusPaymentRequired {
+        requirements, err := selectRequirements(body)
+        if err != nil {
+            return nil, err
+        }
+        paymentHeader, err := CreatePayment(requirements)
+        if err != nil {
+            return nil, err
+        }
+        _, body, err = get(url, map[string]string{"X-PAYMENT": paymentHeader})
+        if err != nil {
+            return nil, err
+        }
+    }
+
+    return body, nil
+}`;
+
+function evmConsumer({ network, networkConfig, token }: ConsumerTemplateOptions): string {
+  return gofmt(`// go get github.com/ethereum/go-ethereum
+package x402client
+
+import (
+    "crypto/rand"
+    "encoding/base64"
+    "encoding/json"
+    "fmt"
+    "io"
+    "net/http"
+    "os"
+    "strings"
+    "time"
+
+    "github.com/ethereum/go-ethereum/common/hexutil"
+    "github.com/ethereum/go-ethereum/common/math"
+    "github.com/ethereum/go-ethereum/crypto"
+    "github.com/ethereum/go-ethereum/signer/core/apitypes"
+)
+
+const (
+    Network = ${go(network)}
+    ChainID = ${networkConfig.chainId}
+)
+
+var MerchantURL = os.Getenv("MERCHANT_URL")
+
+${PAYMENT_REQUIREMENTS_TYPE}
+
+var transferWithAuthorizationTypes = apitypes.Types{
+    "EIP712Domain": {
+        {Name: "name", Type: "string"},
+        {Name: "version", Type: "string"},
+        {Name: "chainId", Type: "uint256"},
+        {Name: "verifyingContract", Type: "address"},
+    },
+    "TransferWithAuthorization": {
+        {Name: "from", Type: "address"},
+        {Name: "to", Type: "address"},
+        {Name: "value", Type: "uint256"},
+        {Name: "validAfter", Type: "uint256"},
+        {Name: "validBefore", Type: "uint256"},
+        {Name: "nonce", Type: "bytes32"},
+    },
+}
+
+func CreatePayment(requirements PaymentRequirements) (string, error) {
+    key, err := crypto.HexToECDSA(strings.TrimPrefix(os.Getenv("CONSUMER_PRIVATE_KEY"), "0x"))
+    if err != nil {
+        return "", err
+    }
+    from := crypto.PubkeyToAddress(key.PublicKey).Hex()
+
+    // The server names the token's EIP-712 domain in extra; fall back to ${token.symbol}'s
+    name, version := ${go(token.eip712?.name ?? "USD Coin")}, ${go(token.eip712?.version ?? "2")}
+    if value, ok := requirements.Extra["name"].(string); ok {
+        name = value
+    }
+    if value, ok := requirements.Extra["version"].(string); ok {
+        version = value
+    }
+
+    validAfter := "0"
+    validBefore := fmt.Sprint(time.Now().Unix() + 3600)
+    nonceBytes := make([]byte, 32)
+    if _, err := rand.Read(nonceBytes); err != nil {
+        return "", err
+    }
+    nonce := hexutil.Encode(nonceBytes)
+
+    typedData := apitypes.TypedData{
+        Types:       transferWithAuthorizationTypes,
+        PrimaryType: "TransferWithAuthorization",
+        Domain: apitypes.TypedDataDomain{
+            Name:              name,
+            Version:           version,
+            ChainId:           math.NewHexOrDecimal256(ChainID),
+            VerifyingContract: requirements.Asset,
+        },
+        Message: apitypes.TypedDataMessage{
+            "from":        from,
+            "to":          requirements.PayTo,
+            "value":       requirements.MaxAmountRequired,
+            "validAfter":  validAfter,
+            "validBefore": validBefore,
+            "nonce":       nonce,
+        },
+    }
+    digest, _, err := apitypes.TypedDataAndHash(typedData)
+    if err != nil {
+        return "", err
+    }
+    signature, err := crypto.Sign(digest, key)
+    if err != nil {
+        return "", err
+    }
+    signature[64] += 27 // recovery id as Ethereum wallets encode it
+
+    paymentPayload := map[string]any{
+        "x402Version": 1,
+        "scheme":      "exact",
+        "network":     Network,
+        "payload": map[string]any{
+            "authorization": map[string]any{
+                "from":        from,
+                "to":          requirements.PayTo,
+                "value":       requirements.MaxAmountRequired,
+                "validAfter":  validAfter,
+                "validBefore": validBefore,
+                "nonce":       nonce,
+            },
+            "signature": hexutil.Encode(signature),
+        },
+    }
+
+    encoded, err := json.Marshal(paymentPayload)
+    if err != nil {
+        return "", err
+    }
+    return base64.StdEncoding.EncodeToString(encoded), nil
+}
+
+${SELECT_AND_FETCH}`);
+}
+
+function solanaConsumer({ network, networkConfig }: ConsumerTemplateOptions): string {
+  return gofmt(`// go get github.com/gagliardetto/solana-go
+package x402client
+
+import (
+    "context"
+    "encoding/base64"
+    "encoding/binary"
+    "encoding/json"
+    "errors"
+    "fmt"
+    "io"
+    "net/http"
+    "os"
+    "sort"
+    "strconv"
+
+    "github.com/gagliardetto/solana-go"
+    computebudget "github.com/gagliardetto/solana-go/programs/compute-budget"
+    "github.com/gagliardetto/solana-go/rpc"
+)
+
+const (
+    Network = ${go(network)}
+    RPCURL  = ${go(networkConfig.rpcUrl!)}
+)
+
+// Compute budget of the payment transaction, and bounds on its priority fee (micro-lamports per CU)
+const (
+    transferComputeUnits      = 20_000
+    createAccountComputeUnits = 30_000
+    minPriorityFee            = 1
+    maxPriorityFee            = 1_000_000
+)
+
+var MerchantURL = os.Getenv("MERCHANT_URL")
+
+${PAYMENT_REQUIREMENTS_TYPE}
+
+// Associated token account of owner for mint under the mint's token program
+func associatedTokenAddress(owner, mint, tokenProgram solana.PublicKey) (solana.PublicKey, error) {
+    address, _, err := solana.FindProgramAddress(
+        [][]byte{owner[:], tokenProgram[:], mint[:]},
+        solana.SPLAssociatedTokenAccountProgramID,
+    )
+    return address, err
+}
+
+// Median of the recent priority fees paid for the writable accounts
+func priorityFee(ctx context.Context, client *rpc.Client, accounts ...solana.PublicKey) (uint64, error) {
+    recent, err := client.GetRecentPrioritizationFees(ctx, accounts)
+    if err != nil {
+        return 0, err
+    }
+    var fees []uint64
+    for _, fee := range recent {
+        if fee.PrioritizationFee > 0 {
+            fees = append(fees, fee.PrioritizationFee)
+        }
+    }
+    if len(fees) == 0 {
+        return minPriorityFee, nil
+    }
+    sort.Slice(fees, func(i, j int) bool { return fees[i] < fees[j] })
+    return min(max(fees[len(fees)/2], minPriorityFee), maxPriorityFee), nil
+}
+
+func CreatePayment(requirements PaymentRequirements) (string, error) {
+    ctx := context.Background()
+    client := rpc.New(RPCURL)
+
+    keypair, err := solana.PrivateKeyFromBase58(os.Getenv("CONSUMER_PRIVATE_KEY_BS58"))
+    if err != nil {
+        return "", err
+    }
+    owner := keypair.PublicKey()
+    payTo, err := solana.PublicKeyFromBase58(requirements.PayTo)
+    if err != nil {
+        return "", err
+    }
+    mint, err := solana.PublicKeyFromBase58(requirements.Asset)
+    if err != nil {
+        return "", err
+    }
+    amount, err := strconv.ParseUint(requirements.MaxAmountRequired, 10, 64)
+    if err != nil {
+        return "", err
+    }
+    // The facilitator pays the fee when it names a fee payer; it co-signs at settlement
+    feePayer := owner
+    if address, ok := requirements.Extra["feePayer"].(string); ok && address != "" {
+        if feePayer, err = solana.PublicKeyFromBase58(address); err != nil {
+            return "", err
+        }
+    }
+
+    // The mint's owner is its token program (SPL Token or Token-2022); decimals sit at byte 44
+    mintAccount, err := client.GetAccountInfo(ctx, mint)
+    if err != nil {
+        return "", fmt.Errorf("mint %s on %s: %w", mint, Network, err)
+    }
+    tokenProgram := mintAccount.Value.Owner
+    decimals := mintAccount.Value.Data.GetBinary()[44]
+
+    source, err := associatedTokenAddress(owner, mint, tokenProgram)
+    if err != nil {
+        return "", err
+    }
+    destination, err := associatedTokenAddress(payTo, mint, tokenProgram)
+    if err != nil {
+        return "", err
+    }
+    _, err = client.GetAccountInfo(ctx, destination)
+    if err != nil && !errors.Is(err, rpc.ErrNotFound) {
+        return "", err
+    }
+    createDestination := errors.Is(err, rpc.ErrNotFound)
+
+    units := uint32(transferComputeUnits)
+    if createDestination {
+        units += createAccountComputeUnits
+    }
+    fee, err := priorityFee(ctx, client, source, destination)
+    if err != nil {
+        return "", err
+    }
+    instructions := []solana.Instruction{
+        computebudget.NewSetComputeUnitLimitInstruction(units).Build(),
+        computebudget.NewSetComputeUnitPriceInstruction(fee).Build(),
+    }
+    if createDestination {
+        // CreateIdempotent, funded by the payer so a facilitator fee payer only covers the fee
+        instructions = append(instructions, solana.NewInstruction(
+            solana.SPLAssociatedTokenAccountProgramID,
+            solana.AccountMetaSlice{
+                solana.Meta(owner).WRITE().SIGNER(),
+                solana.Meta(destination).WRITE(),
+                solana.Meta(payTo),
+                solana.Meta(mint),
+                solana.Meta(solana.SystemProgramID),
+                solana.Meta(tokenProgram),
+            },
+            []byte{1},
+        ))
+    }
+    // TransferChecked (instruction 12): amount, then decimals
+    transferData := binary.LittleEndian.AppendUint64([]byte{12}, amount)
+    instructions = append(instructions, solana.NewInstruction(
+        tokenProgram,
+        solana.AccountMetaSlice{
+            solana.Meta(source).WRITE(),
+            solana.Meta(mint),
+            solana.Meta(destination).WRITE(),
+            solana.Meta(owner).SIGNER(),
+        },
+        append(transferData, decimals),
+    ))
+
+    latest, err := client.GetLatestBlockhash(ctx, rpc.CommitmentFinalized)
+    if err != nil {
+        return "", err
+    }
+
+    transaction, err := solana.NewTransaction(
+        instructions,
+        latest.Value.Blockhash,
+        solana.TransactionPayer(feePayer),
+    )
+    if err != nil {
+        return "", err
+    }
+    transaction.Message.SetVersion(solana.MessageVersionV0)
+
+    // Partially signed when the facilitator is the fee payer: its slot stays empty
+    message, err := transaction.Message.MarshalBinary()
+    if err != nil {
+        return "", err
+    }
+    signature, err := keypair.Sign(message)
+    if err != nil {
+        return "", err
+    }
+    transaction.Signatures = make([]solana.Signature, transaction.Message.Header.NumRequiredSignatures)
+    for i, key := range transaction.Message.AccountKeys[:len(transaction.Signatures)] {
+        if key.Equals(owner) {
+            transaction.Signatures[i] = signature
+        }
+    }
+
+    serialized, err := transaction.MarshalBinary()
+    if err != nil {
+        return "", err
+    }
+
+    paymentPayload := map[string]any{
+        "x402Version": 1,
+        "scheme":      "exact",
+        "network":     Network,
+        "payload": map[string]any{
+            "transaction": base64.StdEncoding.EncodeToString(serialized),
+        },
+    }
+
+    encoded, err := json.Marshal(paymentPayload)
+    if err != nil {
+        return "", err
+    }
+    return base64.StdEncoding.EncodeToString(encoded), nil
+}
+
+${SELECT_AND_FETCH}`);
+}
+
+export function goConsumer(options: ConsumerTemplateOptions): string {
+  return options.networkConfig.type === "evm" ? evmConsumer(options) : solanaConsumer(options);
+}
+
+// Payer's transaction signature, the replay key of a Solana payment
+const SOLANA_PAYMENT_KEY = `    payload, _ := paymentPayload["payload"].(map[string]any)
+    encoded, _ := payload["transaction"].(string)
+    transaction, err := base64.StdEncoding.DecodeString(encoded)
+    if err != nil {
+        return "", err
+    }
+    if len(transaction) < 2 {
+        return "", fmt.Errorf("payment transaction is empty")
+    }
+    // Signatures come first, after a compact-u16 count; the first non-empty
+    // one is the payer's (a facilitator fee payer signs at settlement)
+    count, offset := int(transaction[0]), 1
+    if count&0x80 != 0 {
+        count, offset = count&0x7f|int(transaction[1])<<7, 2
+    }
+    for i := 0; i < count && offset+(i+1)*64 <= len(transaction); i++ {
+        signature := transaction[offset+i*64 : offset+(i+1)*64]
+        if !bytes.Equal(signature, make([]byte, 64)) {
+            return hex.EncodeToString(signature), nil
+        }
+    }
+    return "", fmt.Errorf("payment transaction is not signed")`;
+
+// (from, nonce) of an EVM payload's authorization
+const EVM_AUTHORIZATION = `payload, _ := paymentPayload["payload"].(map[string]any)
+        authorization, _ := payload["authorization"].(map[string]any)
+        from, _ := authorization["from"].(string)
+        nonce, _ := authorization["nonce"].(string)
+        if from == "" || nonce == "" {
+            return "", fmt.Errorf("payment payload has no authorization")
+        }`;
+
+// Key identifying a payment payload: (from, nonce, asset, chainId) on EVM
+// networks, the payer's transaction signature on Solana
+function paymentKeyFunction(chainId: number | undefined): string {
+  if (chainId !== undefined) {
+    return `func paymentKey(paymentPayload map[string]any) (string, error) {
+    ${EVM_AUTHORIZATION.replace(/^ {4}/gm, "")}
+    return strings.ToLower(strings.Join([]string{from, nonce, AssetAddress, "${chainId}"}, ":")), nil
+}`;
+  }
+  return `func paymentKey(paymentPayload map[string]any) (string, error) {
+${SOLANA_PAYMENT_KEY}
+}`;
+}
+
+// Routes mode: the key depends on the network of the option being paid
+const ROUTES_PAYMENT_KEY = `func paymentKey(paymentPayload map[string]any, option paymentOption) (string, error) {
+    if option.chainID != 0 {
+        ${EVM_AUTHORIZATION}
+        return strings.ToLower(strings.Join([]string{from, nonce, option.asset, fmt.Sprint(option.chainID)}, ":")), nil
+    }
+${SOLANA_PAYMENT_KEY}
+}`;
+
+// The facilitator calls and the optional replay cache, shared by both modes
+const PAYMENT_HELPERS = `func facilitatorURL() string {
+    if url := os.Getenv("FACILITATOR_URL"); url != "" {
+        return url
+    }
+    return defaultFacilitatorURL
+}
+
+// The facilitator answers with the result or wraps it as { success, data }
+func callFacilitator(path string, paymentPayload, paymentRequirements map[string]any) (map[string]any, error) {
+    requestBody, err := json.Marshal(map[string]any{
+        "paymentPayload":      paymentPayload,
+        "paymentRequirements": paymentRequirements,
+    })
+    if err != nil {
+        return nil, err
+    }
+    response, err := http.Post(facilitatorURL()+path, "application/json", bytes.NewReader(requestBody))
+    if err != nil {
+        return nil, err
+    }
+    defer response.Body.Close()
+
+    var body map[string]any
+    if err := json.NewDecoder(response.Body).Decode(&body); err != nil {
+        return nil, err
+    }
+    if success, _ := body["success"].(bool); success {
+        if data, ok := body["data"].(map[string]any); ok {
+            return data, nil
+        }
+    }
+    return body, nil
+}
+
+// ReplayCache remembers accepted payments so one X-PAYMENT header cannot pay
+// for two requests before settlement catches it. Claim records the first use
+// of a payment and reports the resource it was already used for.
+type ReplayCache interface {
+    Claim(key, resource string) (usedFor string, used bool)
+    Release(key string)
+}
+
+// PaymentReplayCache is off by default: set it to NewMemoryReplayCache(), or to
+// a shared store when running several instances.
+var PaymentReplayCache ReplayCache
+
+type memoryReplayCache struct {
+    mu   sync.Mutex
+    used map[string]string
+}
+
+func NewMemoryReplayCache() ReplayCache {
+    return &memoryReplayCache{used: map[string]string{}}
+}
+
+func (c *memoryReplayCache) Claim(key, resource string) (string, bool) {
+    c.mu.Lock()
+    defer c.mu.Unlock()
+    if usedFor, used := c.used[key]; used {
+        return usedFor, true
+    }
+    c.used[key] = resource
+    return "", false
+}
+
+func (c *memoryReplayCache) Release(key string) {
+    c.mu.Lock()
+    defer c.mu.Unlock()
+    delete(c.used, key)
+}`;
+
+// Verify, then settle. In routes mode the route is looked up first, and the
+// payer's network picks which of its accepts entries to charge.
+function processPaymentFunction(routes: boolean): string {
+  const select = routes
+    ? `// Verify, then settle, the X-PAYMENT header for a resource. Returns the
+// response to send, or a 200 outcome when the request may go through, with
+// the settlement unless the route has no price.
+func processPayment(paymentHeader, resource, method, path string) (outcome paymentOutcome) {
+    route := findRoute(method, path)
+    if route == nil {
+        return paymentOutcome{status: http.StatusOK}
+    }
+    accepts := make([]any, len(route.accepts))
+    for i, option := range route.accepts {
+        accepts[i] = buildPaymentRequirements(route, option, resource)
+    }`
+    : `type paymentOutcome struct {
+    status     int
+    body       map[string]any
+    settlement map[string]any
+}
+
+// Verify, then settle, the X-PAYMENT header for a resource. Returns the
+// response to send, or the settlement when the request may go through.
+func processPayment(paymentHeader, resource string) (outcome paymentOutcome) {
+    paymentRequirements := buildPaymentRequirements(resource)
+    accepts := []any{paymentRequirements}`;
+  const choose = routes
+    ? `
+
+    // Charge the option for the network the payer chose
+    index := -1
+    for i, option := range route.accepts {
+        if option.network == paymentPayload["network"] {
+            index = i
+            break
+        }
+    }
+    if index == -1 {
+        return paymentOutcome{status: http.StatusPaymentRequired, body: map[string]any{
+            "error":   "Payment network not accepted",
+            "reason":  "invalid_network",
+            "accepts": accepts,
+        }}
+    }
+    paymentRequirements := accepts[index].(map[string]any)`
+    : "";
+
+  return `${select}
+
+    if paymentHeader == "" {
+        return paymentOutcome{status: http.StatusPaymentRequired, body: map[string]any{
+            "x402Version": 1,
+            "error":       "X-PAYMENT header is required",
+            "accepts":     accepts,
+        }}
+    }
+
+    failed := func(err error) paymentOutcome {
+        return paymentOutcome{status: http.StatusInternalServerError, body: map[string]any{
+            "error":   "Payment processing failed",
+            "message": err.Error(),
+        }}
+    }
+
+    decoded, err := base64.StdEncoding.DecodeString(paymentHeader)
+    if err != nil {
+        return failed(err)
+    }
+    var paymentPayload map[string]any
+    if err := json.Unmarshal(decoded, &paymentPayload); err != nil {
+        return failed(err)
+    }${choose}
+
+    // Step 0: Refuse a payment already used for another request
+    if PaymentReplayCache != nil {
+        key, err := paymentKey(paymentPayload${routes ? ", route.accepts[index]" : ""})
+        if err != nil {
+            return failed(err)
+        }
+        if usedFor, used := PaymentReplayCache.Claim(key, resource); used {
+            reason := "payment_resource_mismatch"
+            if usedFor == resource {
+                reason = "payment_replayed"
+            }
+            return paymentOutcome{status: http.StatusPaymentRequired, body: map[string]any{
+                "error":  "Payment already used",
+                "reason": reason,
+            }}
+        }
+        // A claimed payment that does not go through may be retried
+        defer func() {
+            if outcome.settlement == nil {
+                PaymentReplayCache.Release(key)
+            }
+        }()
+    }
+
+    // Step 1: Verify
+    verifyData, err := callFacilitator("/verify", paymentPayload, paymentRequirements)
+    if err != nil {
+        return failed(err)
+    }
+    if valid, _ := verifyData["isValid"].(bool); !valid {
+        return paymentOutcome{status: http.StatusPaymentRequired, body: map[string]any{
+            "error":  "Payment verification failed",
+            "reason": verifyData["invalidReason"],
+        }}
+    }
+
+    // Step 2: Settle
+    settleData, err := callFacilitator("/settle", paymentPayload, paymentRequirements)
+    if err != nil {
+        return failed(err)
+    }
+    if success, _ := settleData["success"].(bool); !success {
+        return paymentOutcome{status: http.StatusPaymentRequired, body: map[string]any{
+            "error": "Payment settlement failed",
+        }}
+    }
+
+    transaction := settleData["transaction"]
+    if transaction == nil {
+        transaction = settleData["signature"]
+    }
+    log.Println("✅ Payment settled:", transaction)
+    return paymentOutcome{status: http.StatusOK, settlement: settleData}
+}`;
+}
+
+function requirePaymentFunction(routes: boolean): string {
+  return `type settlementKey struct{}
+
+// Settlement returns the facilitator's settlement for a request RequirePayment let through
+func Settlement(r *http.Request) map[string]any {
+    settlement, _ := r.Context().Value(settlementKey{}).(map[string]any)
+    return settlement
+}
+
+// RequirePayment wraps a handler: ${routes ? "http.ListenAndServe(addr, RequirePayment(mux)) prices every route" : `http.Handle("/premium", RequirePayment(premiumHandler))`}
+func RequirePayment(next http.Handler) http.Handler {
+    return http.HandlerFunc(func(w http.ResponseWriter, r *http.Request) {
+        scheme := "http"
+        if r.TLS != nil {
+            scheme = "https"
+        }
+        resource := fmt.Sprintf("%s://%s%s", scheme, r.Host, r.URL.RequestURI())
+
+        outcome := processPayment(r.Header.Get("X-PAYMENT"), resource${routes ? ", r.Method, r.URL.Path" : ""})
+        if outcome.status != http.StatusOK {
+            w.Header().Set("Content-Type", "application/json")
+            w.WriteHeader(outcome.status)
+            json.NewEncoder(w).Encode(outcome.body)
+            return
+        }
+        next.ServeHTTP(w, r.WithContext(context.WithValue(r.Context(), settlementKey{}, outcome.settlement)))
+    })
+}`;
+}
+
+// net/http middleware running the same verify-then-settle flow as the
+// TypeScript middleware; standard library only
+export function goMerchant(options: MerchantTemplateOptions): string {
+  const { network, networkConfig, token, price } = options;
+  const evm = networkConfig.type === "evm";
+  const extra =
+    evm && token.eip712
+      ? `\n        "extra":             map[string]any{"name": ${go(token.eip712.name)}, "version": ${go(token.eip712.version)}},`
+      : "";
+
+  return gofmt(`package x402merchant
+
+import (
+    "bytes"
+    "context"
+    "encoding/base64"${evm ? "" : `\n    "encoding/hex"`}
+    "encoding/json"
+    "fmt"
+    "log"
+    "net/http"
+    "os"${evm ? `\n    "strings"` : ""}
+    "sync"
+)
+
+const (
+    Network      = ${go(network)}
+    AssetAddress = ${go(token.address)} // ${token.symbol}
+    // ${formatAmount(price, token)} (${token.decimals} decimals)
+    Price                 = "${price}"
+    Description           = ${go(options.description)}
+    MimeType              = ${go(options.mimeType)}
+    defaultFacilitatorURL = ${go(options.facilitatorUrl)}
+)
+
+func buildPaymentRequirements(resource string) map[string]any {
+    return map[string]any{
+        "scheme":            "exact",
+        "network":           Network,
+        "maxAmountRequired": Price,
+        "payTo":             os.Getenv(${go(options.walletEnv ?? "MERCHANT_WALLET_ADDRESS")}),
+        "asset":             AssetAddress,
+        "resource":          resource,
+        "description":       Description,
+        "mimeType":          MimeType,
+        "maxTimeoutSeconds": 300,${extra}
+    }
+}
+
+${PAYMENT_HELPERS}
+
+${paymentKeyFunction(evm ? networkConfig.chainId : undefined)}
+
+${processPaymentFunction(false)}
+
+${requirePaymentFunction(false)}`);
+}
+
+// One entry of the routes table
+function routeEntry(route: PricedRoute): string {
+  const accepts = route.options.map((option) => {
+    const fields = [
+      `network: ${go(option.network)}`,
+      `asset: ${go(option.token.address)}`,
+      `price: "${option.amount}"`,
+      `payTo: ${go(option.payTo)}`,
+      ...(option.networkConfig.type === "evm" ? [`chainID: ${option.networkConfig.chainId}`] : []),
+      ...(option.networkConfig.type === "evm" && option.token.eip712
+        ? [`extra: map[string]any{"name": ${go(option.token.eip712.name)}, "version": ${go(option.token.eip712.version)}}`]
+        : []),
+    ];
+    return `            // ${formatAmount(option.amount, option.token)} on ${option.network}
+            {${fields.join(", ")}},`;
+  });
+  return `    {
+        methods:     []string{${route.methods.map(go).join(", ")}},
+        pattern:     regexp.MustCompile(${go(route.pattern)}), // ${route.path}
+        description: ${go(route.description)},
+        mimeType:    ${go(route.mimeType)},
+        accepts: []paymentOption{
+${accepts.join("\n")}
+        },
+    },`;
+}
+
+// Routes mode: a price table generated from a pricing config instead of one
+// hardcoded price
+export function goRoutesMerchant(options: RoutesTemplateOptions): string {
+  return gofmt(`package x402merchant
+
+import (
+    "bytes"
+    "context"
+    "encoding/base64"
+    "encoding/hex"
+    "encoding/json"
+    "fmt"
+    "log"
+    "net/http"
+    "os"
+    "regexp"
+    "strings"
+    "sync"
+)
+
+const defaultFacilitatorURL = ${go(options.facilitatorUrl)}
+
+type paymentOption struct {
+    network string
+    asset   string
+    // Base units of the asset
+    price string
+    payTo string
+    // EVM networks only
+    chainID int64
+    extra   map[string]any
+}
+
+type pricedRoute struct {
+    methods     []string
+    pattern     *regexp.Regexp
+    description string
+    mimeType    string
+    accepts     []paymentOption
+}
+
+// Priced routes, matched in order against the request method and path.
+// Requests no route matches go through free.
+var routes = []pricedRoute{
+${options.routes.map(routeEntry).join("\n")}
+}
+
+func findRoute(method, path string) *pricedRoute {
+    for i, route := range routes {
+        for _, m := range route.methods {
+            if (m == "*" || m == strings.ToUpper(method)) && route.pattern.MatchString(path) {
+                return &routes[i]
+            }
+        }
+    }
+    return nil
+}
+
+func buildPaymentRequirements(route *pricedRoute, option paymentOption, resource string) map[string]any {
+    requirements := map[string]any{
+        "scheme":            "exact",
+        "network":           option.network,
+        "maxAmountRequired": option.price,
+        "payTo":             option.payTo,
+        "asset":             option.asset,
+        "resource":          resource,
+        "description":       route.description,
+        "mimeType":          route.mimeType,
+        "maxTimeoutSeconds": 300,
+    }
+    if option.extra != nil {
+        requirements["extra"] = option.extra
+    }
+    return requirements
+}
+
+${PAYMENT_HELPERS}
+
+${ROUTES_PAYMENT_KEY}
+
+type paymentOutcome struct {
+    status     int
+    body       map[string]any
+    settlement map[string]any
+}
+
+${processPaymentFunction(true)}
+
+${requirePaymentFunction(true)}`);
+}
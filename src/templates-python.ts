@@ -0,0 +1,560 @@
+import type { ConsumerTemplateOptions, MerchantTemplateOptions, RoutesTemplateOptions } from "./templates.js";
+import type { PricedRoute } from "./pricing.js";
+import { formatAmount } from "./amounts.js";
+
+// Python string literal (JSON escapes are valid Python escapes)
+const py = (value: string) => JSON.stringify(value);
+
+const SELECT_REQUIREMENTS = `# 402 bodies are either { x402Version, error, accepts: [...] } or a bare requirements object
+def select_requirements(body: dict) -> dict:
+    if not isinstance(body.get("accepts"), list):
+        return body
+    for requirements in body["accepts"]:
+        if requirements.get("network") == NETWORK:
+            return requirements
+    raise RuntimeError(f"Server does not accept payment on {NETWORK}")
+
+
+def fetch_with_payment(url: str):
+    response = requests.get(url)
+
+    if response.status_code == 402:
+        requirements = select_requirements(response.json())
+        payment_header = create_payment(requirements)
+        response = requests.get(url, headers={"X-PAYMENT": payment_header})
+
+    return response.json()`;
+
+function evmConsumer({ network, networkConfig, token }: ConsumerTemplateOptions): string {
+  return `# pip install eth-account requests
+import base64
+import json
+import os
+import secrets
+import time
+
+import requests
+from eth_account import Account
+from eth_account.messages import encode_typed_data
+
+CONSUMER_PRIVATE_KEY = os.environ["CONSUMER_PRIVATE_KEY"]
+MERCHANT_URL = os.environ.get("MERCHANT_URL")
+NETWORK = ${py(network)}
+CHAIN_ID = ${networkConfig.chainId}
+
+account = Account.from_key(CONSUMER_PRIVATE_KEY)
+
+TRANSFER_WITH_AUTHORIZATION_TYPES = {
+    "TransferWithAuthorization": [
+        {"name": "from", "type": "address"},
+        {"name": "to", "type": "address"},
+        {"name": "value", "type": "uint256"},
+        {"name": "validAfter", "type": "uint256"},
+        {"name": "validBefore", "type": "uint256"},
+        {"name": "nonce", "type": "bytes32"},
+    ]
+}
+
+
+def create_payment(requirements: dict) -> str:
+    # The server names the token's EIP-712 domain in extra; fall back to ${token.symbol}'s
+    extra = requirements.get("extra") or {}
+    domain = {
+        "name": extra.get("name", ${py(token.eip712?.name ?? "USD Coin")}),
+        "version": extra.get("version", ${py(token.eip712?.version ?? "2")}),
+        "chainId": CHAIN_ID,
+        "verifyingContract": requirements["asset"],
+    }
+
+    valid_after = 0
+    valid_before = int(time.time()) + 3600
+    nonce = "0x" + secrets.token_hex(32)
+
+    message = {
+        "from": account.address,
+        "to": requirements["payTo"],
+        "value": int(requirements["maxAmountRequired"]),
+        "validAfter": valid_after,
+        "validBefore": valid_before,
+        "nonce": bytes.fromhex(nonce[2:]),
+    }
+
+    signable = encode_typed_data(
+        domain_data=domain,
+        message_types=TRANSFER_WITH_AUTHORIZATION_TYPES,
+        message_data=message,
+    )
+    signature = "0x" + bytes(account.sign_message(signable).signature).hex()
+
+    payment_payload = {
+        "x402Version": 1,
+        "scheme": "exact",
+        "network": NETWORK,
+        "payload": {
+            "authorization": {
+                "from": account.address,
+                "to": requirements["payTo"],
+                "value": requirements["maxAmountRequired"],
+                "validAfter": str(valid_after),
+                "validBefore": str(valid_before),
+                "nonce": nonce,
+            },
+            "signature": signature,
+        },
+    }
+
+    return base64.b64encode(json.dumps(payment_payload).encode()).decode()
+
+
+${SELECT_REQUIREMENTS}`;
+}
+
+function solanaConsumer({ network, networkConfig }: ConsumerTemplateOptions): string {
+  return `# pip install solana solders requests
+import base64
+import json
+import os
+
+import requests
+from solana.rpc.api import Client
+from solana.rpc.commitment import Finalized
+from solders.compute_budget import set_compute_unit_limit, set_compute_unit_price
+from solders.keypair import Keypair
+from solders.message import MessageV0, to_bytes_versioned
+from solders.pubkey import Pubkey
+from solders.signature import Signature
+from solders.transaction import VersionedTransaction
+from spl.token.instructions import (
+    TransferCheckedParams,
+    create_idempotent_associated_token_account,
+    get_associated_token_address,
+    transfer_checked,
+)
+
+CONSUMER_PRIVATE_KEY_BS58 = os.environ["CONSUMER_PRIVATE_KEY_BS58"]
+MERCHANT_URL = os.environ.get("MERCHANT_URL")
+NETWORK = ${py(network)}
+RPC_URL = ${py(networkConfig.rpcUrl!)}
+
+# Compute budget of the payment transaction, and bounds on its priority fee (micro-lamports per CU)
+TRANSFER_COMPUTE_UNITS = 20_000
+CREATE_ACCOUNT_COMPUTE_UNITS = 30_000
+MIN_PRIORITY_FEE = 1
+MAX_PRIORITY_FEE = 1_000_000
+
+keypair = Keypair.from_base58_string(CONSUMER_PRIVATE_KEY_BS58)
+client = Client(RPC_URL)
+
+
+def priority_fee(accounts: list) -> int:
+    """Median of the recent priority fees paid for the writable accounts."""
+    response = requests.post(RPC_URL, json={
+        "jsonrpc": "2.0",
+        "id": 1,
+        "method": "getRecentPrioritizationFees",
+        "params": [[str(account) for account in accounts]],
+    }).json()
+    fees = sorted(f["prioritizationFee"] for f in response.get("result", []) if f["prioritizationFee"] > 0)
+    median = fees[len(fees) // 2] if fees else MIN_PRIORITY_FEE
+    return min(max(median, MIN_PRIORITY_FEE), MAX_PRIORITY_FEE)
+
+
+def create_payment(requirements: dict) -> str:
+    owner = keypair.pubkey()
+    pay_to = Pubkey.from_string(requirements["payTo"])
+    mint = Pubkey.from_string(requirements["asset"])
+    amount = int(requirements["maxAmountRequired"])
+    # The facilitator pays the fee when it names a fee payer; it co-signs at settlement
+    fee_payer_address = (requirements.get("extra") or {}).get("feePayer")
+    fee_payer = Pubkey.from_string(fee_payer_address) if fee_payer_address else owner
+
+    # The mint's owner is its token program (SPL Token or Token-2022); decimals sit at byte 44
+    mint_account = client.get_account_info(mint).value
+    if mint_account is None:
+        raise RuntimeError(f"Mint {mint} does not exist on {NETWORK}")
+    token_program = mint_account.owner
+    decimals = mint_account.data[44]
+
+    source = get_associated_token_address(owner, mint, token_program)
+    destination = get_associated_token_address(pay_to, mint, token_program)
+    destination_exists = client.get_account_info(destination).value is not None
+
+    instructions = [
+        set_compute_unit_limit(
+            TRANSFER_COMPUTE_UNITS + (0 if destination_exists else CREATE_ACCOUNT_COMPUTE_UNITS)
+        ),
+        set_compute_unit_price(priority_fee([source, destination])),
+    ]
+    if not destination_exists:
+        # Funded by the payer, so a facilitator fee payer only covers the fee
+        instructions.append(create_idempotent_associated_token_account(owner, pay_to, mint, token_program))
+    instructions.append(
+        transfer_checked(
+            TransferCheckedParams(
+                program_id=token_program,
+                source=source,
+                mint=mint,
+                dest=destination,
+                owner=owner,
+                amount=amount,
+                decimals=decimals,
+            )
+        )
+    )
+
+    blockhash = client.get_latest_blockhash(Finalized).value.blockhash
+
+    message = MessageV0.try_compile(
+        payer=fee_payer,
+        instructions=instructions,
+        address_lookup_table_accounts=[],
+        recent_blockhash=blockhash,
+    )
+    # Partially signed when the facilitator is the fee payer: its slot stays empty
+    signature = keypair.sign_message(to_bytes_versioned(message))
+    signers = message.account_keys[: message.header.num_required_signatures]
+    transaction = VersionedTransaction.populate(
+        message, [signature if signer == owner else Signature.default() for signer in signers]
+    )
+
+    payment_payload = {
+        "x402Version": 1,
+        "scheme": "exact",
+        "network": NETWORK,
+        "payload": {
+            "transaction": base64.b64encode(bytes(transaction)).decode(),
+        },
+    }
+
+    return base64.b64encode(json.dumps(payment_payload).encode()).decode()
+
+
+${SELECT_REQUIREMENTS}`;
+}
+
+export function pythonConsumer(options: ConsumerTemplateOptions): string {
+  return options.networkConfig.type === "evm" ? evmConsumer(options) : solanaConsumer(options);
+}
+
+// Payer's transaction signature, the replay key of a Solana payment
+const SOLANA_PAYMENT_KEY = `    transaction = base64.b64decode(payment_payload["payload"]["transaction"])
+    # Signatures come first, after a compact-u16 count; the first non-empty
+    # one is the payer's (a facilitator fee payer signs at settlement)
+    count, offset = transaction[0], 1
+    if count & 0x80:
+        count, offset = (count & 0x7F) | (transaction[1] << 7), 2
+    for i in range(count):
+        signature = transaction[offset + i * 64 : offset + (i + 1) * 64]
+        if any(signature):
+            return signature.hex()
+    raise ValueError("Payment transaction is not signed")`;
+
+// Key identifying a payment payload: (from, nonce, asset, chainId) on EVM
+// networks, the payer's transaction signature on Solana
+function paymentKeyFunction(chainId: number | undefined): string {
+  if (chainId !== undefined) {
+    return `def payment_key(payment_payload: dict) -> str:
+    authorization = payment_payload["payload"]["authorization"]
+    return ":".join([authorization["from"], authorization["nonce"], ASSET_ADDRESS, "${chainId}"]).lower()`;
+  }
+  return `def payment_key(payment_payload: dict) -> str:
+${SOLANA_PAYMENT_KEY}`;
+}
+
+// Routes mode: the key depends on the network of the option being paid
+const ROUTES_PAYMENT_KEY = `def payment_key(payment_payload: dict, option: dict) -> str:
+    if "chainId" in option:
+        authorization = payment_payload["payload"]["authorization"]
+        return ":".join([authorization["from"], authorization["nonce"], option["asset"], str(option["chainId"])]).lower()
+${SOLANA_PAYMENT_KEY}`;
+
+// PaymentRequired, the facilitator calls and the optional replay cache,
+// shared by both modes
+const PAYMENT_HELPERS = `class PaymentRequired(Exception):
+    """Raised by require_payment; answered by payment_required_handler."""
+
+    def __init__(self, status_code: int, body: dict):
+        self.status_code = status_code
+        self.body = body
+
+
+# The facilitator answers with the result or wraps it as { success, data }
+async def call_facilitator(client: httpx.AsyncClient, path: str, payment_payload: dict, payment_requirements: dict) -> dict:
+    response = await client.post(
+        f"{FACILITATOR_URL}{path}",
+        json={"paymentPayload": payment_payload, "paymentRequirements": payment_requirements},
+    )
+    body = response.json()
+    return body["data"] if body.get("success") and "data" in body else body
+
+
+class MemoryReplayCache:
+    """Remembers accepted payments in this process. Several workers need a
+    shared store (e.g. Redis) with the same claim/release methods."""
+
+    def __init__(self):
+        self.used: dict[str, str] = {}
+
+    def claim(self, key: str, resource: str) -> str | None:
+        """Record the first use of a payment; returns the resource it was already used for."""
+        previous = self.used.get(key)
+        if previous is None:
+            self.used[key] = resource
+        return previous
+
+    def release(self, key: str) -> None:
+        self.used.pop(key, None)
+
+
+# Optional replay cache: stops one X-PAYMENT header from paying for two
+# requests before settlement catches it. Enable with
+# set_replay_cache(MemoryReplayCache()).
+replay_cache = None
+
+
+def set_replay_cache(cache) -> None:
+    global replay_cache
+    replay_cache = cache`;
+
+// Verify, then settle. In routes mode the route is looked up first, and the
+// payer's network picks which of its accepts entries to charge.
+function processPaymentFunction(routes: boolean): string {
+  const select = routes
+    ? `# Verify, then settle, the X-PAYMENT header for a resource. Returns the
+# settlement, None for a route without a price, or raises PaymentRequired
+# with the response to send.
+async def process_payment(payment_header: str | None, resource: str, method: str) -> dict | None:
+    route = find_route(method, resource)
+    if route is None:
+        return None
+    accepts = [build_payment_requirements(route, option, resource) for option in route["accepts"]]`
+    : `# Verify, then settle, the X-PAYMENT header for a resource. Returns the
+# settlement, or raises PaymentRequired with the response to send.
+async def process_payment(payment_header: str | None, resource: str) -> dict:
+    payment_requirements = build_payment_requirements(resource)
+    accepts = [payment_requirements]`;
+  const choose = routes
+    ? `
+
+        # Charge the option for the network the payer chose
+        index = next(
+            (i for i, option in enumerate(route["accepts"]) if option["network"] == payment_payload.get("network")),
+            None,
+        )
+        if index is None:
+            raise PaymentRequired(402, {
+                "error": "Payment network not accepted",
+                "reason": "invalid_network",
+                "accepts": accepts,
+            })
+        payment_requirements = accepts[index]`
+    : "";
+
+  return `${select}
+
+    if not payment_header:
+        raise PaymentRequired(402, {
+            "x402Version": 1,
+            "error": "X-PAYMENT header is required",
+            "accepts": accepts,
+        })
+
+    claimed_key = None
+    try:
+        payment_payload = json.loads(base64.b64decode(payment_header))${choose}
+
+        # Step 0: Refuse a payment already used for another request
+        if replay_cache is not None:
+            key = payment_key(payment_payload${routes ? ', route["accepts"][index]' : ""})
+            used_for = replay_cache.claim(key, resource)
+            if used_for is not None:
+                raise PaymentRequired(402, {
+                    "error": "Payment already used",
+                    "reason": "payment_replayed" if used_for == resource else "payment_resource_mismatch",
+                })
+            claimed_key = key
+
+        async with httpx.AsyncClient() as client:
+            # Step 1: Verify
+            verify_data = await call_facilitator(client, "/verify", payment_payload, payment_requirements)
+            if not verify_data.get("isValid"):
+                raise PaymentRequired(402, {
+                    "error": "Payment verification failed",
+                    "reason": verify_data.get("invalidReason"),
+                })
+
+            # Step 2: Settle
+            settle_data = await call_facilitator(client, "/settle", payment_payload, payment_requirements)
+            if not settle_data.get("success"):
+                raise PaymentRequired(402, {"error": "Payment settlement failed"})
+    except Exception as error:
+        # A claimed payment that does not go through may be retried
+        if claimed_key is not None:
+            replay_cache.release(claimed_key)
+        if isinstance(error, PaymentRequired):
+            raise
+        raise PaymentRequired(500, {"error": "Payment processing failed", "message": str(error)})
+
+    print("✅ Payment settled:", settle_data.get("transaction") or settle_data.get("signature"))
+    return settle_data`;
+}
+
+const PAYMENT_REQUIRED_HANDLER = `async def payment_required_handler(request: Request, exc: PaymentRequired) -> JSONResponse:
+    return JSONResponse(exc.body, status_code=exc.status_code)`;
+
+// FastAPI dependency running the same verify-then-settle flow as the
+// TypeScript middleware
+export function pythonMerchant(options: MerchantTemplateOptions): string {
+  const { network, networkConfig, token, price } = options;
+  const extra =
+    networkConfig.type === "evm" && token.eip712
+      ? `\n        "extra": {"name": ${py(token.eip712.name)}, "version": ${py(token.eip712.version)}},`
+      : "";
+
+  return `# pip install fastapi httpx
+import base64
+import json
+import os
+
+import httpx
+from fastapi import Request
+from fastapi.responses import JSONResponse
+
+FACILITATOR_URL = os.environ.get("FACILITATOR_URL", ${py(options.facilitatorUrl)})
+MERCHANT_WALLET = os.environ.get(${py(options.walletEnv ?? "MERCHANT_WALLET_ADDRESS")})
+NETWORK = ${py(network)}
+ASSET_ADDRESS = ${py(token.address)}  # ${token.symbol}
+PRICE = "${price}"  # ${formatAmount(price, token)} (${token.decimals} decimals)
+DESCRIPTION = ${py(options.description)}
+MIME_TYPE = ${py(options.mimeType)}
+
+
+def build_payment_requirements(resource: str) -> dict:
+    return {
+        "scheme": "exact",
+        "network": NETWORK,
+        "maxAmountRequired": PRICE,
+        "payTo": MERCHANT_WALLET,
+        "asset": ASSET_ADDRESS,
+        "resource": resource,
+        "description": DESCRIPTION,
+        "mimeType": MIME_TYPE,
+        "maxTimeoutSeconds": 300,${extra}
+    }
+
+
+${PAYMENT_HELPERS}
+
+
+${paymentKeyFunction(networkConfig.type === "evm" ? networkConfig.chainId : undefined)}
+
+
+${processPaymentFunction(false)}
+
+
+# FastAPI dependency:
+#   app.add_exception_handler(PaymentRequired, payment_required_handler)
+#
+#   @app.get("/premium")
+#   async def premium(payment: dict = Depends(require_payment)):
+#       return {"data": "Your premium content"}
+async def require_payment(request: Request) -> dict:
+    return await process_payment(request.headers.get("x-payment"), str(request.url))
+
+
+${PAYMENT_REQUIRED_HANDLER}`;
+}
+
+// One entry of the ROUTES table
+function routeEntry(route: PricedRoute): string {
+  const accepts = route.options.map((option) => {
+    const fields = [
+      `"network": ${py(option.network)}`,
+      `"asset": ${py(option.token.address)}`,
+      `"price": "${option.amount}"`,
+      `"payTo": ${py(option.payTo)}`,
+      ...(option.networkConfig.type === "evm" ? [`"chainId": ${option.networkConfig.chainId}`] : []),
+      ...(option.networkConfig.type === "evm" && option.token.eip712
+        ? [`"extra": {"name": ${py(option.token.eip712.name)}, "version": ${py(option.token.eip712.version)}}`]
+        : []),
+    ];
+    return `            # ${formatAmount(option.amount, option.token)} on ${option.network}
+            {${fields.join(", ")}},`;
+  });
+  return `    {
+        "methods": [${route.methods.map(py).join(", ")}],
+        "pattern": re.compile(${py(route.pattern)}),  # ${route.path}
+        "description": ${py(route.description)},
+        "mimeType": ${py(route.mimeType)},
+        "accepts": [
+${accepts.join("\n")}
+        ],
+    },`;
+}
+
+// Routes mode: a price table generated from a pricing config instead of one
+// hardcoded price
+export function pythonRoutesMerchant(options: RoutesTemplateOptions): string {
+  return `# pip install fastapi httpx
+import base64
+import json
+import os
+import re
+from urllib.parse import urlsplit
+
+import httpx
+from fastapi import Request
+from fastapi.responses import JSONResponse
+
+FACILITATOR_URL = os.environ.get("FACILITATOR_URL", ${py(options.facilitatorUrl)})
+
+# Priced routes, matched in order against the request method and path.
+# Requests no route matches go through free. Prices are in base units.
+ROUTES = [
+${options.routes.map(routeEntry).join("\n")}
+]
+
+
+def find_route(method: str, resource: str) -> dict | None:
+    path = urlsplit(resource).path
+    for route in ROUTES:
+        if ("*" in route["methods"] or method.upper() in route["methods"]) and route["pattern"].match(path):
+            return route
+    return None
+
+
+def build_payment_requirements(route: dict, option: dict, resource: str) -> dict:
+    requirements = {
+        "scheme": "exact",
+        "network": option["network"],
+        "maxAmountRequired": option["price"],
+        "payTo": option["payTo"],
+        "asset": option["asset"],
+        "resource": resource,
+        "description": route["description"],
+        "mimeType": route["mimeType"],
+        "maxTimeoutSeconds": 300,
+    }
+    if "extra" in option:
+        requirements["extra"] = option["extra"]
+    return requirements
+
+
+${PAYMENT_HELPERS}
+
+
+${ROUTES_PAYMENT_KEY}
+
+
+${processPaymentFunction(true)}
+
+
+# FastAPI dependency pricing every route:
+#   app = FastAPI(dependencies=[Depends(require_payment)])
+#   app.add_exception_handler(PaymentRequired, payment_required_handler)
+async def require_payment(request: Request) -> dict | None:
+    return await process_payment(request.headers.get("x-payment"), str(request.url), request.method)
+
+
+${PAYMENT_REQUIRED_HANDLER}`;
+}
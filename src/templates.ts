@@ -0,0 +1,787 @@
+import { NetworkConfig, TokenConfig } from "./networks.js";
+import type { PricedRoute } from "./pricing.js";
+import { formatAmount } from "./amounts.js";
+import { pythonConsumer, pythonMerchant, pythonRoutesMerchant } from "./templates-python.js";
+import { goConsumer, goMerchant, goRoutesMerchant } from "./templates-go.js";
+
+export const LANGUAGES = ["typescript", "javascript", "python", "go"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const MERCHANT_FRAMEWORKS = [
+  "express",
+  "fastify",
+  "hono",
+  "koa",
+  "nextjs",
+  "fastapi",
+  "net/http",
+] as const;
+export type MerchantFramework = (typeof MERCHANT_FRAMEWORKS)[number];
+
+// Languages each framework can be generated in; the first framework listed
+// for a language is its default
+const FRAMEWORK_LANGUAGES: Record<MerchantFramework, Language[]> = {
+  express: ["typescript", "javascript"],
+  fastify: ["typescript", "javascript"],
+  hono: ["typescript", "javascript"],
+  koa: ["typescript", "javascript"],
+  nextjs: ["typescript", "javascript"],
+  fastapi: ["python"],
+  "net/http": ["go"],
+};
+
+export function frameworksFor(language: Language): MerchantFramework[] {
+  return MERCHANT_FRAMEWORKS.filter((f) => FRAMEWORK_LANGUAGES[f].includes(language));
+}
+
+export interface ConsumerTemplateOptions {
+  network: string;
+  networkConfig: NetworkConfig;
+  token: TokenConfig;
+  language: Language;
+}
+
+export interface MerchantTemplateOptions extends ConsumerTemplateOptions {
+  // Default: the language's first framework
+  framework?: MerchantFramework;
+  // Price in base units of the token
+  price: bigint;
+  description: string;
+  mimeType: string;
+  facilitatorUrl: string;
+  // Environment variable holding the payTo address (default MERCHANT_WALLET_ADDRESS)
+  walletEnv?: string;
+}
+
+// Routes mode: one middleware pricing every route of a pricing config
+export interface RoutesTemplateOptions {
+  language: Language;
+  // Default: the language's first framework
+  framework?: MerchantFramework;
+  routes: PricedRoute[];
+  facilitatorUrl: string;
+}
+
+// Frameworks whose generated code is always an ES module
+const ESM_ONLY: MerchantFramework[] = ["hono", "nextjs"];
+
+const quote = (value: string) => `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+// Payer's transaction signature, the replay key of a Solana payment
+const SOLANA_PAYMENT_KEY = `  const bytes = Uint8Array.from(atob(paymentPayload.payload.transaction), (c) => c.charCodeAt(0));
+  // Signatures come first, after a compact-u16 count; the first non-empty
+  // one is the payer's (a facilitator fee payer signs at settlement)
+  let count = bytes[0];
+  let offset = 1;
+  if (count & 0x80) {
+    count = (count & 0x7f) | (bytes[1] << 7);
+    offset = 2;
+  }
+  for (let i = 0; i < count; i++) {
+    const signature = bytes.subarray(offset + i * 64, offset + (i + 1) * 64);
+    if (signature.some((byte) => byte !== 0)) {
+      return Array.from(signature, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    }
+  }
+  throw new Error('Payment transaction is not signed');`;
+
+// Key identifying a payment payload: (from, nonce, asset, chainId) on EVM
+// networks, the payer's transaction signature on Solana
+function paymentKeyFunction(chainId: number | undefined, t: (annotation: string) => string): string {
+  if (chainId !== undefined) {
+    return `function paymentKey(paymentPayload${t(": any")})${t(": string")} {
+  const { from, nonce } = paymentPayload.payload.authorization;
+  return [from, nonce, ASSET_ADDRESS, ${chainId}].join(':').toLowerCase();
+}`;
+  }
+  return `function paymentKey(paymentPayload${t(": any")})${t(": string")} {
+${SOLANA_PAYMENT_KEY}
+}`;
+}
+
+// Routes mode: the key depends on the network of the option being paid
+function routesPaymentKeyFunction(t: (annotation: string) => string): string {
+  return `function paymentKey(paymentPayload${t(": any")}, option${t(": PaymentOption")})${t(": string")} {
+  if (option.chainId !== undefined) {
+    const { from, nonce } = paymentPayload.payload.authorization;
+    return [from, nonce, option.asset, option.chainId].join(':').toLowerCase();
+  }
+${SOLANA_PAYMENT_KEY}
+}`;
+}
+
+// Facilitator calls and the optional replay cache, shared by both modes
+function paymentHelpers(ts: boolean): string {
+  const t = (annotation: string) => (ts ? annotation : "");
+  return `function decodePaymentHeader(paymentHeader${t(": string")}) {
+  const bytes = Uint8Array.from(atob(paymentHeader), (c) => c.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+// The facilitator answers with the result or wraps it as { success, data }
+async function callFacilitator(path${t(": string")}, paymentPayload${t(": any")}, paymentRequirements${t(": any")}) {
+  const response = await fetch(\`\${FACILITATOR_URL}\${path}\`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ paymentPayload, paymentRequirements })
+  });
+  const body = await response.json();
+  return body.success && body.data !== undefined ? body.data : body;
+}
+
+// Optional replay cache: remembers accepted payloads so one X-PAYMENT header
+// cannot pay for two requests before settlement catches it. Enable it with
+// setReplayCache(createMemoryReplayCache()), or pass a shared store (e.g.
+// Redis) with the same claim/release methods when running several instances.
+${ts ? `interface ReplayCache {
+  // Record the first use of a payment; returns the resource it was already used for
+  claim(key: string, resource: string): Promise<string | undefined> | string | undefined;
+  release(key: string): Promise<void> | void;
+}
+
+` : ""}let replayCache${t(": ReplayCache | undefined")};
+
+function setReplayCache(cache${t(": ReplayCache | undefined")}) {
+  replayCache = cache;
+}
+
+function createMemoryReplayCache()${t(": ReplayCache")} {
+  const used = new Map${t("<string, string>")}();
+  return {
+    claim(key${t(": string")}, resource${t(": string")}) {
+      const previous = used.get(key);
+      if (previous === undefined) {
+        used.set(key, resource);
+      }
+      return previous;
+    },
+    release(key${t(": string")}) {
+      used.delete(key);
+    }
+  };
+}`;
+}
+
+// Verify, then settle. A single-price middleware charges one set of
+// requirements; in routes mode the route is looked up first, and the payer's
+// network picks which of its accepts entries to charge.
+function processPaymentFunction(ts: boolean, routes: boolean): string {
+  const t = (annotation: string) => (ts ? annotation : "");
+  const select = routes
+    ? `  const route = findRoute(method, resource);
+  if (!route) {
+    // Routes without a price are free
+    return { status: 200 };
+  }
+  const accepts = route.accepts.map((option) => buildPaymentRequirements(route, option, resource));`
+    : `  const paymentRequirements = buildPaymentRequirements(resource);
+  const accepts = [paymentRequirements];`;
+  const choose = routes
+    ? `
+
+    // Charge the option for the network the payer chose
+    const index = route.accepts.findIndex((option) => option.network === paymentPayload.network);
+    if (index === -1) {
+      return {
+        status: 402,
+        body: { error: 'Payment network not accepted', reason: 'invalid_network', accepts }
+      };
+    }
+    const paymentRequirements = accepts[index];`
+    : "";
+
+  return `// Verify, then settle, the X-PAYMENT header for a resource. Returns the
+// response to send, or the settlement when the request may go through.
+async function processPayment(paymentHeader${t(": string | null | undefined")}, resource${t(": string")}${routes ? `, method${t(": string")}` : ""})${t(": Promise<PaymentOutcome>")} {
+${select}
+
+  if (!paymentHeader) {
+    return {
+      status: 402,
+      body: {
+        x402Version: 1,
+        error: 'X-PAYMENT header is required',
+        accepts
+      }
+    };
+  }
+
+  // A claimed payment that does not go through may be retried
+  let claimedKey${t(": string | undefined")};
+  const release = async () => {
+    if (replayCache && claimedKey) {
+      await replayCache.release(claimedKey);
+    }
+  };
+
+  try {
+    const paymentPayload = decodePaymentHeader(paymentHeader);${choose}
+
+    // Step 0: Refuse a payment already used for another request
+    if (replayCache) {
+      const key = paymentKey(paymentPayload${routes ? ", route.accepts[index]" : ""});
+      const usedFor = await replayCache.claim(key, resource);
+      if (usedFor !== undefined) {
+        return {
+          status: 402,
+          body: {
+            error: 'Payment already used',
+            reason: usedFor === resource ? 'payment_replayed' : 'payment_resource_mismatch'
+          }
+        };
+      }
+      claimedKey = key;
+    }
+
+    // Step 1: Verify
+    const verifyData = await callFacilitator('/verify', paymentPayload, paymentRequirements);
+    if (!verifyData.isValid) {
+      await release();
+      return {
+        status: 402,
+        body: { error: 'Payment verification failed', reason: verifyData.invalidReason }
+      };
+    }
+
+    // Step 2: Settle
+    const settleData = await callFacilitator('/settle', paymentPayload, paymentRequirements);
+    if (!settleData.success) {
+      await release();
+      return { status: 402, body: { error: 'Payment settlement failed' } };
+    }
+
+    console.log('✅ Payment settled:', settleData.transaction || settleData.signature);
+    return { status: 200, settlement: settleData };
+  } catch (error${t(": any")}) {
+    await release();
+    return {
+      status: 500,
+      body: { error: 'Payment processing failed', message: error.message }
+    };
+  }
+}`;
+}
+
+// Everything but the framework glue: requirements for a resource, the
+// facilitator calls and the verify-then-settle flow. Uses fetch and atob so
+// it also runs on edge runtimes.
+function paymentCore(options: MerchantTemplateOptions, ts: boolean): string {
+  const { network, networkConfig, token, price } = options;
+  const t = (annotation: string) => (ts ? annotation : "");
+  const extra =
+    networkConfig.type === "evm" && token.eip712
+      ? `,\n    extra: { name: ${quote(token.eip712.name)}, version: ${quote(token.eip712.version)} }`
+      : "";
+
+  return `const FACILITATOR_URL = process.env.FACILITATOR_URL || ${quote(options.facilitatorUrl)};
+const MERCHANT_WALLET = process.env.${options.walletEnv ?? "MERCHANT_WALLET_ADDRESS"};
+const NETWORK = ${quote(network)};
+const ASSET_ADDRESS = ${quote(token.address)}; // ${token.symbol}
+const PRICE = '${price}'; // ${formatAmount(price, token)} (${token.decimals} decimals)
+const DESCRIPTION = ${quote(options.description)};
+const MIME_TYPE = ${quote(options.mimeType)};
+${ts ? `
+type PaymentOutcome =
+  | { status: number; body: any; settlement?: undefined }
+  | { status: 200; body?: undefined; settlement: any };
+` : ""}
+function buildPaymentRequirements(resource${t(": string")}) {
+  return {
+    scheme: 'exact',
+    network: NETWORK,
+    maxAmountRequired: PRICE,
+    payTo: MERCHANT_WALLET,
+    asset: ASSET_ADDRESS,
+    resource,
+    description: DESCRIPTION,
+    mimeType: MIME_TYPE,
+    maxTimeoutSeconds: 300${extra}
+  };
+}
+
+${paymentHelpers(ts)}
+
+${paymentKeyFunction(networkConfig.type === "evm" ? networkConfig.chainId : undefined, t)}
+
+${processPaymentFunction(ts, false)}`;
+}
+
+// One entry of the ROUTES table
+function routeEntry(route: PricedRoute): string {
+  const accepts = route.options.map((option) => {
+    const fields = [
+      `network: ${quote(option.network)}`,
+      `asset: ${quote(option.token.address)}`,
+      `price: '${option.amount}'`,
+      `payTo: ${quote(option.payTo)}`,
+      ...(option.networkConfig.type === "evm" ? [`chainId: ${option.networkConfig.chainId}`] : []),
+      ...(option.networkConfig.type === "evm" && option.token.eip712
+        ? [`extra: { name: ${quote(option.token.eip712.name)}, version: ${quote(option.token.eip712.version)} }`]
+        : []),
+    ];
+    return `      // ${formatAmount(option.amount, option.token)} on ${option.network}
+      { ${fields.join(", ")} }`;
+  });
+  return `  {
+    methods: [${route.methods.map(quote).join(", ")}],
+    pattern: new RegExp(${quote(route.pattern)}), // ${route.path}
+    description: ${quote(route.description)},
+    mimeType: ${quote(route.mimeType)},
+    accepts: [
+${accepts.join(",\n")}
+    ]
+  }`;
+}
+
+// Routes mode: a price table generated from a pricing config instead of one
+// hardcoded price
+function routesPaymentCore(options: RoutesTemplateOptions, ts: boolean): string {
+  const t = (annotation: string) => (ts ? annotation : "");
+
+  return `const FACILITATOR_URL = process.env.FACILITATOR_URL || ${quote(options.facilitatorUrl)};
+${ts ? `
+interface PaymentOption {
+  network: string;
+  asset: string;
+  // Base units of the asset
+  price: string;
+  payTo: string;
+  // EVM networks only
+  chainId?: number;
+  extra?: { name: string; version: string };
+}
+
+interface PricedRoute {
+  methods: string[];
+  pattern: RegExp;
+  description: string;
+  mimeType: string;
+  accepts: PaymentOption[];
+}
+
+type PaymentOutcome =
+  | { status: number; body: any; settlement?: undefined }
+  | { status: 200; body?: undefined; settlement?: any };
+` : ""}
+// Priced routes, matched in order against the request method and path.
+// Requests no route matches go through free.
+const ROUTES${t(": PricedRoute[]")} = [
+${options.routes.map(routeEntry).join(",\n")}
+];
+
+function findRoute(method${t(": string")}, resource${t(": string")}) {
+  const { pathname } = new URL(resource);
+  return ROUTES.find(
+    (route) =>
+      (route.methods.includes('*') || route.methods.includes(method.toUpperCase())) && route.pattern.test(pathname)
+  );
+}
+
+function buildPaymentRequirements(route${t(": PricedRoute")}, option${t(": PaymentOption")}, resource${t(": string")}) {
+  return {
+    scheme: 'exact',
+    network: option.network,
+    maxAmountRequired: option.price,
+    payTo: option.payTo,
+    asset: option.asset,
+    resource,
+    description: route.description,
+    mimeType: route.mimeType,
+    maxTimeoutSeconds: 300,
+    ...(option.extra ? { extra: option.extra } : {})
+  };
+}
+
+${paymentHelpers(ts)}
+
+${routesPaymentKeyFunction(t)}
+
+${processPaymentFunction(ts, true)}`;
+}
+
+// Framework glue around processPayment. In routes mode the middleware is
+// mounted once for the whole app and passes the request method along.
+function frameworkAdapter(
+  framework: MerchantFramework,
+  ts: boolean,
+  routes: boolean
+): { imports: string; adapter: string; exports: string[] } {
+  const t = (annotation: string) => (ts ? annotation : "");
+  const method = (expression: string) => (routes ? `, ${expression}` : "");
+
+  switch (framework) {
+    case "express":
+    default:
+      return {
+        imports: ts ? "import type { NextFunction, Request, Response } from 'express';" : "",
+        adapter: `// Express middleware: ${routes ? "app.use(checkPayment)" : "app.get('/premium', checkPayment, handler)"}
+async function checkPayment(req${t(": Request")}, res${t(": Response")}, next${t(": NextFunction")}) {
+  const resource = \`\${req.protocol}://\${req.get('host')}\${req.originalUrl}\`;
+  const outcome = await processPayment(req.header('x-payment'), resource${method("req.method")});
+  if (outcome.status !== 200) {
+    return res.status(outcome.status).json(outcome.body);
+  }
+  res.locals.payment = outcome.settlement;
+  next();
+}`,
+        exports: ["checkPayment"],
+      };
+
+    case "fastify":
+      return {
+        imports: ts ? "import type { FastifyReply, FastifyRequest } from 'fastify';" : "",
+        adapter: `// Fastify preHandler hook: ${routes ? "fastify.addHook('preHandler', checkPayment)" : "fastify.get('/premium', { preHandler: checkPayment }, handler)"}
+async function checkPayment(request${t(": FastifyRequest")}, reply${t(": FastifyReply")}) {
+  const resource = \`\${request.protocol}://\${request.hostname}\${request.url}\`;
+  const outcome = await processPayment(request.headers['x-payment']${t(" as string | undefined")}, resource${method("request.method")});
+  if (outcome.status !== 200) {
+    return reply.code(outcome.status).send(outcome.body);
+  }
+}`,
+        exports: ["checkPayment"],
+      };
+
+    case "hono":
+      return {
+        imports: ts ? "import type { MiddlewareHandler } from 'hono';" : "",
+        adapter: `// Hono middleware: ${routes ? "app.use('*', checkPayment)" : "app.get('/premium', checkPayment, handler)"}
+const checkPayment${t(": MiddlewareHandler")} = async (c, next) => {
+  const outcome = await processPayment(c.req.header('x-payment'), c.req.url${method("c.req.method")});
+  if (outcome.status !== 200) {
+    return c.json(outcome.body, outcome.status${t(" as any")});
+  }
+  await next();
+};`,
+        exports: ["checkPayment"],
+      };
+
+    case "koa":
+      return {
+        imports: ts ? "import type { Context, Next } from 'koa';" : "",
+        adapter: `// Koa middleware: ${routes ? "app.use(checkPayment)" : "router.get('/premium', checkPayment, handler)"}
+async function checkPayment(ctx${t(": Context")}, next${t(": Next")}) {
+  const outcome = await processPayment(ctx.get('x-payment'), ctx.href${method("ctx.method")});
+  if (outcome.status !== 200) {
+    ctx.status = outcome.status;
+    ctx.body = outcome.body;
+    return;
+  }
+  ctx.state.payment = outcome.settlement;
+  await next();
+}`,
+        exports: ["checkPayment"],
+      };
+
+    case "nextjs":
+      return {
+        imports: "",
+        adapter: `// Next.js App Router route handler wrapper (Node.js or edge runtime):
+//   export const runtime = 'edge';
+//   export const GET = withPayment(async (request) => Response.json({ data: '...' }));${routes ? "\n// The price is looked up from the request's method and path." : ""}
+function withPayment(handler${t(": (request: Request) => Response | Promise<Response>")}) {
+  return async (request${t(": Request")}) => {
+    const outcome = await processPayment(request.headers.get('x-payment'), request.url${method("request.method")});
+    if (outcome.status !== 200) {
+      return Response.json(outcome.body, { status: outcome.status });
+    }
+    return handler(request);
+  };
+}`,
+        exports: ["withPayment"],
+      };
+  }
+}
+
+function javascriptMerchant(
+  language: Language,
+  framework: MerchantFramework,
+  core: (ts: boolean) => string,
+  routes: boolean
+): string {
+  const ts = language === "typescript";
+  const esm = ts || ESM_ONLY.includes(framework);
+  const { imports, adapter, exports: adapterExports } = frameworkAdapter(framework, ts, routes);
+  const exports = [...adapterExports, "setReplayCache", "createMemoryReplayCache"];
+  const exportLine = esm
+    ? `export { ${exports.join(", ")} };`
+    : `module.exports = { ${exports.join(", ")} };`;
+
+  return [imports, core(ts), adapter, exportLine]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function javascriptConsumer(options: ConsumerTemplateOptions): string {
+  const { network, networkConfig, token } = options;
+  const isTypescript = options.language === "typescript";
+
+  if (networkConfig.type === "evm") {
+    return `${isTypescript ? "import" : "const"} axios ${isTypescript ? "from" : "= require"} ${isTypescript ? "'axios';" : "('axios');"}
+${isTypescript ? "import" : "const { ethers } = require"} ${isTypescript ? "{ ethers } from 'ethers';" : "('ethers');"}
+
+const CONSUMER_PRIVATE_KEY = process.env.CONSUMER_PRIVATE_KEY;
+const MERCHANT_URL = process.env.MERCHANT_URL;
+const NETWORK = ${quote(network)};
+const CHAIN_ID = ${networkConfig.chainId};
+
+const wallet = new ethers.Wallet(CONSUMER_PRIVATE_KEY${isTypescript ? "!" : ""});
+
+async function createPayment(requirements${isTypescript ? ": any" : ""})${isTypescript ? ": Promise<string>" : ""} {
+  // The server names the token's EIP-712 domain in extra; fall back to ${token.symbol}'s
+  const domain = {
+    name: requirements.extra?.name ?? ${quote(token.eip712?.name ?? "USD Coin")},
+    version: requirements.extra?.version ?? ${quote(token.eip712?.version ?? "2")},
+    chainId: CHAIN_ID,
+    verifyingContract: requirements.asset,
+  };
+
+  const types = {
+    TransferWithAuthorization: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+    ],
+  };
+
+  const validAfter = 0;
+  const validBefore = Math.floor(Date.now() / 1000) + 3600;
+  const nonce = ethers.hexlify(ethers.randomBytes(32));
+
+  const value = {
+    from: wallet.address,
+    to: requirements.payTo,
+    value: requirements.maxAmountRequired,
+    validAfter,
+    validBefore,
+    nonce,
+  };
+
+  const signature = await wallet.signTypedData(domain, types, value);
+
+  const paymentPayload = {
+    x402Version: 1,
+    scheme: 'exact',
+    network: NETWORK,
+    payload: {
+      authorization: {
+        from: wallet.address,
+        to: requirements.payTo,
+        value: requirements.maxAmountRequired,
+        validAfter: validAfter.toString(),
+        validBefore: validBefore.toString(),
+        nonce: nonce,
+      },
+      signature: signature
+    }
+  };
+
+  return Buffer.from(JSON.stringify(paymentPayload)).toString('base64');
+}
+
+// 402 bodies are either { x402Version, error, accepts: [...] } or a bare requirements object
+function selectRequirements(body${isTypescript ? ": any" : ""}) {
+  if (!Array.isArray(body.accepts)) {
+    return body;
+  }
+  const requirements = body.accepts.find((r${isTypescript ? ": any" : ""}) => r.network === NETWORK);
+  if (!requirements) {
+    throw new Error(\`Server does not accept payment on \${NETWORK}\`);
+  }
+  return requirements;
+}
+
+async function fetchWithPayment(url${isTypescript ? ": string" : ""}) {
+  let response = await axios.get(url, {
+    validateStatus: () => true
+  });
+
+  if (response.status === 402) {
+    const requirements = selectRequirements(response.data);
+    const paymentHeader = await createPayment(requirements);
+    
+    response = await axios.get(url, {
+      headers: { 'X-PAYMENT': paymentHeader },
+      validateStatus: () => true
+    });
+  }
+
+  return response.data;
+}
+
+${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
+  }
+
+  return `${isTypescript ? "import" : "const"} axios ${isTypescript ? "from" : "= require"} ${isTypescript ? "'axios';" : "('axios');"}
+${isTypescript ? "import { Keypair, PublicKey, Connection, ComputeBudgetProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';" : "const { Keypair, PublicKey, Connection, ComputeBudgetProgram, TransactionMessage, VersionedTransaction } = require('@solana/web3.js');"}
+${isTypescript ? "import { getAssociatedTokenAddressSync, createAssociatedTokenAccountIdempotentInstruction, createTransferCheckedInstruction, unpackMint } from '@solana/spl-token';" : "const { getAssociatedTokenAddressSync, createAssociatedTokenAccountIdempotentInstruction, createTransferCheckedInstruction, unpackMint } = require('@solana/spl-token');"}
+${isTypescript ? "import bs58 from 'bs58';" : "const bs58 = require('bs58');"}
+
+const CONSUMER_PRIVATE_KEY_BS58 = process.env.CONSUMER_PRIVATE_KEY_BS58;
+const MERCHANT_URL = process.env.MERCHANT_URL;
+const NETWORK = ${quote(network)};
+const RPC_URL = ${quote(networkConfig.rpcUrl!)};
+
+// Compute budget of the payment transaction, and bounds on its priority fee (micro-lamports per CU)
+const TRANSFER_COMPUTE_UNITS = 20000;
+const CREATE_ACCOUNT_COMPUTE_UNITS = 30000;
+const MIN_PRIORITY_FEE = 1;
+const MAX_PRIORITY_FEE = 1000000;
+
+const keypair = Keypair.fromSecretKey(bs58.decode(CONSUMER_PRIVATE_KEY_BS58${isTypescript ? "!" : ""}));
+const connection = new Connection(RPC_URL, 'confirmed');
+
+// Median of the recent priority fees paid for the writable accounts
+async function priorityFee(accounts${isTypescript ? ": PublicKey[]" : ""}) {
+  const fees = (await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts }))
+    .map((f) => f.prioritizationFee)
+    .filter((fee) => fee > 0)
+    .sort((a, b) => a - b);
+  const median = fees.length > 0 ? fees[Math.floor(fees.length / 2)] : MIN_PRIORITY_FEE;
+  return Math.min(Math.max(median, MIN_PRIORITY_FEE), MAX_PRIORITY_FEE);
+}
+
+async function createPayment(requirements${isTypescript ? ": any" : ""})${isTypescript ? ": Promise<string>" : ""} {
+  const owner = keypair.publicKey;
+  const payTo = new PublicKey(requirements.payTo);
+  const mint = new PublicKey(requirements.asset);
+  const amount = BigInt(requirements.maxAmountRequired);
+  // The facilitator pays the fee when it names a fee payer; it co-signs at settlement
+  const feePayer = requirements.extra?.feePayer ? new PublicKey(requirements.extra.feePayer) : owner;
+
+  // The mint's owner is its token program (SPL Token or Token-2022)
+  const mintAccount = await connection.getAccountInfo(mint);
+  if (!mintAccount) {
+    throw new Error(\`Mint \${requirements.asset} does not exist on \${NETWORK}\`);
+  }
+  const tokenProgram = mintAccount.owner;
+  const { decimals } = unpackMint(mint, mintAccount, tokenProgram);
+
+  const source = getAssociatedTokenAddressSync(mint, owner, true, tokenProgram);
+  const destination = getAssociatedTokenAddressSync(mint, payTo, true, tokenProgram);
+  const destinationExists = !!(await connection.getAccountInfo(destination));
+
+  const instructions = [
+    ComputeBudgetProgram.setComputeUnitLimit({
+      units: TRANSFER_COMPUTE_UNITS + (destinationExists ? 0 : CREATE_ACCOUNT_COMPUTE_UNITS),
+    }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: await priorityFee([source, destination]) }),
+  ];
+  if (!destinationExists) {
+    // Funded by the payer, so a facilitator fee payer only covers the fee
+    instructions.push(createAssociatedTokenAccountIdempotentInstruction(owner, destination, payTo, mint, tokenProgram));
+  }
+  instructions.push(createTransferCheckedInstruction(source, mint, destination, owner, amount, decimals, [], tokenProgram));
+
+  const { blockhash } = await connection.getLatestBlockhash('finalized');
+
+  const messageV0 = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message();
+
+  // Partially signed when the facilitator is the fee payer
+  const transaction = new VersionedTransaction(messageV0);
+  transaction.sign([keypair]);
+  
+  const serializedTx = transaction.serialize();
+  const base64Tx = Buffer.from(serializedTx).toString('base64');
+  
+  const paymentPayload = {
+    x402Version: 1,
+    scheme: 'exact',
+    network: NETWORK,
+    payload: {
+      transaction: base64Tx
+    }
+  };
+  
+  return Buffer.from(JSON.stringify(paymentPayload)).toString('base64');
+}
+
+// 402 bodies are either { x402Version, error, accepts: [...] } or a bare requirements object
+function selectRequirements(body${isTypescript ? ": any" : ""}) {
+  if (!Array.isArray(body.accepts)) {
+    return body;
+  }
+  const requirements = body.accepts.find((r${isTypescript ? ": any" : ""}) => r.network === NETWORK);
+  if (!requirements) {
+    throw new Error(\`Server does not accept payment on \${NETWORK}\`);
+  }
+  return requirements;
+}
+
+async function fetchWithPayment(url${isTypescript ? ": string" : ""}) {
+  let response = await axios.get(url, {
+    validateStatus: () => true
+  });
+  
+  if (response.status === 402) {
+    const requirements = selectRequirements(response.data);
+    const paymentHeader = await createPayment(requirements);
+    
+    response = await axios.get(url, {
+      headers: { 'X-PAYMENT': paymentHeader },
+      validateStatus: () => true
+    });
+  }
+  
+  return response.data;
+}
+
+${isTypescript ? "export" : "module.exports ="} { fetchWithPayment };`;
+}
+
+function resolveFramework(language: Language, framework?: MerchantFramework): MerchantFramework {
+  const resolved = framework ?? frameworksFor(language)[0];
+  if (!FRAMEWORK_LANGUAGES[resolved].includes(language)) {
+    throw new Error(
+      `${resolved} middleware cannot be generated in ${language} (use ${frameworksFor(language).join(", ")})`
+    );
+  }
+  return resolved;
+}
+
+// Merchant-side payment middleware for one network, token and price
+export function generateMerchantMiddleware(options: MerchantTemplateOptions): string {
+  const framework = resolveFramework(options.language, options.framework);
+
+  switch (options.language) {
+    case "python":
+      return pythonMerchant(options);
+    case "go":
+      return goMerchant(options);
+    default:
+      return javascriptMerchant(options.language, framework, (ts) => paymentCore(options, ts), false);
+  }
+}
+
+// Merchant-side payment middleware that looks up each request's price in a
+// table of routes, each accepting one or more networks
+export function generateRoutesMiddleware(options: RoutesTemplateOptions): string {
+  const framework = resolveFramework(options.language, options.framework);
+
+  switch (options.language) {
+    case "python":
+      return pythonRoutesMerchant(options);
+    case "go":
+      return goRoutesMerchant(options);
+    default:
+      return javascriptMerchant(options.language, framework, (ts) => routesPaymentCore(options, ts), true);
+  }
+}
+
+// Consumer code that fetches a URL and pays for it when it answers 402
+export function generateConsumerCode(options: ConsumerTemplateOptions): string {
+  switch (options.language) {
+    case "python":
+      return pythonConsumer(options);
+    case "go":
+      return goConsumer(options);
+    default:
+      return javascriptConsumer(options);
+  }
+}
@@ -0,0 +1,218 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { CONFIG_PATH, loadConfig, readJsonEnv } from "./config.js";
+
+// A named payer identity. Exactly one key source must be set:
+// - keystore: ethers encrypted JSON keystore (EVM), unlocked with passwordEnv or passwordFile
+// - keypairFile: solana-keygen JSON keypair file (SVM)
+// - privateKeyEnv: environment variable holding a hex (EVM) or base58 / JSON array (SVM) key
+export interface WalletConfig {
+  alias: string;
+  type: "evm" | "svm";
+  keystore?: string;
+  passwordEnv?: string;
+  passwordFile?: string;
+  keypairFile?: string;
+  privateKeyEnv?: string;
+  // Restrict the wallet to these network IDs (default: every network of its type)
+  networks?: string[];
+}
+
+export interface WalletInfo {
+  alias: string;
+  type: "evm" | "svm";
+  source: "keystore" | "keypair-file" | "env";
+  networks: string[] | "all";
+  address?: string;
+  error?: string;
+}
+
+let registry: WalletConfig[] | undefined;
+
+// Unlocked signers, cached so keystores are only decrypted once per process
+const evmSigners = new Map<string, ethers.Wallet | ethers.HDNodeWallet>();
+const solanaKeypairs = new Map<string, Keypair>();
+
+// Relative paths are resolved against the config file's directory
+function resolvePath(file: string): string {
+  if (file.startsWith("~/")) {
+    return path.join(os.homedir(), file.slice(2));
+  }
+  return path.resolve(path.dirname(CONFIG_PATH), file);
+}
+
+function walletSource(wallet: WalletConfig): WalletInfo["source"] {
+  if (wallet.keystore) return "keystore";
+  if (wallet.keypairFile) return "keypair-file";
+  return "env";
+}
+
+// Load wallets from X402_WALLETS (JSON array) or the config file's "wallets" section
+export function getWallets(): WalletConfig[] {
+  if (registry) {
+    return registry;
+  }
+
+  const entries = readJsonEnv("X402_WALLETS") ?? loadConfig().wallets ?? [];
+  if (!Array.isArray(entries)) {
+    throw new Error("Wallet configuration must be an array");
+  }
+
+  const seen = new Set<string>();
+  registry = entries.map((entry: any, index: number) => {
+    if (!entry?.alias) {
+      throw new Error(`Wallet #${index + 1} is missing an alias`);
+    }
+    if (seen.has(entry.alias)) {
+      throw new Error(`Duplicate wallet alias: ${entry.alias}`);
+    }
+    seen.add(entry.alias);
+    if (entry.type !== "evm" && entry.type !== "svm") {
+      throw new Error(`Wallet "${entry.alias}" must have type "evm" or "svm"`);
+    }
+    const sources = [entry.keystore, entry.keypairFile, entry.privateKeyEnv].filter(Boolean);
+    if (sources.length !== 1) {
+      throw new Error(
+        `Wallet "${entry.alias}" needs exactly one of keystore, keypairFile or privateKeyEnv`
+      );
+    }
+    if (entry.keystore && entry.type !== "evm") {
+      throw new Error(`Wallet "${entry.alias}": keystores are only supported for EVM wallets`);
+    }
+    if (entry.keypairFile && entry.type !== "svm") {
+      throw new Error(`Wallet "${entry.alias}": keypair files are only supported for SVM wallets`);
+    }
+    return entry as WalletConfig;
+  });
+  return registry!;
+}
+
+export function getWallet(alias: string): WalletConfig {
+  const wallet = getWallets().find((w) => w.alias === alias);
+  if (!wallet) {
+    const known = getWallets().map((w) => w.alias).join(", ") || "none configured";
+    throw new Error(`Unknown wallet "${alias}" (available: ${known})`);
+  }
+  return wallet;
+}
+
+// Check that a wallet may pay on a network of the given type
+export function assertWalletCanPay(wallet: WalletConfig, network: string, type: string) {
+  if (wallet.type !== type) {
+    throw new Error(`Wallet "${wallet.alias}" is an ${wallet.type} wallet and cannot pay on ${network}`);
+  }
+  if (wallet.networks && !wallet.networks.includes(network)) {
+    throw new Error(`Wallet "${wallet.alias}" is not enabled for ${network}`);
+  }
+}
+
+// First configured wallet that may pay on the network
+export function findWalletForNetwork(network: string, type: string): WalletConfig | undefined {
+  return getWallets().find(
+    (w) => w.type === type && (!w.networks || w.networks.includes(network))
+  );
+}
+
+function readEnvKey(wallet: WalletConfig): string {
+  const value = process.env[wallet.privateKeyEnv!];
+  if (!value) {
+    throw new Error(`Wallet "${wallet.alias}": ${wallet.privateKeyEnv} is not set`);
+  }
+  return value.trim();
+}
+
+function readKeystorePassword(wallet: WalletConfig): string {
+  if (wallet.passwordEnv) {
+    const password = process.env[wallet.passwordEnv];
+    if (password === undefined) {
+      throw new Error(`Wallet "${wallet.alias}": ${wallet.passwordEnv} is not set`);
+    }
+    return password;
+  }
+  if (wallet.passwordFile) {
+    return fs.readFileSync(resolvePath(wallet.passwordFile), "utf-8").trim();
+  }
+  throw new Error(`Wallet "${wallet.alias}" needs passwordEnv or passwordFile to unlock its keystore`);
+}
+
+function parseSolanaSecret(secret: string): Uint8Array {
+  return secret.startsWith("[")
+    ? Uint8Array.from(JSON.parse(secret))
+    : bs58.decode(secret);
+}
+
+export async function loadEvmSigner(alias: string): Promise<ethers.Wallet | ethers.HDNodeWallet> {
+  const cached = evmSigners.get(alias);
+  if (cached) {
+    return cached;
+  }
+
+  const wallet = getWallet(alias);
+  if (wallet.type !== "evm") {
+    throw new Error(`Wallet "${alias}" is not an EVM wallet`);
+  }
+
+  const signer = wallet.keystore
+    ? await ethers.Wallet.fromEncryptedJson(
+        fs.readFileSync(resolvePath(wallet.keystore), "utf-8"),
+        readKeystorePassword(wallet)
+      )
+    : new ethers.Wallet(readEnvKey(wallet));
+  evmSigners.set(alias, signer);
+  return signer;
+}
+
+export function loadSolanaKeypair(alias: string): Keypair {
+  const cached = solanaKeypairs.get(alias);
+  if (cached) {
+    return cached;
+  }
+
+  const wallet = getWallet(alias);
+  if (wallet.type !== "svm") {
+    throw new Error(`Wallet "${alias}" is not a Solana wallet`);
+  }
+
+  const secret = wallet.keypairFile
+    ? fs.readFileSync(resolvePath(wallet.keypairFile), "utf-8").trim()
+    : readEnvKey(wallet);
+  const keypair = Keypair.fromSecretKey(parseSolanaSecret(secret));
+  solanaKeypairs.set(alias, keypair);
+  return keypair;
+}
+
+// Resolve a wallet's public address. EVM keystores carry their address in
+// plain text, so this never needs the keystore password.
+export async function getWalletAddress(alias: string): Promise<string> {
+  const wallet = getWallet(alias);
+  if (wallet.type === "svm") {
+    return loadSolanaKeypair(alias).publicKey.toBase58();
+  }
+  if (wallet.keystore) {
+    const keystore = JSON.parse(fs.readFileSync(resolvePath(wallet.keystore), "utf-8"));
+    if (keystore.address) {
+      return ethers.getAddress(keystore.address);
+    }
+  }
+  return (await loadEvmSigner(alias)).address;
+}
+
+// Describe a wallet for display. Never includes key material.
+export async function describeWallet(wallet: WalletConfig): Promise<WalletInfo> {
+  const info: WalletInfo = {
+    alias: wallet.alias,
+    type: wallet.type,
+    source: walletSource(wallet),
+    networks: wallet.networks ?? "all",
+  };
+  try {
+    info.address = await getWalletAddress(wallet.alias);
+  } catch (error: any) {
+    info.error = error.message;
+  }
+  return info;
+}